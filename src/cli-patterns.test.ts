@@ -233,6 +233,157 @@ describe('CLI scan command patterns', () => {
     });
   });
 
+  describe('syntax errors', () => {
+    it('should report files with syntax errors after scanning', async () => {
+      fs.writeFileSync(path.join(testDir, 'src/broken.ts'), 'export const broken = ;\nexport function ok() {}');
+      
+      const { stdout } = await execAsync(`node ${cliPath} scan --include "src/**" --verbose`, { cwd: testDir });
+      
+      expect(stdout).toContain('Scan completed successfully');
+      expect(stdout).toContain('Files with syntax errors: 1');
+      expect(stdout).toContain('src/broken.ts:1:23 Expression expected.');
+      
+      const index = parseIndex(path.join(testDir, '.codebasemap'));
+      expect(index.files['src/broken.ts']?.functions.map(f => f.name)).toEqual(['ok']);
+    });
+  });
+
+  describe('tests command', () => {
+    it('should list the test files that import a source file', async () => {
+      fs.writeFileSync(
+        path.join(testDir, 'test/index.test.ts'),
+        'import { main } from "../src/index";\ndescribe("main", () => { it("runs", () => {}); it("exits", () => {}); });'
+      );
+      await execAsync(`node ${cliPath} scan`, { cwd: testDir });
+      
+      const { stdout } = await execAsync(`node ${cliPath} tests src/index.ts`, { cwd: testDir });
+      const { stdout: untested } = await execAsync(`node ${cliPath} tests src/utils.ts`, { cwd: testDir });
+      
+      expect(stdout).toContain('Tests covering src/index.ts');
+      expect(stdout).toContain('test/index.test.ts (2 tests)');
+      expect(untested).toContain('No test files import src/utils.ts');
+    });
+  });
+
+  describe('list command metrics', () => {
+    it('should list the most complex functions and largest files', async () => {
+      fs.writeFileSync(
+        path.join(testDir, 'src/utils.ts'),
+        'export function check(a: number) {\n  if (a > 1 && a < 5) return true;\n  return false;\n}\n'
+      );
+      await execAsync(`node ${cliPath} scan`, { cwd: testDir });
+      
+      const { stdout: complex } = await execAsync(`node ${cliPath} list --complex`, { cwd: testDir });
+      const { stdout: largest } = await execAsync(`node ${cliPath} list --largest`, { cwd: testDir });
+      
+      expect(complex).toContain('Most complex functions');
+      expect(complex).toContain('  3  check  src/utils.ts:1');
+      expect(largest).toContain('src/utils.ts (4 loc, 0 comments, nesting 1)');
+      expect(largest.indexOf('src/utils.ts')).toBeLessThan(largest.indexOf('src/index.ts'));
+    });
+  });
+
+  describe('scan settings', () => {
+    it('should reuse the extensions of the scan in update and status', async () => {
+      fs.writeFileSync(path.join(testDir, 'src/legacy.es6'), 'export const legacy = 1;');
+      await execAsync(`node ${cliPath} scan --extensions .es6`, { cwd: testDir });
+      
+      fs.writeFileSync(path.join(testDir, 'src/legacy.es6'), 'export const legacy = 2;\nexport const extra = 3;');
+      const { stdout: status } = await execAsync(`node ${cliPath} status`, { cwd: testDir });
+      const { stdout: update } = await execAsync(`node ${cliPath} update src/legacy.es6`, { cwd: testDir });
+      
+      const index = parseIndex(path.join(testDir, '.codebasemap'));
+      expect(index.metadata.extensions).toEqual(['.es6']);
+      expect(status).toContain('  M  src/legacy.es6');
+      expect(update).toContain('Index updated successfully');
+      expect(index.files['src/legacy.es6']?.constants.map(c => c.name)).toEqual(['legacy', 'extra']);
+    });
+
+    it('should reuse the include and exclude patterns of the scan in status', async () => {
+      await execAsync(`node ${cliPath} scan --include src --exclude "**/*.test.ts"`, { cwd: testDir });
+      fs.writeFileSync(path.join(testDir, 'src/app.test.ts'), 'export const check = 1;');
+      
+      const { stdout } = await execAsync(`node ${cliPath} status`, { cwd: testDir });
+      
+      const index = parseIndex(path.join(testDir, '.codebasemap'));
+      expect(index.metadata.include).toEqual(['src/**']);
+      expect(index.metadata.exclude).toEqual(['**/*.test.ts']);
+      expect(stdout).toContain('Index is up to date');
+    });
+  });
+
+  describe('status command', () => {
+    it('should report files changed since the scan', async () => {
+      await execAsync(`node ${cliPath} scan`, { cwd: testDir });
+      const { stdout: clean } = await execAsync(`node ${cliPath} status`, { cwd: testDir });
+      
+      fs.writeFileSync(path.join(testDir, 'src/utils.ts'), 'export const helper = () => 1;');
+      fs.rmSync(path.join(testDir, 'lib/core.ts'));
+      fs.writeFileSync(path.join(testDir, 'src/extra.ts'), 'export const extra = 1;');
+      const { stdout } = await execAsync(`node ${cliPath} status`, { cwd: testDir });
+      
+      expect(clean).toContain('Index is up to date');
+      expect(stdout).toContain('  A  src/extra.ts');
+      expect(stdout).toContain('  M  src/utils.ts');
+      expect(stdout).toContain('  D  lib/core.ts');
+      expect(stdout).toContain('1 added, 1 modified, 1 deleted');
+    });
+  });
+
+  describe('env command', () => {
+    it('should list environment variables with the files reading them', async () => {
+      fs.writeFileSync(path.join(testDir, 'src/utils.ts'), "export const helper = () => process.env.API_URL ?? 'http://localhost';");
+      await execAsync(`node ${cliPath} scan`, { cwd: testDir });
+      
+      const { stdout } = await execAsync(`node ${cliPath} env`, { cwd: testDir });
+      
+      expect(stdout).toContain('1 environment variables');
+      expect(stdout).toContain('API_URL (default: http://localhost)\n    src/utils.ts');
+    });
+  });
+
+  describe('format externals', () => {
+    it('should list imported packages and builtins on request', async () => {
+      fs.writeFileSync(path.join(testDir, 'package.json'), '{ "dependencies": { "zod": "^3.22.0" } }');
+      fs.writeFileSync(path.join(testDir, 'src/utils.ts'), "import { z } from 'zod';\nimport * as fs from 'node:fs';\nexport const helper = z.string();");
+      await execAsync(`node ${cliPath} scan`, { cwd: testDir });
+      
+      const { stdout } = await execAsync(`node ${cliPath} format --format dsl --externals`, { cwd: testDir });
+      const { stdout: plain } = await execAsync(`node ${cliPath} format --format dsl`, { cwd: testDir });
+      
+      expect(stdout).toContain('EXTERNALS:\nbuiltin node:fs [1 file]\nnpm zod@^3.22.0 [1 file]');
+      expect(plain).not.toContain('EXTERNALS:');
+      expect(parseIndex(path.join(testDir, '.codebasemap')).files['src/utils.ts']?.externals).toEqual(['node:fs', 'zod']);
+    });
+  });
+
+  describe('unresolved command', () => {
+    it('should report unresolved imports with their reasons', async () => {
+      fs.writeFileSync(path.join(testDir, 'src/utils.ts'), [
+        "import { Core } from '../lib/core';",
+        "import { gone } from './missing';",
+        "import { up } from '../../outside';",
+        "import './styles.css';",
+        "import { main } from './index';"
+      ].join('\n'));
+      
+      const { stdout: scan } = await execAsync(`node ${cliPath} scan --exclude "lib/**"`, { cwd: testDir });
+      const { stdout } = await execAsync(`node ${cliPath} unresolved`, { cwd: testDir });
+      const { stdout: excluded } = await execAsync(`node ${cliPath} unresolved --reason excluded`, { cwd: testDir });
+      
+      expect(scan).toContain('Unresolved imports: 4 (1 missing, 1 excluded, 1 outside-root, 1 unsupported-extension)');
+      expect(stdout).toContain([
+        '  src/utils.ts',
+        '    ../lib/core (excluded, line 1)',
+        '    ./missing (missing, line 2)',
+        '    ../../outside (outside-root, line 3)',
+        '    ./styles.css (unsupported-extension, line 4)'
+      ].join('\n'));
+      expect(excluded).toContain('1 unresolved imports in 1 files');
+      expect(excluded).not.toContain('./missing');
+    });
+  });
+
   describe('verbose mode with patterns', () => {
     it('should show pattern analysis in verbose mode', async () => {
       const { stdout } = await execAsync(
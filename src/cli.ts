@@ -27,7 +27,7 @@ import fs from 'node:fs';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { CodeIndexer, DependencyResolver, FileDiscovery } from './core/index.js';
-import type { ProjectIndex, FilterOptions } from './types/index.js';
+import type { ProjectIndex, FilterOptions, CodeIndexerOptions, IndexStatus, UnresolvedImport, UnresolvedReason } from './types/index.js';
 import { findProjectRoot, findIndexFile } from './utils/find-project-root.js';
 import { DEFAULT_INDEX_FILENAME } from './constants.js';
 import { formatWarningsForCLI, formatSuggestionsForCLI } from './utils/pattern-analysis.js';
@@ -40,7 +40,9 @@ import {
   toMarkdown,
   toTree,
   formatAuto,
-  getCompressionStats
+  getCompressionStats,
+  countTests,
+  type FormatOptions
 } from './core/index-formatter.js';
 
 /**
@@ -110,9 +112,10 @@ const program = new Command();
  * Builds FilterOptions from CLI include/exclude arguments with pattern normalization
  * @param include - Include patterns from CLI
  * @param exclude - Exclude patterns from CLI
+ * @param extensions - Extra file extensions from CLI
  * @returns FilterOptions object for use with indexer or filtering functions
  */
-function buildFilterOptions(include?: string[], exclude?: string[]): FilterOptions {
+function buildFilterOptions(include?: string[], exclude?: string[], extensions?: string[]): FilterOptions {
   const filterOptions: FilterOptions = {};
   if (include && include.length > 0) {
     filterOptions.include = FileDiscovery.normalizePatterns(include);
@@ -120,9 +123,30 @@ function buildFilterOptions(include?: string[], exclude?: string[]): FilterOptio
   if (exclude && exclude.length > 0) {
     filterOptions.exclude = FileDiscovery.normalizePatterns(exclude);
   }
+  if (extensions && extensions.length > 0) {
+    filterOptions.extensions = extensions;
+  }
   return filterOptions;
 }
 
+/**
+ * Unresolved import reasons in reporting order
+ */
+const UNRESOLVED_REASONS: UnresolvedReason[] = ['missing', 'excluded', 'outside-root', 'unsupported-extension'];
+
+/**
+ * Summarizes unresolved imports by reason
+ * @param entries - Unresolved imports to count
+ * @returns Counts such as "2 missing, 1 excluded", omitting reasons that do not occur
+ */
+function formatUnresolvedCounts(entries: UnresolvedImport[]): string {
+  return UNRESOLVED_REASONS
+    .map(reason => ({ reason, count: entries.filter(entry => entry.reason === reason).length }))
+    .filter(({ count }) => count > 0)
+    .map(({ reason, count }) => `${count} ${reason}`)
+    .join(', ');
+}
+
 /**
  * Validates and secures an output file path to prevent directory traversal attacks
  * @param outputPath - The output path provided by the user
@@ -178,8 +202,10 @@ program
   .option('-v, --verbose', 'show detailed progress')
   .option('--include <patterns...>', 'include file patterns (glob syntax: src/** lib/**/*.ts)')
   .option('--exclude <patterns...>', 'exclude file patterns (glob syntax: **/*.test.ts docs/**)')
+  .option('--extensions <extensions...>', 'additional file extensions to index (e.g. .es6)')
+  .option('--conditions <conditions...>', 'extra package.json exports/imports conditions (e.g. browser)')
   .action(async (options) => {
-    const { output, verbose, include, exclude } = options;
+    const { output, verbose, include, exclude, extensions, conditions } = options;
     
     // Find project root if not specified
     const root = options.root || findProjectRoot() || process.cwd();
@@ -190,7 +216,7 @@ program
     console.log('🔍 Scanning codebase...');
     
     // Build filter options from CLI arguments
-    const filterOptions = buildFilterOptions(include, exclude);
+    const filterOptions = buildFilterOptions(include, exclude, extensions);
     
     
     // Run pattern analysis if patterns are provided and verbose mode is on
@@ -231,7 +257,8 @@ program
       }
     }
     
-    const indexer = new CodeIndexer(root, filterOptions);
+    const indexerOptions: CodeIndexerOptions = conditions ? { ...filterOptions, conditions } : filterOptions;
+    const indexer = new CodeIndexer(root, indexerOptions);
     const startTime = Date.now();
     
     let index: ProjectIndex;
@@ -278,6 +305,27 @@ program
       console.log(`⏱️  Processing time: ${elapsed}s`);
       console.log(`💾 Index saved to: ${outputPath}`);
       
+      // Files with syntax errors are indexed from a partial parse, so flag them
+      const filesWithErrors = Object.entries(index.files).filter(([, info]) => info.diagnostics?.length);
+      if (filesWithErrors.length > 0) {
+        console.log(`⚠️  Files with syntax errors: ${filesWithErrors.length} (partially indexed)`);
+        if (verbose) {
+          filesWithErrors.slice(0, 5).forEach(([file, info]) => {
+            const first = info.diagnostics?.[0];
+            console.log(`  - ${file}:${first?.line}:${first?.column} ${first?.message}`);
+          });
+          if (filesWithErrors.length > 5) {
+            console.log(`  ... and ${filesWithErrors.length - 5} more`);
+          }
+        }
+      }
+      
+      // Relative imports that point nowhere indexed: broken imports or filter gaps
+      const unresolved = Object.values(index.files).flatMap(info => info.unresolved ?? []);
+      if (unresolved.length > 0) {
+        console.log(`⚠️  Unresolved imports: ${unresolved.length} (${formatUnresolvedCounts(unresolved)}), see "codebase-map unresolved"`);
+      }
+      
       if (verbose) {
         // Show entry points and leaf files
         const entryPoints = DependencyResolver.findEntryPoints(index.edges, index.nodes);
@@ -327,6 +375,8 @@ program
   .command('update <file>')
   .description('Update the index for a specific file')
   .option('-r, --root <path>', 'root directory')
+  .option('--extensions <extensions...>', 'additional file extensions to index (defaults to those of the scan)')
+  .option('--conditions <conditions...>', 'extra package.json exports/imports conditions (defaults to those of the scan)')
   .action(async (file, options) => {
     // Find existing index file
     const indexPath = findIndexFile() || path.join(process.cwd(), DEFAULT_INDEX_FILENAME);
@@ -344,7 +394,10 @@ program
     // Load existing index
     const existingIndex: ProjectIndex = JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
     
-    const indexer = new CodeIndexer(root);
+    const { metadata } = existingIndex;
+    const filterOptions = buildFilterOptions(metadata.include, metadata.exclude, options.extensions ?? metadata.extensions);
+    const conditions: string[] | undefined = options.conditions ?? metadata.conditions;
+    const indexer = new CodeIndexer(root, conditions ? { ...filterOptions, conditions } : filterOptions);
     const filePath = path.isAbsolute(file) ? file : path.join(root, file);
     const relativePath = path.relative(root, filePath);
     
@@ -359,16 +412,82 @@ program
     }
   });
 
+// Status command to compare the index against the working tree
+program
+  .command('status')
+  .description('Show files added, modified or deleted since the index was built')
+  .option('-r, --root <path>', 'root directory')
+  .option('--include <patterns...>', 'include file patterns (defaults to those of the scan)')
+  .option('--exclude <patterns...>', 'exclude file patterns (defaults to those of the scan)')
+  .option('--extensions <extensions...>', 'additional file extensions to index (defaults to those of the scan)')
+  .action(async (options) => {
+    // Find existing index file
+    const indexPath = findIndexFile();
+    
+    if (!indexPath || !fs.existsSync(indexPath)) {
+      console.error('❌ PROJECT_INDEX.json not found. Run "codebase-map scan" first.');
+      process.exit(1);
+    }
+    
+    const index: ProjectIndex = JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
+    const root = options.root || path.dirname(indexPath);
+    const filterOptions = buildFilterOptions(
+      options.include ?? index.metadata.include,
+      options.exclude ?? index.metadata.exclude,
+      options.extensions ?? index.metadata.extensions
+    );
+    const { conditions } = index.metadata;
+    const indexer = new CodeIndexer(root, conditions ? { ...filterOptions, conditions } : filterOptions);
+    
+    let status: IndexStatus;
+    try {
+      status = await indexer.getStatus(index);
+    } catch (error) {
+      console.error(`❌ Failed to check index status: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+    
+    const changes = [
+      ...status.added.map(file => `  A  ${file}`),
+      ...status.modified.map(file => `  M  ${file}`),
+      ...status.deleted.map(file => `  D  ${file}`)
+    ];
+    
+    if (changes.length === 0) {
+      console.log(`✅ Index is up to date (${index.metadata.totalFiles} files, updated ${index.metadata.updatedAt})`);
+      return;
+    }
+    
+    console.log(`📋 Index changes since ${index.metadata.updatedAt}:\n`);
+    changes.forEach(line => console.log(line));
+    console.log(`\n${status.added.length} added, ${status.modified.length} modified, ${status.deleted.length} deleted`);
+    console.log('💡 Run "codebase-map scan" to rebuild the index.');
+  });
+
 // Format command - outputs to stdout
 program
   .command('format')
   .description('Format the index for LLMs (outputs to stdout)')
   .option('-f, --format <type>', 'output format: auto|json|dsl|graph|markdown|tree', 'auto')
   .option('-s, --stats', 'show statistics to stderr (does not affect stdout output)')
+  .option('--locations', 'append file:line references to symbols (dsl and markdown formats)')
+  .option('--summaries', 'append one-line JSDoc summaries to symbols (dsl and markdown formats)')
+  .option('--hide-internal', 'omit symbols tagged @internal')
+  .option('--exclude-type-only', 'omit dependencies that only come from type-only imports')
+  .option('--collapse-tests', 'summarize each test file as a one-line suite/test count')
+  .option('--externals', 'list imported third-party packages and Node.js builtins (dsl and markdown formats)')
   .option('--include <patterns...>', 'include file patterns (glob syntax: src/** lib/**/*.ts)')
   .option('--exclude <patterns...>', 'exclude file patterns (glob syntax: **/*.test.ts docs/**)')
   .action((options) => {
-    const { format, stats, include, exclude } = options;
+    const { format, stats, include, exclude, locations, summaries, hideInternal, excludeTypeOnly, collapseTests, externals } = options;
+    const formatOptions: FormatOptions = {
+      includeLocations: !!locations,
+      includeSummaries: !!summaries,
+      hideInternal: !!hideInternal,
+      excludeTypeOnly: !!excludeTypeOnly,
+      collapseTests: !!collapseTests,
+      includeExternals: !!externals
+    };
     
     // Find existing index file
     const indexPath = findIndexFile();
@@ -465,20 +584,20 @@ program
         result = { format: 'json', content: JSON.stringify(index, null, 2) };
         break;
       case 'dsl':
-        result = { format: 'dsl', content: toDSL(index) };
+        result = { format: 'dsl', content: toDSL(index, formatOptions) };
         break;
       case 'graph':
-        result = { format: 'graph', content: toGraph(index) };
+        result = { format: 'graph', content: toGraph(index, formatOptions) };
         break;
       case 'markdown':
-        result = { format: 'markdown', content: toMarkdown(index) };
+        result = { format: 'markdown', content: toMarkdown(index, formatOptions) };
         break;
       case 'tree':
         result = { format: 'tree', content: toTree(index) };
         break;
       case 'auto':
       default:
-        result = formatAuto(index);
+        result = formatAuto(index, formatOptions);
         break;
     }
     
@@ -506,6 +625,8 @@ program
   .option('-d, --deps', 'show files with most dependencies')
   .option('-e, --entries', 'show entry point files')
   .option('-l, --leaves', 'show leaf files (no dependencies)')
+  .option('-c, --complex', 'show functions with highest cyclomatic complexity')
+  .option('--largest', 'show files with most lines of code')
   .action((options) => {
     // Find existing index file
     const indexPath = findIndexFile();
@@ -549,6 +670,47 @@ program
       if (leaves.length > 20) {
         console.log(`  ... and ${leaves.length - 20} more`);
       }
+    } else if (options.complex) {
+      // Show most complex functions and methods
+      const functions = Object.entries(index.files).flatMap(([file, info]) => [
+        ...info.functions.map(fn => ({ name: fn.name, complexity: fn.complexity, file, line: fn.loc?.line })),
+        ...info.classes.flatMap(cls => cls.methods.map(method => ({
+          name: `${cls.name}.${method.name}`,
+          complexity: method.complexity,
+          file,
+          line: method.loc?.line
+        })))
+      ]).filter((fn): fn is typeof fn & { complexity: number } => fn.complexity !== undefined);
+      
+      if (functions.length === 0) {
+        console.log('No complexity data found. Run "codebase-map scan" to rebuild the index.');
+        return;
+      }
+      
+      console.log('🧮 Most complex functions:\n');
+      functions
+        .sort((a, b) => b.complexity - a.complexity)
+        .slice(0, 10)
+        .forEach(({ name, complexity, file, line }) => {
+          console.log(`  ${String(complexity).padStart(3)}  ${name}  ${file}${line ? `:${line}` : ''}`);
+        });
+    } else if (options.largest) {
+      // Show largest files by lines of code
+      const files = Object.entries(index.files)
+        .flatMap(([file, info]) => info.metrics ? [{ file, metrics: info.metrics }] : []);
+      
+      if (files.length === 0) {
+        console.log('No metrics found. Run "codebase-map scan" to rebuild the index.');
+        return;
+      }
+      
+      console.log('📏 Largest files:\n');
+      files
+        .sort((a, b) => b.metrics.codeLines - a.metrics.codeLines)
+        .slice(0, 10)
+        .forEach(({ file, metrics }) => {
+          console.log(`  ${file} (${metrics.codeLines} loc, ${metrics.commentLines} comments, nesting ${metrics.maxNesting})`);
+        });
     } else {
       // Default: show all files
       console.log(`📁 ${index.metadata.totalFiles} files indexed:\n`);
@@ -559,6 +721,118 @@ program
     }
   });
 
+// Tests command to show which test files cover a source file
+program
+  .command('tests <file>')
+  .description('List the test files that import a source file')
+  .action((file) => {
+    // Find existing index file
+    const indexPath = findIndexFile();
+    
+    if (!indexPath || !fs.existsSync(indexPath)) {
+      console.error('❌ PROJECT_INDEX.json not found. Run "codebase-map scan" first.');
+      process.exit(1);
+    }
+    
+    const index: ProjectIndex = JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
+    const root = path.dirname(indexPath);
+    const filePath = path.isAbsolute(file) ? file : path.join(root, file);
+    const relativePath = path.relative(root, filePath).replace(/\\/g, '/');
+    
+    if (!index.files[relativePath]) {
+      console.error(`❌ ${relativePath} is not in the index.`);
+      process.exit(1);
+    }
+    
+    const testFiles = CodeIndexer.findTestsForFile(index, relativePath);
+    if (testFiles.length === 0) {
+      console.log(`🧪 No test files import ${relativePath}`);
+      return;
+    }
+    
+    console.log(`🧪 Tests covering ${relativePath}:\n`);
+    testFiles.forEach(testFile => {
+      const { tests } = countTests(index.files[testFile]?.tests);
+      console.log(`  ${testFile} (${tests} tests)`);
+    });
+  });
+
+// Env command to list environment variables and the files reading them
+program
+  .command('env')
+  .description('List environment variables read in the codebase')
+  .action(() => {
+    // Find existing index file
+    const indexPath = findIndexFile();
+    
+    if (!indexPath || !fs.existsSync(indexPath)) {
+      console.error('❌ PROJECT_INDEX.json not found. Run "codebase-map scan" first.');
+      process.exit(1);
+    }
+    
+    const index: ProjectIndex = JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
+    const variables = Object.entries(index.env ?? {});
+    
+    if (variables.length === 0) {
+      console.log('🔑 No environment variable reads found');
+      return;
+    }
+    
+    console.log(`🔑 ${variables.length} environment variables:\n`);
+    for (const [name, { files, defaults }] of variables) {
+      const fallback = defaults?.length ? ` (default: ${defaults.join(', ')})` : '';
+      console.log(`  ${name}${fallback}`);
+      files.forEach(file => console.log(`    ${file}`));
+    }
+  });
+
+// Unresolved command to list relative imports that do not resolve to indexed files
+program
+  .command('unresolved')
+  .description('List relative imports that do not resolve to an indexed file')
+  .option('--reason <reasons...>', `only show these reasons: ${UNRESOLVED_REASONS.join('|')}`)
+  .action((options) => {
+    const reasons: string[] | undefined = options.reason;
+    const unknown = reasons?.filter(reason => !UNRESOLVED_REASONS.includes(reason as UnresolvedReason)) ?? [];
+    if (unknown.length > 0) {
+      console.error(`❌ Unknown reason: ${unknown.join(', ')} (expected ${UNRESOLVED_REASONS.join(', ')})`);
+      process.exit(1);
+    }
+    
+    // Find existing index file
+    const indexPath = findIndexFile();
+    
+    if (!indexPath || !fs.existsSync(indexPath)) {
+      console.error('❌ PROJECT_INDEX.json not found. Run "codebase-map scan" first.');
+      process.exit(1);
+    }
+    
+    const index: ProjectIndex = JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
+    const files = Object.entries(index.files)
+      .map(([file, info]) => ({
+        file,
+        entries: (info.unresolved ?? []).filter(entry => !reasons || reasons.includes(entry.reason))
+      }))
+      .filter(({ entries }) => entries.length > 0)
+      .sort((a, b) => a.file.localeCompare(b.file));
+    
+    if (files.length === 0) {
+      console.log('✅ No unresolved imports');
+      return;
+    }
+    
+    const all = files.flatMap(({ entries }) => entries);
+    console.log(`🔗 ${all.length} unresolved imports in ${files.length} files:\n`);
+    for (const { file, entries } of files) {
+      console.log(`  ${file}`);
+      entries.forEach(entry => {
+        const line = entry.loc ? `, line ${entry.loc.line}` : '';
+        console.log(`    ${entry.from} (${entry.reason}${line})`);
+      });
+    }
+    console.log(`\n${formatUnresolvedCounts(all)}`);
+  });
+
 /**
  * Main CLI runner function
  * @param args - Command line arguments (defaults to process.argv)
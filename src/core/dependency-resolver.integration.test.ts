@@ -320,22 +320,26 @@ export function useExternal(): string {
       // Verify some key dependencies exist
       expect(edges).toContainEqual({
         from: 'src/types/user.ts',
-        to: 'src/types/base.ts'
+        to: 'src/types/base.ts',
+        kind: 'value'
       });
 
       expect(edges).toContainEqual({
         from: 'src/types/user.ts',
-        to: 'src/utils/validators.ts'
+        to: 'src/utils/validators.ts',
+        kind: 'value'
       });
 
       expect(edges).toContainEqual({
         from: 'src/services/user-service.ts',
-        to: 'src/types/user.ts'
+        to: 'src/types/user.ts',
+        kind: 'value'
       });
 
       expect(edges).toContainEqual({
         from: 'src/core/app.ts',
-        to: 'src/services/user-service.ts'
+        to: 'src/services/user-service.ts',
+        kind: 'value'
       });
     });
 
@@ -404,7 +408,8 @@ export function useExternal(): string {
           existingFiles.includes('src/core/file-discovery.ts')) {
         expect(edges).toContainEqual({
           from: 'src/core/indexer.ts',
-          to: 'src/core/file-discovery.ts'
+          to: 'src/core/file-discovery.ts',
+          kind: 'value'
         });
       }
     });
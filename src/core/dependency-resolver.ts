@@ -1,5 +1,8 @@
 /**
- * Dependency resolution module - resolves relative imports to actual file paths
+ * Dependency resolution module - resolves relative, tsconfig-aliased and
+ * workspace package imports to actual file paths, names the third-party
+ * packages and Node.js builtins behind the remaining bare imports, and reports
+ * relative imports that do not resolve
  * 
  * PERFORMANCE OPTIMIZATION: This module is optimized for O(n) complexity when processing
  * large codebases (10,000+ files). Key optimizations:
@@ -10,7 +13,18 @@
  */
 
 import * as path from 'node:path';
-import type { ImportInfo } from '../types/index.js';
+import { builtinModules } from 'node:module';
+import type {
+  ImportInfo,
+  DependencyEdge,
+  PathAliasConfig,
+  ResolutionContext,
+  PackageExports,
+  PackageImports,
+  WorkspacePackage,
+  UnresolvedImport,
+  UnresolvedReason
+} from '../types/index.js';
 
 /**
  * Performance-optimized file lookup structures
@@ -31,8 +45,34 @@ interface FileLookupStructures {
 }
 
 export class DependencyResolver {
-  private static readonly EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
-  private static readonly INDEX_FILES = ['index.ts', 'index.tsx', 'index.js', 'index.jsx'];
+  private static readonly EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte', '.astro'];
+  private static readonly INDEX_FILES = DependencyResolver.EXTENSIONS.map(ext => `index${ext}`);
+  
+  /**
+   * TypeScript sources imported through their emitted JavaScript extension
+   * (ESM TypeScript pattern: `import './utils.js'` refers to `utils.ts`)
+   */
+  private static readonly SOURCE_EXTENSIONS: Record<string, string> = {
+    '.js': '.ts',
+    '.jsx': '.tsx',
+    '.mjs': '.mts',
+    '.cjs': '.cts'
+  };
+
+  /**
+   * package.json `exports`/`imports` conditions that are always active; `import`
+   * or `require` is added depending on the import syntax
+   */
+  private static readonly BASE_CONDITIONS = ['types', 'default'];
+
+  /**
+   * Valid npm package names, optionally scoped; rejects aliases such as
+   * `@/utils`, `~/lib` or `$lib` and prefixed ids such as `virtual:module`
+   */
+  private static readonly PACKAGE_NAME_PATTERN = /^(?:@[\w-][\w.-]*\/)?[\w-][\w.-]*$/;
+
+  /** Node.js builtin module names, without the `node:` prefix */
+  private static readonly BUILTIN_MODULES = new Set(builtinModules);
 
   /**
    * Build optimized lookup structures from file array
@@ -41,8 +81,11 @@ export class DependencyResolver {
    * 
    * This is the key performance optimization - we build these structures once
    * and use O(1) lookups instead of O(n) array searches
+   * 
+   * @param allFiles - Array of all discovered files
+   * @returns Lookup structures to pass to the `*Optimized` methods
    */
-  private static buildLookupStructures(allFiles: string[]): FileLookupStructures {
+  static buildLookupStructures(allFiles: string[]): FileLookupStructures {
     const fileSet = new Set<string>();
     const basenameMap = new Map<string, string[]>();
     const directoryIndexMap = new Map<string, string[]>();
@@ -62,7 +105,6 @@ export class DependencyResolver {
       const dir = path.dirname(filePath);
       const ext = path.extname(filePath);
       const basename = path.basename(filePath, ext);
-      const filename = path.basename(filePath);
 
       // Build basename map for extension-less imports
       if (!basenameMap.has(basename)) {
@@ -73,8 +115,9 @@ export class DependencyResolver {
         basenameFiles.push(filePath);
       }
 
-      // Build directory index map for directory imports
-      if (this.INDEX_FILES.includes(filename)) {
+      // Build directory index map for directory imports (any discovered extension,
+      // so configured extra extensions resolve as directory indexes too)
+      if (basename === 'index') {
         if (!directoryIndexMap.has(dir)) {
           directoryIndexMap.set(dir, []);
         }
@@ -100,32 +143,29 @@ export class DependencyResolver {
   }
 
   /**
-   * Resolve relative imports to actual file paths using optimized lookup structures
+   * Resolve relative and aliased imports to actual file paths using optimized lookup structures
    * Time Complexity: O(1) per import (average case), O(k) worst case where k is number of candidates
    * 
    * @param imports - Array of import info from file
    * @param currentFilePath - Path of the file containing the imports
    * @param lookupStructures - Pre-built lookup structures for O(1) file resolution
+   * @param context - Project settings for non-relative imports (tsconfig aliases, workspace packages)
    * @returns Array of resolved file paths
    */
   static resolveImportsOptimized(
     imports: ImportInfo[],
     currentFilePath: string,
-    lookupStructures: FileLookupStructures
+    lookupStructures: FileLookupStructures,
+    context: ResolutionContext = {}
   ): string[] {
     const resolved: string[] = [];
-    const currentDir = path.dirname(currentFilePath);
 
     for (const importInfo of imports) {
-      // Only resolve relative imports (starting with . or ..)
-      if (!this.isRelativeImport(importInfo.from)) {
-        continue;
-      }
-
-      const resolvedPath = this.resolveRelativeImportOptimized(
-        importInfo.from,
-        currentDir,
-        lookupStructures
+      const resolvedPath = this.resolveSpecifier(
+        importInfo,
+        currentFilePath,
+        lookupStructures,
+        context
       );
 
       if (resolvedPath) {
@@ -137,6 +177,62 @@ export class DependencyResolver {
     return [...new Set(resolved)].sort();
   }
 
+  /**
+   * Find which resolved dependencies are only referenced through type-only imports
+   * 
+   * A dependency is type-only when every import resolving to it is type-only;
+   * a single value import makes it a runtime dependency.
+   * 
+   * @param imports - Array of import info from file
+   * @param currentFilePath - Path of the file containing the imports
+   * @param lookupStructures - Pre-built lookup structures for O(1) file resolution
+   * @param context - Project settings for non-relative imports (tsconfig aliases, workspace packages)
+   * @returns Sorted array of type-only dependency paths
+   */
+  static resolveTypeOnlyImportsOptimized(
+    imports: ImportInfo[],
+    currentFilePath: string,
+    lookupStructures: FileLookupStructures,
+    context: ResolutionContext = {}
+  ): string[] {
+    const typeOnly = new Set<string>();
+    const value = new Set<string>();
+
+    for (const importInfo of imports) {
+      const resolvedPath = this.resolveSpecifier(
+        importInfo,
+        currentFilePath,
+        lookupStructures,
+        context
+      );
+
+      if (resolvedPath) {
+        (importInfo.isTypeOnly ? typeOnly : value).add(resolvedPath);
+      }
+    }
+
+    return [...typeOnly].filter(file => !value.has(file)).sort();
+  }
+
+  /**
+   * Find type-only dependencies without pre-built lookup structures
+   * 
+   * @param imports - Array of import info from file
+   * @param currentFilePath - Path of the file containing the imports
+   * @param allFiles - Array of all discovered files
+   * @param context - Project settings for non-relative imports (tsconfig aliases, workspace packages)
+   * @returns Sorted array of type-only dependency paths
+   */
+  static resolveTypeOnlyImports(
+    imports: ImportInfo[],
+    currentFilePath: string,
+    allFiles: string[],
+    context: ResolutionContext = {}
+  ): string[] {
+    const lookupStructures = this.buildLookupStructures(allFiles);
+    return this.resolveTypeOnlyImportsOptimized(imports, currentFilePath, lookupStructures, context);
+  }
+
   /**
    * Legacy method for backwards compatibility
    * PERFORMANCE WARNING: This method has O(n²) complexity and should be avoided for large codebases
@@ -147,12 +243,427 @@ export class DependencyResolver {
   static resolveImports(
     imports: ImportInfo[],
     currentFilePath: string,
-    allFiles: string[]
+    allFiles: string[],
+    context: ResolutionContext = {}
   ): string[] {
     // Build lookup structures for this single operation
     // Note: This is inefficient for repeated calls but maintains compatibility
     const lookupStructures = this.buildLookupStructures(allFiles);
-    return this.resolveImportsOptimized(imports, currentFilePath, lookupStructures);
+    return this.resolveImportsOptimized(imports, currentFilePath, lookupStructures, context);
+  }
+
+  /**
+   * Find the third-party packages and Node.js builtins imported by a file
+   * 
+   * Bare specifiers are external unless they resolve to an indexed file or
+   * name a workspace package. Unresolved tsconfig aliases still count as
+   * external, since catch-all `paths` such as `"*": ["src/*", "node_modules/*"]`
+   * match every package. Subpaths are dropped
+   * (`lodash/merge` becomes `lodash`) and builtins get the `node:` prefix
+   * (`fs/promises` becomes `node:fs`).
+   * 
+   * @param imports - Array of import info from file
+   * @param currentFilePath - Path of the file containing the imports
+   * @param lookupStructures - Pre-built lookup structures for O(1) file resolution
+   * @param context - Project settings for non-relative imports (tsconfig aliases, workspace packages)
+   * @returns Sorted array of external package names
+   */
+  static resolveExternalImportsOptimized(
+    imports: ImportInfo[],
+    currentFilePath: string,
+    lookupStructures: FileLookupStructures,
+    context: ResolutionContext = {}
+  ): string[] {
+    const externals = new Set<string>();
+
+    for (const importInfo of imports) {
+      const specifier = importInfo.from;
+      if (this.isRelativeImport(specifier) || specifier.startsWith('#') || this.isWorkspaceSpecifier(specifier, context)) {
+        continue;
+      }
+      const name = this.getExternalName(specifier);
+      if (name && !this.resolveSpecifier(importInfo, currentFilePath, lookupStructures, context)) {
+        externals.add(name);
+      }
+    }
+
+    return [...externals].sort();
+  }
+
+  /**
+   * Get the external package name of a bare specifier
+   * @param specifier - Non-relative module specifier
+   * @returns Package name, `node:`-prefixed builtin name, or undefined when the specifier is not a package
+   */
+  private static getExternalName(specifier: string): string | undefined {
+    if (specifier.startsWith('node:')) {
+      return `node:${specifier.slice(5).split('/')[0]}`;
+    }
+
+    const segments = specifier.split('/');
+    const name = specifier.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0] ?? '';
+    if (!this.PACKAGE_NAME_PATTERN.test(name)) {
+      return undefined;
+    }
+    return this.BUILTIN_MODULES.has(name) ? `node:${name}` : name;
+  }
+
+  /**
+   * Find the relative imports of a file that do not resolve to an indexed file
+   * 
+   * Reasons are decided from the paths alone: `outside-root` for paths above
+   * the root, `unsupported-extension` for extensions that are neither
+   * resolvable nor present in the index (dotted basenames such as
+   * `./user.service` are tried with each extension appended first),
+   * `missing` otherwise. Telling
+   * excluded files apart from missing ones needs the file system; see
+   * getImportCandidates.
+   * 
+   * @param imports - Array of import info from file
+   * @param currentFilePath - Path of the file containing the imports
+   * @param lookupStructures - Pre-built lookup structures for O(1) file resolution
+   * @returns Unresolved imports in source order, one per specifier
+   */
+  static findUnresolvedImportsOptimized(
+    imports: ImportInfo[],
+    currentFilePath: string,
+    lookupStructures: FileLookupStructures
+  ): UnresolvedImport[] {
+    const unresolved = new Map<string, UnresolvedImport>();
+
+    for (const importInfo of imports) {
+      const specifier = importInfo.from;
+      if (
+        !this.isRelativeImport(specifier) ||
+        unresolved.has(specifier) ||
+        this.resolveRelativeImportOptimized(specifier, path.dirname(currentFilePath), lookupStructures)
+      ) {
+        continue;
+      }
+
+      const target = this.toRootPath(specifier, currentFilePath);
+      const ext = path.extname(target);
+      let reason: UnresolvedReason = 'missing';
+      if (target === '..' || target.startsWith('../')) {
+        reason = 'outside-root';
+      } else if (ext && !this.isResolvableExtension(ext, lookupStructures)) {
+        reason = 'unsupported-extension';
+      }
+
+      const entry: UnresolvedImport = { from: specifier, reason };
+      if (importInfo.loc) {
+        entry.loc = importInfo.loc;
+      }
+      unresolved.set(specifier, entry);
+    }
+
+    return [...unresolved.values()];
+  }
+
+  /**
+   * List the files a relative import could refer to, for checking which of
+   * them exist on disk
+   * @param specifier - Relative module specifier
+   * @param currentFilePath - Path of the file containing the import
+   * @returns Root-relative candidate paths in resolution order
+   */
+  static getImportCandidates(specifier: string, currentFilePath: string): string[] {
+    return this.generateCandidatesOptimized(this.toRootPath(specifier, currentFilePath), this.buildLookupStructures([]));
+  }
+
+  /**
+   * Convert a relative specifier to a normalized path relative to the project root
+   * @param specifier - Relative module specifier
+   * @param currentFilePath - Path of the file containing the import
+   * @returns Root-relative path (starting with `../` when it is above the root)
+   */
+  private static toRootPath(specifier: string, currentFilePath: string): string {
+    return path.normalize(path.join(path.dirname(currentFilePath), specifier)).replace(/\\/g, '/');
+  }
+
+  /**
+   * Check if a bare specifier imports a workspace package, even when it does not resolve
+   * @param specifier - Non-relative module specifier
+   * @param context - Project settings with the workspace packages
+   * @returns True if the specifier names a workspace package or one of its subpaths
+   */
+  private static isWorkspaceSpecifier(specifier: string, context: ResolutionContext): boolean {
+    return (context.workspacePackages ?? []).some(pkg =>
+      specifier === pkg.name || specifier.startsWith(`${pkg.name}/`)
+    );
+  }
+
+  /**
+   * Resolve a single import to an indexed file
+   * @param importInfo - Import to resolve
+   * @param currentFilePath - Path of the file containing the import
+   * @param lookupStructures - Pre-built lookup structures for O(1) file resolution
+   * @param context - Project settings for non-relative imports
+   * @returns Resolved file path or undefined if not found
+   */
+  private static resolveSpecifier(
+    importInfo: ImportInfo,
+    currentFilePath: string,
+    lookupStructures: FileLookupStructures,
+    context: ResolutionContext
+  ): string | undefined {
+    const specifier = importInfo.from;
+    if (this.isRelativeImport(specifier)) {
+      return this.resolveRelativeImportOptimized(specifier, path.dirname(currentFilePath), lookupStructures);
+    }
+
+    const conditions = new Set([
+      ...this.BASE_CONDITIONS,
+      importInfo.kind === 'require' ? 'require' : 'import',
+      ...(context.conditions ?? [])
+    ]);
+    if (specifier.startsWith('#')) {
+      return this.resolvePackageImport(specifier, currentFilePath, lookupStructures, context, conditions);
+    }
+    return this.resolvePathAlias(specifier, currentFilePath, lookupStructures, context.pathAliases ?? []) ??
+      this.resolveWorkspaceImport(specifier, lookupStructures, context.workspacePackages ?? [], conditions);
+  }
+
+  /**
+   * Find the workspace package a file belongs to
+   * @param filePath - Relative file path
+   * @param packages - Packages of the workspace
+   * @returns The most deeply nested package containing the file, if any
+   */
+  static findPackage(filePath: string, packages: WorkspacePackage[]): WorkspacePackage | undefined {
+    let match: WorkspacePackage | undefined;
+    for (const pkg of packages) {
+      if (filePath.startsWith(`${pkg.dir}/`) && (!match || pkg.dir.length > match.dir.length)) {
+        match = pkg;
+      }
+    }
+    return match;
+  }
+
+  /**
+   * Resolve a non-relative import through tsconfig `paths` and `baseUrl`
+   * 
+   * Configs are tried from the most deeply nested scope containing the
+   * importing file outwards. Within a config, `paths` are tried before
+   * `baseUrl`, as the TypeScript compiler does.
+   * 
+   * @param specifier - Non-relative module specifier
+   * @param currentFilePath - Path of the file containing the import
+   * @param lookupStructures - Pre-built lookup structures for O(1) file resolution
+   * @param pathAliases - Alias settings, most deeply nested scope first
+   * @returns Resolved file path or undefined if not found
+   */
+  private static resolvePathAlias(
+    specifier: string,
+    currentFilePath: string,
+    lookupStructures: FileLookupStructures,
+    pathAliases: PathAliasConfig[]
+  ): string | undefined {
+    for (const config of pathAliases) {
+      if (config.scope !== '.' && !currentFilePath.startsWith(`${config.scope}/`)) {
+        continue;
+      }
+
+      const match = this.matchPattern(specifier, config.paths);
+      if (match) {
+        for (const target of match.entry.targets) {
+          const resolvedPath = this.findFile(target.replace('*', match.wildcard), lookupStructures);
+          if (resolvedPath) {
+            return resolvedPath;
+          }
+        }
+      }
+
+      if (config.baseUrl !== undefined) {
+        const resolvedPath = this.findFile(path.join(config.baseUrl, specifier), lookupStructures);
+        if (resolvedPath) {
+          return resolvedPath;
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Resolve an import of a workspace package by its name
+   * 
+   * Subpaths are looked up in the package's `exports` when it has them. The
+   * package root additionally tries `types`, `main` and `module`, then
+   * `src/index` and `index`, so packages whose entry points reference build
+   * output still resolve to their indexed sources.
+   * 
+   * @param specifier - Non-relative module specifier
+   * @param lookupStructures - Pre-built lookup structures for O(1) file resolution
+   * @param packages - Packages of the workspace
+   * @param conditions - Active `exports` conditions
+   * @returns Resolved file path or undefined if not found
+   */
+  private static resolveWorkspaceImport(
+    specifier: string,
+    lookupStructures: FileLookupStructures,
+    packages: WorkspacePackage[],
+    conditions: Set<string>
+  ): string | undefined {
+    const pkg = packages.find(candidate => specifier === candidate.name || specifier.startsWith(`${candidate.name}/`));
+    if (!pkg) {
+      return undefined;
+    }
+
+    const subpath = `.${specifier.slice(pkg.name.length)}`;
+    const entries = pkg.exports !== undefined ? this.getExportTargets(pkg.exports, subpath, conditions) : [];
+    if (subpath === '.') {
+      for (const entry of [pkg.types, pkg.main, pkg.module]) {
+        if (entry !== undefined) {
+          entries.push(entry);
+        }
+      }
+      entries.push('src/index', 'index');
+    } else if (pkg.exports === undefined) {
+      entries.push(subpath, `src/${subpath.slice(2)}`);
+    }
+
+    for (const entry of entries) {
+      const resolvedPath = this.findFile(path.join(pkg.dir, entry), lookupStructures);
+      if (resolvedPath) {
+        return resolvedPath;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Resolve a Node subpath import (`#lib/db`) through the `imports` field of
+   * the package.json closest to the importing file
+   * 
+   * Targets are either paths relative to that package or specifiers of
+   * another workspace package.
+   * 
+   * @param specifier - Specifier starting with `#`
+   * @param currentFilePath - Path of the file containing the import
+   * @param lookupStructures - Pre-built lookup structures for O(1) file resolution
+   * @param context - Project settings with the workspace packages and root `imports`
+   * @param conditions - Active `imports` conditions
+   * @returns Resolved file path or undefined if not found
+   */
+  private static resolvePackageImport(
+    specifier: string,
+    currentFilePath: string,
+    lookupStructures: FileLookupStructures,
+    context: ResolutionContext,
+    conditions: Set<string>
+  ): string | undefined {
+    const pkg = this.findPackage(currentFilePath, context.workspacePackages ?? []);
+    const imports: PackageImports | undefined = pkg ? pkg.imports : context.rootImports;
+    if (!imports) {
+      return undefined;
+    }
+
+    const match = this.matchPattern(specifier, Object.keys(imports).map(pattern => ({ pattern })));
+    if (!match) {
+      return undefined;
+    }
+    for (const target of this.getConditionalTargets(imports[match.entry.pattern] ?? null, match.wildcard, conditions)) {
+      const resolvedPath = target.startsWith('./')
+        ? this.findFile(path.join(pkg?.dir ?? '.', target), lookupStructures)
+        : this.resolveWorkspaceImport(target, lookupStructures, context.workspacePackages ?? [], conditions);
+      if (resolvedPath) {
+        return resolvedPath;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Find the targets of a subpath in a package.json `exports` field
+   * @param exports - Value of the `exports` field
+   * @param subpath - Subpath relative to the package (`.` or `./utils`)
+   * @param conditions - Active `exports` conditions
+   * @returns Targets relative to the package directory, in preference order
+   */
+  private static getExportTargets(exports: PackageExports, subpath: string, conditions: Set<string>): string[] {
+    const isSubpathMap = exports !== null && typeof exports === 'object' && !Array.isArray(exports) &&
+      Object.keys(exports).some(key => key.startsWith('.'));
+    if (!isSubpathMap) {
+      // Sugar for `{ ".": exports }`
+      return subpath === '.' ? this.getConditionalTargets(exports, '', conditions) : [];
+    }
+
+    const match = this.matchPattern(subpath, Object.keys(exports).map(pattern => ({ pattern })));
+    return match ? this.getConditionalTargets(exports[match.entry.pattern] ?? null, match.wildcard, conditions) : [];
+  }
+
+  /**
+   * Flatten a conditional `exports`/`imports` value into its targets
+   * 
+   * Conditions are matched in the order the object declares them, as Node
+   * and TypeScript do. The first active condition gives the preferred target;
+   * later active conditions follow as fallbacks for targets that are not
+   * indexed (such as `types` entries pointing at build output).
+   * 
+   * @param value - Target, fallback list or conditions object
+   * @param wildcard - Text substituted for `*` in the targets
+   * @param conditions - Active conditions
+   * @returns Targets of the active conditions in declaration order
+   */
+  private static getConditionalTargets(value: PackageExports, wildcard: string, conditions: Set<string>): string[] {
+    if (typeof value === 'string') {
+      return [value.replace(/\*/g, wildcard)];
+    }
+    if (Array.isArray(value)) {
+      return value.flatMap(item => this.getConditionalTargets(item, wildcard, conditions));
+    }
+    if (value === null) {
+      return [];
+    }
+    return Object.entries(value)
+      .filter(([condition]) => conditions.has(condition))
+      .flatMap(([, target]) => this.getConditionalTargets(target, wildcard, conditions));
+  }
+
+  /**
+   * Find the pattern matching a specifier (tsconfig `paths`, `exports` and `imports` keys)
+   * 
+   * An exact pattern wins; otherwise the wildcard pattern with the longest
+   * prefix before the `*` is used.
+   * 
+   * @param specifier - Module specifier or subpath
+   * @param entries - Entries keyed by pattern, in declaration order
+   * @returns The matching entry and the text matched by `*`, or undefined
+   */
+  private static matchPattern<T extends { pattern: string }>(
+    specifier: string,
+    entries: T[]
+  ): { entry: T; wildcard: string } | undefined {
+    let best: { entry: T; wildcard: string } | undefined;
+    let bestPrefixLength = -1;
+
+    for (const entry of entries) {
+      const { pattern } = entry;
+      const star = pattern.indexOf('*');
+      if (star === -1) {
+        if (pattern === specifier) {
+          return { entry, wildcard: '' };
+        }
+        continue;
+      }
+
+      const prefix = pattern.slice(0, star);
+      const suffix = pattern.slice(star + 1);
+      if (
+        prefix.length > bestPrefixLength &&
+        specifier.length >= prefix.length + suffix.length &&
+        specifier.startsWith(prefix) &&
+        specifier.endsWith(suffix)
+      ) {
+        best = { entry, wildcard: specifier.slice(prefix.length, specifier.length - suffix.length) };
+        bestPrefixLength = prefix.length;
+      }
+    }
+
+    return best;
   }
 
   /**
@@ -170,8 +681,17 @@ export class DependencyResolver {
     lookupStructures: FileLookupStructures
   ): string | undefined {
     // Resolve the relative path, keeping it relative to the project root
-    const resolvedPath = path.join(currentDir, specifier);
-    const normalizedPath = path.normalize(resolvedPath).replace(/\\/g, '/');
+    return this.findFile(path.join(currentDir, specifier), lookupStructures);
+  }
+
+  /**
+   * Find the indexed file for a root-relative module path
+   * @param modulePath - Module path relative to the project root, with or without extension
+   * @param lookupStructures - Pre-built lookup structures for O(1) file resolution
+   * @returns Resolved file path or undefined if not found
+   */
+  private static findFile(modulePath: string, lookupStructures: FileLookupStructures): string | undefined {
+    const normalizedPath = path.normalize(modulePath).replace(/\\/g, '/');
 
     // Generate candidates using optimized structures
     const candidates = this.generateCandidatesOptimized(normalizedPath, lookupStructures);
@@ -204,22 +724,23 @@ export class DependencyResolver {
     const relativePath = basePath.startsWith('/') ? basePath.slice(1) : basePath;
     
     // 1. Handle files with extensions
-    if (path.extname(relativePath)) {
-      const ext = path.extname(relativePath);
+    const ext = path.extname(relativePath);
+    if (ext) {
       const baseName = relativePath.slice(0, -ext.length);
       
-      // For .js/.jsx imports, prioritize .ts/.tsx equivalents (ESM TypeScript pattern)
-      if (ext === '.js') {
-        candidates.push(baseName + '.ts');  // Try .ts first
-        candidates.push(relativePath);      // Then try actual .js
-      } else if (ext === '.jsx') {
-        candidates.push(baseName + '.tsx'); // Try .tsx first
-        candidates.push(relativePath);      // Then try actual .jsx
+      // For .js/.jsx/.mjs/.cjs imports, prioritize the TypeScript source equivalents
+      const sourceExt = this.SOURCE_EXTENSIONS[ext];
+      if (sourceExt) {
+        candidates.push(baseName + sourceExt); // Try .ts/.tsx/.mts/.cts first
+        candidates.push(relativePath);         // Then try the actual JavaScript file
       } else {
         // For other extensions (.ts, .tsx, etc.), try exact match first
         candidates.push(relativePath);
       }
-    } else {
+    }
+
+    // Dotted basenames (`./user.service`) end in an extension that is not resolvable
+    if (!ext || !this.isResolvableExtension(ext, lookupStructures)) {
       // 2. Try adding supported extensions (no extension provided)
       // Use basename lookup for more efficient matching
       const basename = path.basename(relativePath);
@@ -255,6 +776,16 @@ export class DependencyResolver {
     return candidates;
   }
 
+  /**
+   * Check if a file extension can be imported as a module
+   * @param ext - Extension including the leading dot
+   * @param lookupStructures - Pre-built lookup structures, whose extensions count as resolvable too
+   * @returns True for supported extensions and extensions present in the index
+   */
+  private static isResolvableExtension(ext: string, lookupStructures: FileLookupStructures): boolean {
+    return this.EXTENSIONS.includes(ext) || lookupStructures.extensionMap.has(ext);
+  }
+
   /**
    * Check if an import specifier is relative
    * @param specifier - Module specifier to check
@@ -276,26 +807,32 @@ export class DependencyResolver {
    * 
    * @param files - Map of file paths to their import info
    * @param allFiles - Array of all discovered files
-   * @returns Array of dependency edges
+   * @param context - Project settings for non-relative imports (tsconfig aliases, workspace packages)
+   * @param lookupStructures - Lookup structures for `allFiles`, when the caller already built them
+   * @returns Array of dependency edges annotated as `type` or `value`
    */
   static buildDependencyGraph(
     files: Record<string, ImportInfo[]>,
-    allFiles: string[]
-  ): Array<{ from: string; to: string }> {
-    const edges: Array<{ from: string; to: string }> = [];
+    allFiles: string[],
+    context: ResolutionContext = {},
+    lookupStructures?: FileLookupStructures
+  ): DependencyEdge[] {
+    const edges: DependencyEdge[] = [];
 
     // BUILD LOOKUP STRUCTURES ONCE - O(n) operation
     // This is the key performance optimization that eliminates O(n²) complexity
-    const lookupStructures = this.buildLookupStructures(allFiles);
+    lookupStructures ??= this.buildLookupStructures(allFiles);
 
     // RESOLVE IMPORTS FOR ALL FILES - O(n) total using O(1) lookups
     for (const [filePath, imports] of Object.entries(files)) {
-      const dependencies = this.resolveImportsOptimized(imports, filePath, lookupStructures);
+      const dependencies = this.resolveImportsOptimized(imports, filePath, lookupStructures, context);
+      const typeOnly = new Set(this.resolveTypeOnlyImportsOptimized(imports, filePath, lookupStructures, context));
       
       for (const dependency of dependencies) {
         edges.push({
           from: filePath,
-          to: dependency
+          to: dependency,
+          kind: typeOnly.has(dependency) ? 'type' : 'value'
         });
       }
     }
@@ -306,16 +843,21 @@ export class DependencyResolver {
   /**
    * Find circular dependencies in the dependency graph
    * @param edges - Array of dependency edges
+   * @param options - Set `excludeTypeOnly` to ignore type-only edges and report runtime cycles only
    * @returns Array of circular dependency chains
    */
   static findCircularDependencies(
-    edges: Array<{ from: string; to: string }>
+    edges: DependencyEdge[],
+    options: { excludeTypeOnly?: boolean } = {}
   ): string[][] {
     const graph = new Map<string, string[]>();
     const cycles: string[][] = [];
 
     // Build adjacency list
     for (const edge of edges) {
+      if (options.excludeTypeOnly && edge.kind === 'type') {
+        continue;
+      }
       if (!graph.has(edge.from)) {
         graph.set(edge.from, []);
       }
@@ -375,7 +917,7 @@ export class DependencyResolver {
    * @returns Map of file paths to dependency counts
    */
   static getDependencyCounts(
-    edges: Array<{ from: string; to: string }>
+    edges: DependencyEdge[]
   ): { dependencies: Map<string, number>; dependents: Map<string, number> } {
     const dependencies = new Map<string, number>();
     const dependents = new Map<string, number>();
@@ -398,7 +940,7 @@ export class DependencyResolver {
    * @returns Array of entry point file paths
    */
   static findEntryPoints(
-    edges: Array<{ from: string; to: string }>,
+    edges: DependencyEdge[],
     allFiles: string[]
   ): string[] {
     const filesWithDependencies = new Set(edges.map(edge => edge.from));
@@ -412,7 +954,7 @@ export class DependencyResolver {
    * @returns Array of leaf file paths
    */
   static findLeafFiles(
-    edges: Array<{ from: string; to: string }>,
+    edges: DependencyEdge[],
     allFiles: string[]
   ): string[] {
     const importedFiles = new Set(edges.map(edge => edge.to));
@@ -238,11 +238,31 @@ describe('FileDiscovery', () => {
       expect(patterns).toEqual([
         '**/*.ts',
         '**/*.tsx',
+        '**/*.mts',
+        '**/*.cts',
         '**/*.js',
-        '**/*.jsx'
+        '**/*.jsx',
+        '**/*.mjs',
+        '**/*.cjs',
+        '**/*.vue',
+        '**/*.svelte',
+        '**/*.astro'
       ]);
     });
 
+    it('should search for configured extra extensions', async () => {
+      mockFastGlob.mockResolvedValue(['src/app.ts', 'src/legacy.es6']);
+      mockIgnoreInstance.ignores.mockReturnValue(false);
+      mockFs.existsSync.mockReturnValue(false);
+      
+      const result = await FileDiscovery.discoverFiles('/test/project', { extensions: ['es6', '.ts'] });
+      
+      const patterns = mockFastGlob.mock.calls[0][0];
+      expect(patterns).toContain('**/*.es6');
+      expect(patterns.filter((p: string) => p === '**/*.ts')).toHaveLength(1);
+      expect(result).toEqual(['src/app.ts', 'src/legacy.es6']);
+    });
+
     it('should handle empty file list', async () => {
       mockFastGlob.mockResolvedValue([]);
       mockIgnoreInstance.ignores.mockReturnValue(false);
@@ -272,6 +292,25 @@ describe('FileDiscovery', () => {
       expect(FileDiscovery.isSupportedFile('src/component.jsx')).toBe(true);
     });
 
+    it('should return true for ESM and CommonJS module files', () => {
+      expect(FileDiscovery.isSupportedFile('src/module.mts')).toBe(true);
+      expect(FileDiscovery.isSupportedFile('src/module.cts')).toBe(true);
+      expect(FileDiscovery.isSupportedFile('src/module.mjs')).toBe(true);
+      expect(FileDiscovery.isSupportedFile('src/module.cjs')).toBe(true);
+    });
+
+    it('should return true for single-file components', () => {
+      expect(FileDiscovery.isSupportedFile('src/App.vue')).toBe(true);
+      expect(FileDiscovery.isSupportedFile('src/App.svelte')).toBe(true);
+      expect(FileDiscovery.isSupportedFile('src/pages/index.astro')).toBe(true);
+    });
+
+    it('should return true for configured extra extensions', () => {
+      expect(FileDiscovery.isSupportedFile('src/legacy.es6')).toBe(false);
+      expect(FileDiscovery.isSupportedFile('src/legacy.es6', { extensions: ['.es6'] })).toBe(true);
+      expect(FileDiscovery.isSupportedFile('src/legacy.es6', { extensions: ['es6'] })).toBe(true);
+    });
+
     it('should return false for unsupported files', () => {
       expect(FileDiscovery.isSupportedFile('README.md')).toBe(false);
       expect(FileDiscovery.isSupportedFile('package.json')).toBe(false);
@@ -295,7 +334,7 @@ describe('FileDiscovery', () => {
     it('should return all supported extensions', () => {
       const extensions = FileDiscovery.getSupportedExtensions();
       
-      expect(extensions).toEqual(['.ts', '.tsx', '.js', '.jsx']);
+      expect(extensions).toEqual(['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte', '.astro']);
     });
 
     it('should return a copy of the extensions array', () => {
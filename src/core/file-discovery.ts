@@ -45,7 +45,7 @@ import {
 import { getGlobalPatternCache } from '../utils/pattern-cache.js';
 
 export class FileDiscovery {
-  private static readonly SUPPORTED_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
+  private static readonly SUPPORTED_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte', '.astro'];
   private static readonly EXCLUDED_DIRS = [
     'node_modules',
     'dist',
@@ -104,12 +104,7 @@ export class FileDiscovery {
     const absoluteRoot = path.resolve(rootPath);
     
     // Step 1: Get all candidate files (before any filtering)
-    const candidatePatterns = [
-      '**/*.ts',
-      '**/*.tsx', 
-      '**/*.js',
-      '**/*.jsx'
-    ];
+    const candidatePatterns = this.getExtensions(options).map(ext => `**/*${ext}`);
     
     const globOptions = {
       cwd: absoluteRoot,
@@ -125,7 +120,7 @@ export class FileDiscovery {
     // Get all candidate files
     const allCandidateFiles = await fastGlob(candidatePatterns, globOptions);
     const candidateFiles = allCandidateFiles.filter(file => 
-      this.isSupportedFile(file) && !ignoreRules.ignores(file)
+      this.isSupportedFile(file, options) && !ignoreRules.ignores(file)
     );
     
     // Step 2: Apply include patterns if provided
@@ -134,7 +129,7 @@ export class FileDiscovery {
       const normalizedInclude = this.normalizePatterns(options.include);
       const includeFiles = await fastGlob(normalizedInclude, globOptions);
       afterIncludeFiles = candidateFiles.filter(file => 
-        includeFiles.includes(file) && this.isSupportedFile(file)
+        includeFiles.includes(file) && this.isSupportedFile(file, options)
       );
     }
     
@@ -241,7 +236,7 @@ export class FileDiscovery {
       includePatterns: options.include || [],
       excludePatterns: options.exclude || [],
       gitignorePath: path.join(absoluteRoot, '.gitignore'),
-      supportedExtensions: this.SUPPORTED_EXTENSIONS,
+      supportedExtensions: this.getExtensions(options),
       excludedDirectories: this.EXCLUDED_DIRS
     };
     
@@ -255,7 +250,7 @@ export class FileDiscovery {
     const ignoreRules = await this.loadIgnoreRules(absoluteRoot);
     
     // Get all potential files first for individual evaluation
-    const patterns = this.SUPPORTED_EXTENSIONS.map(ext => `**/*${ext}`);
+    const patterns = this.getExtensions(options).map(ext => `**/*${ext}`);
     const globOptions = this.createGlobOptions(absoluteRoot);
     const allFiles = await fastGlob(patterns, globOptions);
     
@@ -326,7 +321,7 @@ export class FileDiscovery {
       const ignoreRules = await this.loadIgnoreRules(absoluteRoot);
       
       // Use fast-glob to find all potential files
-      const patterns = this.SUPPORTED_EXTENSIONS.map(ext => `**/*${ext}`);
+      const patterns = this.getExtensions(options).map(ext => `**/*${ext}`);
       const globOptions = this.createGlobOptions(absoluteRoot);
       
       const candidateFiles = await fastGlob(patterns, globOptions);
@@ -342,7 +337,7 @@ export class FileDiscovery {
         const includeFiles = await fastGlob(includePatterns, globOptions);
         // Keep only supported files that match include patterns
         afterIncludeFiles = candidateFiles.filter(file => 
-          includeFiles.includes(file) && this.isSupportedFile(file)
+          includeFiles.includes(file) && this.isSupportedFile(file, options)
         );
       }
       
@@ -512,35 +507,49 @@ export class FileDiscovery {
    * Check if a file has a supported extension
    * 
    * @param filePath - File path to check (absolute or relative)
-   * @returns True if file has a supported extension (.ts, .tsx, .js, .jsx)
+   * @param options - Optional filter options whose `extensions` extend the built-in list
+   * @returns True if file has a supported extension (.ts, .tsx, .mts, .cts, .js, .jsx, .mjs, .cjs,
+   *   .vue, .svelte, .astro or one of `options.extensions`)
    * 
    * @example
    * ```typescript
    * FileDiscovery.isSupportedFile('src/app.ts');     // true
+   * FileDiscovery.isSupportedFile('src/app.mjs');    // true
+   * FileDiscovery.isSupportedFile('src/App.vue');    // true
    * FileDiscovery.isSupportedFile('src/app.py');     // false
-   * FileDiscovery.isSupportedFile('README.md');      // false
+   * FileDiscovery.isSupportedFile('src/app.es6', { extensions: ['.es6'] }); // true
    * ```
    */
-  static isSupportedFile(filePath: string): boolean {
+  static isSupportedFile(filePath: string, options: FilterOptions = {}): boolean {
     const ext = path.extname(filePath);
-    return this.SUPPORTED_EXTENSIONS.includes(ext);
+    return this.getExtensions(options).includes(ext);
   }
 
   /**
    * Get supported file extensions
    * 
-   * @returns Array of supported extensions: ['.ts', '.tsx', '.js', '.jsx']
+   * @returns Array of built-in extensions: ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte', '.astro']
    * 
    * @example
    * ```typescript
    * const extensions = FileDiscovery.getSupportedExtensions();
-   * console.log(extensions); // ['.ts', '.tsx', '.js', '.jsx']
+   * console.log(extensions); // ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte', '.astro']
    * ```
    */
   static getSupportedExtensions(): string[] {
     return [...this.SUPPORTED_EXTENSIONS];
   }
 
+  /**
+   * Get the built-in extensions plus any extra extensions from the filter options
+   * @param options - Filter options with optional extra `extensions`
+   * @returns De-duplicated extensions, each with a leading dot
+   */
+  private static getExtensions(options: FilterOptions): string[] {
+    const extra = (options.extensions ?? []).map(ext => ext.startsWith('.') ? ext : `.${ext}`);
+    return [...new Set([...this.SUPPORTED_EXTENSIONS, ...extra])];
+  }
+
   /**
    * Get pattern cache statistics for performance monitoring
    * 
@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { toTree, getCompressionStats, formatAuto } from './index-formatter.js';
+import { toTree, toDSL, toGraph, toMarkdown, getCompressionStats, formatAuto, countTests } from './index-formatter.js';
 import type { ProjectIndex, TreeNode, FileInfo } from '../types/index.js';
 
 describe('Index Formatter - Tree Format', () => {
@@ -361,6 +361,559 @@ describe('Index Formatter - Tree Format', () => {
   });
 });
 
+describe('Index Formatter - Type Declarations', () => {
+  let index: ProjectIndex;
+
+  beforeEach(() => {
+    index = createIndexWithFiles({
+      'src/types.ts': {
+        ...createMockFileInfo(),
+        interfaces: [{
+          name: 'UserProps',
+          isExported: true,
+          typeParams: [{ name: 'T', constraint: 'object', default: '{}' }],
+          extends: ['BaseProps'],
+          members: [
+            { name: 'id', kind: 'property', type: 'string', readonly: true },
+            { name: 'data', kind: 'property', type: 'T', optional: true },
+            { name: 'greet', kind: 'method', params: [{ name: 'msg', type: 'string' }], type: 'void' }
+          ]
+        }],
+        types: [{ name: 'Status', isExported: true, type: "'active'\n  | 'inactive'" }],
+        enums: [{
+          name: 'Color',
+          isExported: true,
+          members: [{ name: 'Red', value: "'red'" }, { name: 'Green' }]
+        }]
+      }
+    });
+  });
+
+  it('should render interfaces, type aliases and enums in DSL format', () => {
+    const result = toDSL(index);
+
+    expect(result).toContain('  in UserProps<T extends object={}>{id:string,data?:T,greet(msg:string):void} extends BaseProps');
+    expect(result).toContain("  ty Status='active' | 'inactive'");
+    expect(result).toContain("  en Color{Red='red',Green}");
+  });
+
+  it('should list type declaration names in graph format', () => {
+    const result = toGraph(index);
+
+    expect(result).toContain('types: in:UserProps ty:Status en:Color');
+  });
+
+  it('should describe type declarations in markdown format', () => {
+    const result = toMarkdown(index);
+
+    expect(result).toContain('**Interfaces:** UserProps extends BaseProps (3 members)');
+    expect(result).toContain('**Types:** Status');
+    expect(result).toContain('**Enums:** Color (Red, Green)');
+  });
+
+  it('should not skip files that only declare types', () => {
+    const result = toDSL(index);
+
+    expect(result).toContain('src/types.ts > ');
+  });
+});
+
+describe('Index Formatter - Routes', () => {
+  const index = createIndexWithFiles({
+    'src/routes/users.ts': {
+      ...createMockFileInfo(),
+      routes: [
+        { method: 'POST', path: '/users', handler: 'createUser', loc: { line: 12, column: 1, endLine: 12, endColumn: 40 } },
+        { method: 'GET', path: '/users/:id', loc: { line: 8, column: 1, endLine: 8, endColumn: 40 } }
+      ]
+    },
+    'src/app.ts': {
+      ...createMockFileInfo(),
+      routes: [{ method: 'ALL', path: '/api', kind: 'mount', handler: 'usersRouter', loc: { line: 5, column: 1, endLine: 5, endColumn: 40 } }]
+    },
+    'app/about/page.tsx': {
+      ...createMockFileInfo(),
+      routes: [{ method: 'GET', path: '/about', kind: 'page' }]
+    }
+  });
+
+  it('should list routes sorted by path in DSL format', () => {
+    expect(toDSL(index)).toContain([
+      'ROUTES:',
+      'PAGE /about [app/about/page.tsx]',
+      'USE /api usersRouter [src/app.ts:5]',
+      'POST /users createUser [src/routes/users.ts:12]',
+      'GET /users/:id [src/routes/users.ts:8]'
+    ].join('\n'));
+  });
+
+  it('should render a routes table in markdown format', () => {
+    const result = toMarkdown(index);
+
+    expect(result).toContain('## Routes\n\n| Method | Path | Handler | Location |');
+    expect(result).toContain('| POST | `/users` | createUser | src/routes/users.ts:12 |');
+    expect(result).toContain('| PAGE | `/about` |  | app/about/page.tsx |');
+    expect(result.indexOf('## Routes')).toBeLessThan(result.indexOf('## Dependencies'));
+  });
+
+  it('should omit the routes section when no routes exist', () => {
+    const empty = createIndexWithFiles({ 'src/a.ts': createMockFileInfo() });
+
+    expect(toDSL(empty)).not.toContain('ROUTES:');
+    expect(toMarkdown(empty)).not.toContain('## Routes');
+  });
+});
+
+describe('Index Formatter - External Dependencies', () => {
+  const index: ProjectIndex = {
+    ...createIndexWithFiles({
+      'src/api.ts': { ...createMockFileInfo(), externals: ['node:fs', 'zod'] },
+      'src/app.tsx': { ...createMockFileInfo(), externals: ['react', 'zod'] }
+    }),
+    externals: {
+      'node:fs': { kind: 'builtin', files: ['src/api.ts'] },
+      react: { kind: 'npm', version: '18.2.0', files: ['src/app.tsx'] },
+      zod: { kind: 'npm', files: ['src/api.ts', 'src/app.tsx'] }
+    }
+  };
+  const options = { includeExternals: true };
+
+  it('should list packages sorted by name in DSL format', () => {
+    expect(toDSL(index, options)).toContain([
+      'EXTERNALS:',
+      'builtin node:fs [1 file]',
+      'npm react@18.2.0 [1 file]',
+      'npm zod [2 files]'
+    ].join('\n'));
+  });
+
+  it('should render a package table in markdown format', () => {
+    const result = toMarkdown(index, options);
+
+    expect(result).toContain('## External Dependencies\n\n| Package | Kind | Version | Files |');
+    expect(result).toContain('| `react` | npm | 18.2.0 | 1 |');
+    expect(result).toContain('| `zod` | npm |  | 2 |');
+    expect(result.indexOf('## External Dependencies')).toBeLessThan(result.indexOf('## Dependencies'));
+  });
+
+  it('should count only the files present in a filtered index', () => {
+    const filtered: ProjectIndex = { ...index, files: { 'src/api.ts': index.files['src/api.ts'] } };
+
+    expect(toDSL(filtered, options)).toContain('npm zod [1 file]');
+    expect(toDSL(filtered, options)).not.toContain('react');
+  });
+
+  it('should omit the section unless requested', () => {
+    expect(toDSL(index)).not.toContain('EXTERNALS:');
+    expect(toMarkdown(index)).not.toContain('## External Dependencies');
+  });
+});
+
+describe('Index Formatter - Tests', () => {
+  const index = createIndexWithFiles({
+    'src/utils.test.ts': {
+      ...createMockFileInfo(),
+      dependencies: ['src/utils.ts'],
+      functions: [{ name: 'createFixture', params: [], isAsync: false, isExported: false }],
+      tests: [
+        {
+          kind: 'suite',
+          name: 'format',
+          children: [
+            { kind: 'test', name: 'pads numbers' },
+            { kind: 'suite', name: 'dates', children: [{ kind: 'test', name: 'uses ISO format', modifier: 'skip' }] }
+          ]
+        },
+        { kind: 'test', name: 'exports defaults' }
+      ],
+      covers: ['src/utils.ts']
+    }
+  });
+
+  it('should render the test tree in DSL format', () => {
+    const result = toDSL(index);
+
+    expect(result).toContain('su=suite it=test');
+    expect(result).toContain([
+      'src/utils.test.ts > src/utils',
+      '  fn createFixture():void',
+      '  su format',
+      '    it pads numbers',
+      '    su dates',
+      '      it uses ISO format skip',
+      '  it exports defaults'
+    ].join('\n'));
+  });
+
+  it('should collapse test files into a summary line', () => {
+    const options = { collapseTests: true };
+
+    expect(toDSL(index, options)).toContain('src/utils.test.ts > src/utils\n  tests 2 suites, 3 tests');
+    expect(toDSL(index, options)).not.toContain('createFixture');
+    expect(toMarkdown(index, options)).toContain('**Tests:** 2 suites, 3 tests');
+    expect(toMarkdown(index, options)).not.toContain('**Functions:**');
+  });
+
+  it('should summarize tests in graph and markdown formats', () => {
+    expect(toGraph(index)).toContain('utils.test: fn:createFixture tests:3');
+    expect(toMarkdown(index)).toContain('**Tests:** format (2 tests), exports defaults');
+  });
+
+  it('should count nested suites and tests', () => {
+    expect(countTests(index.files['src/utils.test.ts']?.tests)).toEqual({ suites: 2, tests: 3 });
+    expect(countTests()).toEqual({ suites: 0, tests: 0 });
+  });
+});
+
+describe('Index Formatter - React Components', () => {
+  const index = createIndexWithFiles({
+    'src/components/Button.tsx': {
+      ...createMockFileInfo(),
+      functions: [
+        { name: 'Button', params: [{ name: 'unknown', type: 'ButtonProps' }], isAsync: false, isExported: true, kind: 'component', propsType: 'ButtonProps' },
+        { name: 'Spinner', params: [], isAsync: false, isExported: true, kind: 'component' },
+        { name: 'useClick', params: [{ name: 'delay', type: 'number' }], returnType: 'Handler', isAsync: false, isExported: true, kind: 'hook' },
+        { name: 'format', params: [], returnType: 'string', isAsync: false, isExported: false }
+      ]
+    }
+  });
+
+  it('should mark components and hooks in DSL format', () => {
+    const result = toDSL(index);
+
+    expect(result).toContain('cp=component hk=hook');
+    expect(result).toContain([
+      '  cp Button(ButtonProps)',
+      '  cp Spinner()',
+      '  hk useClick(delay:number):Handler',
+      '  fn format():string'
+    ].join('\n'));
+  });
+
+  it('should mark components and hooks in graph format', () => {
+    expect(toGraph(index)).toContain('components/Button: cp:Button,cp:Spinner,hk:useClick,fn:format');
+    expect(toGraph(index)).toContain('# fn=function cp=component hk=hook cl=class cn=constant in=interface ty=type en=enum ns=namespace');
+  });
+
+  it('should list components and hooks separately in markdown format', () => {
+    const result = toMarkdown(index);
+
+    expect(result).toContain('**Functions:** format()');
+    expect(result).toContain('**Components:** Button (ButtonProps), Spinner');
+    expect(result).toContain('**Hooks:** useClick()');
+  });
+});
+
+describe('Index Formatter - Namespaces', () => {
+  const index = createIndexWithFiles({
+    'src/types/express.d.ts': {
+      ...createMockFileInfo(),
+      namespaces: [{
+        name: 'express',
+        kind: 'module',
+        isExported: false,
+        isAmbient: true,
+        isAugmentation: true,
+        interfaces: [{ name: 'Request', isExported: false, members: [{ name: 'user', kind: 'property', type: 'User' }] }]
+      }, {
+        name: 'Validation',
+        kind: 'namespace',
+        isExported: true,
+        functions: [{ name: 'isEmail', params: [{ name: 'value', type: 'string' }], returnType: 'boolean', isAsync: false, isExported: true }],
+        namespaces: [{ name: 'Rules', kind: 'namespace', isExported: true, constants: [{ name: 'MAX', initKind: 'literal', isExported: true }] }]
+      }]
+    }
+  });
+
+  it('should nest namespace members in DSL format', () => {
+    const result = toDSL(index);
+
+    expect(result).toContain([
+      'src/types/express.d.ts > ',
+      "  ns 'express' declare augments",
+      '    in Request{user:User}',
+      '  ns Validation',
+      '    fn isEmail(value:string):boolean',
+      '    ns Rules',
+      '      cn MAX:literal'
+    ].join('\n'));
+  });
+
+  it('should list namespaces in graph and markdown formats', () => {
+    expect(toGraph(index)).toContain('types/express.d: ns:express,Validation');
+    expect(toMarkdown(index)).toContain("**Namespaces:** 'express' (augmentation), Validation");
+  });
+});
+
+describe('Index Formatter - Function Signatures', () => {
+  it('should render generics and overloads compactly in DSL format', () => {
+    const index = createIndexWithFiles({
+      'src/parse.ts': {
+        ...createMockFileInfo(),
+        functions: [{
+          name: 'identity',
+          params: [{ name: 'value', type: 'T' }],
+          returnType: 'T',
+          typeParams: [{ name: 'T' }],
+          isAsync: false,
+          isExported: true
+        }, {
+          name: 'parse',
+          params: [{ name: 'input', type: 'unknown' }],
+          returnType: 'unknown',
+          overloads: [
+            { params: [{ name: 'input', type: 'string' }], returnType: 'Config' },
+            { params: [{ name: 'input', type: 'T' }], returnType: 'T', typeParams: [{ name: 'T', constraint: 'object' }] }
+          ],
+          isAsync: false,
+          isExported: true
+        }]
+      }
+    });
+
+    const result = toDSL(index);
+
+    expect(result).toContain('  fn identity<T>(value:T):T');
+    expect(result).toContain('  fn parse(input:string):Config | <T extends object>(input:T):T');
+    expect(result).not.toContain('input:unknown');
+  });
+});
+
+describe('Index Formatter - Source Locations', () => {
+  let index: ProjectIndex;
+
+  beforeEach(() => {
+    index = createIndexWithFiles({
+      'src/service.ts': {
+        ...createMockFileInfo(),
+        functions: [{
+          name: 'start',
+          params: [],
+          returnType: 'void',
+          isAsync: false,
+          isExported: true,
+          loc: { line: 12, column: 1, endLine: 14, endColumn: 2 }
+        }],
+        classes: [{
+          name: 'Service',
+          methods: [],
+          properties: [],
+          isExported: true,
+          loc: { line: 20, column: 1, endLine: 40, endColumn: 2 }
+        }]
+      }
+    });
+  });
+
+  it('should omit locations by default', () => {
+    expect(toDSL(index)).not.toContain('src/service.ts:12');
+    expect(toMarkdown(index)).not.toContain('src/service.ts:12');
+  });
+
+  it('should append file:line references in DSL format when requested', () => {
+    const result = toDSL(index, { includeLocations: true });
+
+    expect(result).toContain('  fn start():void [src/service.ts:12]');
+    expect(result).toContain('[src/service.ts:20]');
+  });
+
+  it('should append file:line references in markdown format when requested', () => {
+    const result = toMarkdown(index, { includeLocations: true });
+
+    expect(result).toContain('start() (src/service.ts:12)');
+    expect(result).toContain('Service (src/service.ts:20)');
+  });
+});
+
+describe('Index Formatter - Documentation', () => {
+  let index: ProjectIndex;
+
+  beforeEach(() => {
+    index = createIndexWithFiles({
+      'src/api.ts': {
+        ...createMockFileInfo(),
+        functions: [
+          { name: 'fetchUser', params: [], isAsync: true, isExported: true, doc: { summary: 'Loads a user by id.' } },
+          { name: 'resetCache', params: [], isAsync: false, isExported: true, doc: { internal: true } }
+        ],
+        classes: [{
+          name: 'Client',
+          isExported: true,
+          properties: [],
+          methods: [
+            { name: 'send', params: [], isAsync: true },
+            { name: 'debug', params: [], isAsync: false, doc: { summary: 'Dumps state.', internal: true } }
+          ],
+          doc: { summary: 'HTTP client.' }
+        }],
+        constants: [
+          { name: 'BASE_URL', initKind: 'literal', isExported: true, doc: { summary: 'API root.' } }
+        ]
+      }
+    });
+  });
+
+  it('should omit summaries and keep internal symbols by default', () => {
+    const result = toDSL(index);
+
+    expect(result).not.toContain('Loads a user by id.');
+    expect(result).toContain('fn resetCache');
+    expect(result).toContain('cl Client(2m,0p)');
+  });
+
+  it('should append one-line summaries in DSL format when requested', () => {
+    const result = toDSL(index, { includeSummaries: true });
+
+    expect(result).toContain('  fn fetchUser():void async # Loads a user by id.');
+    expect(result).toContain('  cl Client(2m,0p) # HTTP client.');
+    expect(result).toContain('  cn BASE_URL:literal # API root.');
+  });
+
+  it('should append summaries in markdown format when requested', () => {
+    const result = toMarkdown(index, { includeSummaries: true });
+
+    expect(result).toContain('async fetchUser() — Loads a user by id.');
+    expect(result).toContain('BASE_URL — API root.');
+  });
+
+  it('should hide internal functions and methods when requested', () => {
+    const dsl = toDSL(index, { hideInternal: true });
+    const graph = toGraph(index, { hideInternal: true });
+    const markdown = toMarkdown(index, { hideInternal: true });
+
+    expect(dsl).not.toContain('resetCache');
+    expect(dsl).toContain('cl Client(1m,0p)');
+    expect(graph).not.toContain('resetCache');
+    expect(markdown).not.toContain('resetCache');
+    expect(markdown).toContain('Client (1 methods, 0 properties)');
+  });
+});
+
+describe('Index Formatter - Type-only Dependencies', () => {
+  let index: ProjectIndex;
+
+  beforeEach(() => {
+    index = createIndexWithFiles({
+      'src/api.ts': {
+        ...createMockFileInfo(),
+        dependencies: ['src/models.ts', 'src/http.ts'],
+        typeDependencies: ['src/models.ts']
+      },
+      'src/models.ts': createMockFileInfo(),
+      'src/http.ts': createMockFileInfo()
+    });
+    index.edges = [
+      { from: 'src/api.ts', to: 'src/models.ts', kind: 'type' },
+      { from: 'src/api.ts', to: 'src/http.ts', kind: 'value' }
+    ];
+  });
+
+  it('should include type-only dependencies by default', () => {
+    expect(toDSL(index)).toContain('src/api.ts > src/models,src/http');
+    expect(toGraph(index)).toContain('api→models');
+  });
+
+  it('should exclude type-only dependencies when requested', () => {
+    const options = { excludeTypeOnly: true };
+
+    expect(toDSL(index, options)).toContain('src/api.ts > src/http');
+    expect(toGraph(index, options)).not.toContain('api→models');
+    expect(toGraph(index, options)).toContain('api→http');
+    expect(toMarkdown(index, options)).toContain('**Dependencies:** src/http.ts');
+    expect(toMarkdown(index, options)).toContain('- **Dependencies:** 1');
+  });
+
+  it('should strip every supported extension from shortened paths', () => {
+    const index = createIndexWithFiles({
+      'src/App.vue': { ...createMockFileInfo(), dependencies: ['src/db.mts', 'src/Card.svelte'] },
+      'src/db.mts': createMockFileInfo(),
+      'src/Card.svelte': createMockFileInfo()
+    });
+    index.edges = [
+      { from: 'src/App.vue', to: 'src/db.mts', kind: 'value' },
+      { from: 'src/App.vue', to: 'src/Card.svelte', kind: 'value' }
+    ];
+
+    expect(toDSL(index)).toContain('src/App.vue > src/db,src/Card');
+    expect(toGraph(index)).toContain('App→db\nApp→Card');
+  });
+});
+
+describe('Index Formatter - Class Members', () => {
+  it('should render class decorators and list decorated members in DSL format', () => {
+    const index = createIndexWithFiles({
+      'src/users.controller.ts': {
+        ...createMockFileInfo(),
+        classes: [{
+          name: 'UsersController',
+          isExported: true,
+          decorators: [{ name: 'Controller', args: ["'/users'"] }],
+          methods: [
+            { name: 'findOne', params: [], isAsync: false, decorators: [{ name: 'Get', args: ["':id'"] }] },
+            { name: 'helper', params: [], isAsync: false }
+          ],
+          properties: [
+            { name: 'email', type: 'string', decorators: [{ name: 'Column', args: [] }, { name: 'IsEmail' }] }
+          ]
+        }]
+      }
+    });
+
+    const result = toDSL(index);
+
+    expect(result).toContain("  cl @Controller('/users') UsersController(2m,1p)");
+    expect(result).toContain("    @Get(':id') findOne()");
+    expect(result).toContain('    @Column() @IsEmail email:string');
+    expect(result).not.toContain('helper');
+  });
+
+  it('should list constructor parameters under the class in DSL format', () => {
+    const index = createIndexWithFiles({
+      'src/user.service.ts': {
+        ...createMockFileInfo(),
+        classes: [{
+          name: 'UserService',
+          isExported: true,
+          ctor: { params: [{ name: 'repo', type: 'UserRepo' }, { name: 'logger' }] },
+          methods: [],
+          properties: []
+        }, {
+          name: 'Empty',
+          isExported: false,
+          ctor: { params: [] },
+          methods: [],
+          properties: []
+        }]
+      }
+    });
+
+    const result = toDSL(index);
+
+    expect(result).toContain('  cl UserService(0m,0p)\n    constructor(repo:UserRepo,logger:?)');
+    expect(result).not.toContain('constructor()');
+  });
+});
+
+/**
+ * Helper function to create a project index from a map of file infos
+ */
+function createIndexWithFiles(files: Record<string, FileInfo>): ProjectIndex {
+  const nodes = Object.keys(files);
+  return {
+    metadata: {
+      version: 1,
+      root: '/test/project',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+      totalFiles: nodes.length
+    },
+    tree: { name: 'project', type: 'dir', children: [] },
+    nodes,
+    edges: [],
+    files
+  };
+}
+
 /**
  * Helper function to create mock FileInfo for testing
  */
@@ -49,7 +49,31 @@
  * @module Formatters
  */
 
-import type { ProjectIndex, TreeNode } from '../types/index.js';
+import type { 
+  ProjectIndex, 
+  TreeNode, 
+  FileInfo,
+  ClassInfo,
+  FuncSig,
+  TypeParamInfo, 
+  InterfaceMember, 
+  SourceLocation,
+  DocInfo,
+  DecoratorInfo,
+  FuncOverload,
+  NamespaceInfo,
+  TestBlock,
+  RouteInfo,
+  ExternalKind
+} from '../types/index.js';
+import { FileDiscovery } from './file-discovery.js';
+
+/**
+ * Matches the supported source file extensions at the end of a path
+ */
+const SOURCE_EXTENSION_PATTERN = new RegExp(
+  `(${FileDiscovery.getSupportedExtensions().map(ext => ext.replace('.', '\\.')).join('|')})$`
+);
 
 /**
  * Supported output format types for project indexes.
@@ -62,6 +86,48 @@ import type { ProjectIndex, TreeNode } from '../types/index.js';
  */
 export type FormatType = 'json' | 'dsl' | 'graph' | 'markdown' | 'tree';
 
+/**
+ * Options controlling optional details in formatted output.
+ * 
+ * All options are off by default so the default output stays as compact
+ * as possible.
+ * 
+ * @example Include symbol locations
+ * ```typescript
+ * const dslOutput = toDSL(index, { includeLocations: true });
+ * // src/utils.ts > 
+ * //   fn processData(input:string):Promise<Result> async [src/utils.ts:12]
+ * ```
+ * 
+ * @example Summaries without internal symbols
+ * ```typescript
+ * const dslOutput = toDSL(index, { includeSummaries: true, hideInternal: true });
+ * // src/utils.ts > 
+ * //   fn processData(input:string):Promise<Result> async # Processes raw input.
+ * ```
+ */
+export interface FormatOptions {
+  /** Append a `file:line` reference to each top-level symbol (DSL and markdown only) */
+  includeLocations?: boolean;
+  /** Append the one-line JSDoc summary to documented symbols (DSL and markdown only) */
+  includeSummaries?: boolean;
+  /** Omit functions, classes, methods and constants tagged `@internal` */
+  hideInternal?: boolean;
+  /** Omit dependencies that only come from type-only imports */
+  excludeTypeOnly?: boolean;
+  /** Render test files as a one-line suite/test count instead of their symbols and test tree */
+  collapseTests?: boolean;
+  /** Append the third-party packages and Node.js builtins imported by the files (DSL and markdown only) */
+  includeExternals?: boolean;
+}
+
+/**
+ * Symbol collections shared by files and namespaces.
+ * 
+ * @internal
+ */
+type SymbolContainer = Pick<NamespaceInfo, 'functions' | 'classes' | 'constants' | 'interfaces' | 'types' | 'enums' | 'namespaces'>;
+
 /**
  * Helper function to shorten file paths for more compact output.
  * 
@@ -85,7 +151,409 @@ function shortenPath(path: string, removePrefix = true): string {
   if (removePrefix) {
     result = result.replace(/^src\//, '');
   }
-  return result.replace(/\.(ts|tsx|js|jsx)$/, '');
+  return result.replace(SOURCE_EXTENSION_PATTERN, '');
+}
+
+/**
+ * Render an optional `file:line` reference for a symbol.
+ * 
+ * @param path - File path the symbol belongs to
+ * @param loc - Symbol location (older indexes may not have one)
+ * @param options - Format options
+ * @param brackets - Opening and closing characters around the reference
+ * @returns Location suffix wrapped in the given brackets, or empty string
+ * 
+ * @internal
+ */
+function formatLocation(
+  path: string,
+  loc: SourceLocation | undefined,
+  options: FormatOptions,
+  brackets: [string, string] = ['[', ']']
+): string {
+  if (!options.includeLocations || !loc) {
+    return '';
+  }
+  return ` ${brackets[0]}${path}:${loc.line}${brackets[1]}`;
+}
+
+/**
+ * Render an optional one-line JSDoc summary for a symbol.
+ * 
+ * @param doc - Symbol documentation (if any)
+ * @param options - Format options
+ * @param separator - Text placed between the symbol and its summary
+ * @returns Summary suffix, or empty string
+ * 
+ * @internal
+ */
+function formatSummary(doc: DocInfo | undefined, options: FormatOptions, separator = ' # '): string {
+  if (!options.includeSummaries || !doc?.summary) {
+    return '';
+  }
+  return `${separator}${doc.summary}`;
+}
+
+/**
+ * Render decorators the way they appear in source, followed by a space.
+ * 
+ * @param decorators - Decorators to render (if any)
+ * @returns Rendered decorators (e.g. `@Controller('/users') `) or empty string
+ * 
+ * @internal
+ */
+function formatDecorators(decorators?: DecoratorInfo[]): string {
+  if (!decorators || decorators.length === 0) {
+    return '';
+  }
+  return decorators.map(d => d.args ? `@${d.name}(${d.args.join(',')}) ` : `@${d.name} `).join('');
+}
+
+/**
+ * Remove symbols tagged `@internal`, and the symbols of collapsed test files,
+ * when the options ask for it.
+ * 
+ * @param info - File information to filter
+ * @param options - Format options
+ * @returns File information containing only the symbols to render
+ * 
+ * @internal
+ */
+function visibleSymbols(info: FileInfo, options: FormatOptions): FileInfo {
+  if (options.collapseTests && info.tests?.length) {
+    return { ...info, functions: [], classes: [], constants: [], interfaces: [], types: [], enums: [], namespaces: [] };
+  }
+  if (!options.hideInternal) {
+    return info;
+  }
+  const isVisible = (symbol: { doc?: DocInfo }): boolean => !symbol.doc?.internal;
+  const visibleClass = (c: ClassInfo): ClassInfo => ({ ...c, methods: c.methods.filter(isVisible) });
+  const visibleNamespace = (ns: NamespaceInfo): NamespaceInfo => ({
+    ...ns,
+    functions: (ns.functions ?? []).filter(isVisible),
+    classes: (ns.classes ?? []).filter(isVisible).map(visibleClass),
+    constants: (ns.constants ?? []).filter(isVisible),
+    namespaces: (ns.namespaces ?? []).filter(isVisible).map(visibleNamespace)
+  });
+  return {
+    ...info,
+    functions: info.functions.filter(isVisible),
+    classes: info.classes.filter(isVisible).map(visibleClass),
+    constants: info.constants.filter(isVisible),
+    namespaces: (info.namespaces ?? []).filter(isVisible).map(visibleNamespace)
+  };
+}
+
+/**
+ * Get the dependencies of a file that should be rendered.
+ * 
+ * @param info - File information
+ * @param options - Format options
+ * @returns All dependencies, or only runtime ones when `excludeTypeOnly` is set
+ * 
+ * @internal
+ */
+function visibleDependencies(info: FileInfo, options: FormatOptions): string[] {
+  if (!options.excludeTypeOnly || !info.typeDependencies?.length) {
+    return info.dependencies;
+  }
+  const typeOnly = new Set(info.typeDependencies);
+  return info.dependencies.filter(dep => !typeOnly.has(dep));
+}
+
+/**
+ * Collapse whitespace in type source text so it fits on a single DSL line.
+ * 
+ * @param text - Type source text
+ * @returns Single-line type text
+ * 
+ * @internal
+ */
+function compactType(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Render generic type parameters in compact form.
+ * 
+ * @param typeParams - Type parameters to render
+ * @returns Rendered type parameter list (e.g. `<T extends Base=User>`) or empty string
+ * 
+ * @internal
+ */
+function formatTypeParams(typeParams?: TypeParamInfo[]): string {
+  if (!typeParams || typeParams.length === 0) {
+    return '';
+  }
+  const rendered = typeParams.map(tp => {
+    const constraint = tp.constraint ? ` extends ${compactType(tp.constraint)}` : '';
+    const def = tp.default ? `=${compactType(tp.default)}` : '';
+    return `${tp.name}${constraint}${def}`;
+  });
+  return `<${rendered.join(',')}>`;
+}
+
+/**
+ * Render a function signature in compact DSL form.
+ * 
+ * @param sig - Signature to render (a function or one of its overloads)
+ * @returns Rendered signature (e.g. `<T extends Base>(input:T):Result`)
+ * 
+ * @internal
+ */
+function formatSignature(sig: FuncOverload): string {
+  const params = sig.params?.map(p => `${p.name}:${p.type || '?'}`).join(',') || '';
+  return `${formatTypeParams(sig.typeParams)}(${params}):${sig.returnType || 'void'}`;
+}
+
+/**
+ * Get the DSL marker of a function: `cp` for React components, `hk` for
+ * hooks and `fn` for everything else.
+ * 
+ * @param fn - Function to mark
+ * @returns DSL marker
+ * 
+ * @internal
+ */
+function functionMarker(fn: FuncSig): 'fn' | 'cp' | 'hk' {
+  if (fn.kind === 'component') return 'cp';
+  if (fn.kind === 'hook') return 'hk';
+  return 'fn';
+}
+
+/**
+ * Count the suites and tests in a test tree.
+ * 
+ * @param blocks - Test blocks of a file (if any)
+ * @returns Number of suites and tests, including nested ones
+ * 
+ * @example
+ * ```typescript
+ * const { suites, tests } = countTests(index.files['src/utils.test.ts']?.tests);
+ * console.log(`${suites} suites, ${tests} tests`);
+ * ```
+ */
+export function countTests(blocks: TestBlock[] = []): { suites: number; tests: number } {
+  let suites = 0;
+  let tests = 0;
+  for (const block of blocks) {
+    if (block.kind === 'suite') {
+      const nested = countTests(block.children);
+      suites += 1 + nested.suites;
+      tests += nested.tests;
+    } else {
+      tests++;
+    }
+  }
+  return { suites, tests };
+}
+
+/**
+ * Render the one-line summary of a collapsed test file.
+ * 
+ * @param blocks - Test blocks of the file
+ * @returns Summary text (e.g. `2 suites, 5 tests`)
+ * 
+ * @internal
+ */
+function formatTestSummary(blocks: TestBlock[]): string {
+  const { suites, tests } = countTests(blocks);
+  return `${suites} ${suites === 1 ? 'suite' : 'suites'}, ${tests} ${tests === 1 ? 'test' : 'tests'}`;
+}
+
+/**
+ * Render a test tree as DSL lines.
+ * 
+ * @param blocks - Test blocks to render
+ * @param path - File path (for block locations)
+ * @param options - Format options
+ * @param indent - Indentation of the top-level blocks
+ * @returns DSL lines, with suite children nested one level deeper
+ * 
+ * @internal
+ */
+function formatDSLTests(blocks: TestBlock[], path: string, options: FormatOptions, indent: string): string[] {
+  return blocks.flatMap(block => [
+    `${indent}${block.kind === 'suite' ? 'su' : 'it'} ${block.name}${block.modifier ? ` ${block.modifier}` : ''}${formatLocation(path, block.loc, options)}`,
+    ...formatDSLTests(block.children ?? [], path, options, `${indent}  `)
+  ]);
+}
+
+/**
+ * Collect the routes of all files, sorted by path.
+ * 
+ * @param index - Project index
+ * @returns Routes paired with the file declaring them
+ * 
+ * @internal
+ */
+function collectRoutes(index: ProjectIndex): Array<{ path: string; route: RouteInfo }> {
+  return Object.entries(index.files)
+    .flatMap(([path, info]) => (info.routes ?? []).map(route => ({ path, route })))
+    .sort((a, b) => a.route.path.localeCompare(b.route.path));
+}
+
+/**
+ * Collect the external packages imported by the files of an index, sorted by name.
+ * 
+ * Usage is recounted from the files so filtered indexes only list their own
+ * imports; versions come from the index's package inventory.
+ * 
+ * @param index - Project index
+ * @returns Packages with their kind, version and number of importing files
+ * 
+ * @internal
+ */
+function collectExternals(index: ProjectIndex): Array<{ name: string; kind: ExternalKind; version?: string; files: number }> {
+  const counts = new Map<string, number>();
+  for (const info of Object.values(index.files)) {
+    for (const name of info.externals ?? []) {
+      counts.set(name, (counts.get(name) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, files]) => {
+      const version = index.externals?.[name]?.version;
+      const kind: ExternalKind = name.startsWith('node:') ? 'builtin' : 'npm';
+      return version !== undefined ? { name, kind, version, files } : { name, kind, files };
+    });
+}
+
+/**
+ * Render the method column of a route.
+ * 
+ * @param route - Route to render
+ * @returns HTTP method, `USE` for mounts or `PAGE` for pages
+ * 
+ * @internal
+ */
+function formatRouteMethod(route: RouteInfo): string {
+  if (route.kind === 'mount') return 'USE';
+  if (route.kind === 'page') return 'PAGE';
+  return route.method;
+}
+
+/**
+ * Render a single interface member in compact DSL form.
+ * 
+ * @param member - Interface member to render
+ * @returns Rendered member (e.g. `id?:string` or `greet(msg:string):void`)
+ * 
+ * @internal
+ */
+function formatInterfaceMember(member: InterfaceMember): string {
+  const optional = member.optional ? '?' : '';
+  const type = compactType(member.type || '?');
+  if (member.kind === 'property' || member.kind === 'index') {
+    return `${member.name}${optional}:${type}`;
+  }
+  const params = member.params?.map(p => `${p.name}:${p.type ? compactType(p.type) : '?'}`).join(',') || '';
+  const name = member.kind === 'call' ? '' : member.name;
+  return `${name}${optional}(${params}):${type}`;
+}
+
+/**
+ * Render the symbols of a file or namespace as DSL lines.
+ * 
+ * @param container - File or namespace whose symbols to render
+ * @param path - File path (for symbol locations)
+ * @param options - Format options
+ * @param indent - Indentation of the symbol lines
+ * @returns DSL lines, with namespace members nested one level deeper
+ * 
+ * @internal
+ */
+function formatDSLSymbols(
+  container: SymbolContainer,
+  path: string,
+  options: FormatOptions,
+  indent: string
+): string[] {
+  const lines: string[] = [];
+  
+  // Functions
+  for (const fn of container.functions ?? []) {
+    const async = fn.isAsync ? ' async' : '';
+    const loc = formatLocation(path, fn.loc, options);
+    const summary = formatSummary(fn.doc, options);
+    // Components are identified by their props rather than a call signature
+    if (fn.kind === 'component') {
+      lines.push(`${indent}cp ${fn.name}(${fn.propsType ?? ''})${loc}${summary}`);
+      continue;
+    }
+    // Overloaded functions show their public signatures instead of the implementation
+    const signature = fn.overloads?.length 
+      ? fn.overloads.map(formatSignature).join(' | ')
+      : formatSignature(fn);
+    lines.push(`${indent}${functionMarker(fn)} ${fn.name}${signature}${async}${loc}${summary}`);
+  }
+  
+  // Classes
+  for (const cl of container.classes ?? []) {
+    const mc = `${cl.methods?.length || 0}m,${cl.properties?.length || 0}p`;
+    const ext = cl.extends ? ` extends ${cl.extends}` : '';
+    const loc = formatLocation(path, cl.loc, options);
+    const decorators = formatDecorators(cl.decorators);
+    lines.push(`${indent}cl ${decorators}${cl.name}(${mc})${ext}${loc}${formatSummary(cl.doc, options)}`);
+    
+    // Constructor parameters show how dependencies are injected
+    if (cl.ctor?.params.length) {
+      const params = cl.ctor.params.map(p => `${p.name}:${p.type || '?'}`).join(',');
+      lines.push(`${indent}  constructor(${params})`);
+    }
+    
+    // Decorated members carry framework metadata (routes, columns), so list them
+    for (const m of cl.methods ?? []) {
+      if (m.decorators?.length) {
+        lines.push(`${indent}  ${formatDecorators(m.decorators)}${m.name}()`);
+      }
+    }
+    for (const p of cl.properties ?? []) {
+      if (p.decorators?.length) {
+        lines.push(`${indent}  ${formatDecorators(p.decorators)}${p.name}${p.type ? `:${p.type}` : ''}`);
+      }
+    }
+  }
+  
+  // Constants
+  for (const c of container.constants ?? []) {
+    const loc = formatLocation(path, c.loc, options);
+    const summary = formatSummary(c.doc, options);
+    lines.push(`${indent}cn ${c.name}:${c.type || c.initKind || 'unknown'}${loc}${summary}`);
+  }
+  
+  // Interfaces
+  for (const it of container.interfaces ?? []) {
+    const members = it.members.map(formatInterfaceMember).join(',');
+    const ext = it.extends?.length ? ` extends ${it.extends.join(',')}` : '';
+    const loc = formatLocation(path, it.loc, options);
+    lines.push(`${indent}in ${it.name}${formatTypeParams(it.typeParams)}{${members}}${ext}${loc}`);
+  }
+  
+  // Type aliases
+  for (const t of container.types ?? []) {
+    const loc = formatLocation(path, t.loc, options);
+    lines.push(`${indent}ty ${t.name}${formatTypeParams(t.typeParams)}=${compactType(t.type)}${loc}`);
+  }
+  
+  // Enums
+  for (const e of container.enums ?? []) {
+    const members = e.members.map(m => m.value ? `${m.name}=${m.value}` : m.name).join(',');
+    const isConst = e.isConst ? ' const' : '';
+    lines.push(`${indent}en ${e.name}{${members}}${isConst}${formatLocation(path, e.loc, options)}`);
+  }
+  
+  // Namespaces and ambient modules, with their members nested underneath
+  for (const ns of container.namespaces ?? []) {
+    const name = ns.kind === 'module' ? `'${ns.name}'` : ns.name;
+    const flags = `${ns.isAmbient ? ' declare' : ''}${ns.isAugmentation ? ' augments' : ''}`;
+    const loc = formatLocation(path, ns.loc, options);
+    lines.push(`${indent}ns ${name}${flags}${loc}${formatSummary(ns.doc, options)}`);
+    lines.push(...formatDSLSymbols(ns, path, options, `${indent}  `));
+  }
+  
+  return lines;
 }
 
 /**
@@ -97,15 +565,39 @@ function shortenPath(path: string, removePrefix = true): string {
  * 
  * ## Format Structure
  * ```
- * # Legend: fn=function cl=class cn=constant m=methods p=properties
+ * # Legend: fn=function cp=component hk=hook cl=class cn=constant in=interface ty=type en=enum ns=namespace su=suite it=test m=methods p=properties
  * 
  * filepath > dependency1,dependency2
- *   fn functionName(param:type):returnType async
+ *   fn functionName<T>(param:type):returnType async
+ *   fn overloaded(a:string):A | (a:number):B
+ *   cp Button(ButtonProps)
+ *   hk useAuth():AuthState
  *   cl ClassName(2m,3p) extends BaseClass
+ *     constructor(repo:UserRepo)
+ *   cl @Controller('/users') UsersController(1m,0p)
+ *     @Get(':id') findOne()
  *   cn CONSTANT_NAME:string
+ *   in InterfaceName<T>{id:string,name?:string} extends Base
+ *   ty TypeName='a'|'b'
+ *   en EnumName{A,B='b'}
+ *   ns 'express' declare augments
+ *     in Request{user:User}
+ * 
+ * filepath.test.ts > filepath
+ *   su Suite name
+ *     it test name skip
+ * 
+ * ROUTES:
+ * POST /api/users createUser [src/routes/users.ts:12]
+ * USE /api apiRouter [src/app.ts:8]
+ * 
+ * EXTERNALS:
+ * npm react@^18.2.0 [12 files]
+ * builtin node:fs [1 file]
  * ```
  * 
  * @param index - Project index to format
+ * @param options - Optional output details (e.g. symbol locations, summaries)
  * @returns DSL-formatted string representation
  * 
  * @example
@@ -119,40 +611,57 @@ function shortenPath(path: string, removePrefix = true): string {
  * //   cn API_URL:string
  * ```
  */
-export function toDSL(index: ProjectIndex): string {
+export function toDSL(index: ProjectIndex, options: FormatOptions = {}): string {
   const lines: string[] = [
-    '# Legend: fn=function cl=class cn=constant m=methods p=properties',
+    '# Legend: fn=function cp=component hk=hook cl=class cn=constant in=interface ty=type en=enum ns=namespace su=suite it=test m=methods p=properties',
     ''
   ];
   
-  for (const [path, info] of Object.entries(index.files)) {
+  for (const [path, fileInfo] of Object.entries(index.files)) {
+    const info = visibleSymbols(fileInfo, options);
+    
+    const dependencies = visibleDependencies(info, options);
+    
     // Skip empty files
     if (!info.functions.length && !info.classes.length && 
-        !info.constants.length && !info.dependencies.length) {
+        !info.constants.length && !dependencies.length &&
+        !info.interfaces?.length && !info.types?.length && !info.enums?.length &&
+        !info.namespaces?.length && !info.tests?.length) {
       continue;
     }
     
     // File header with dependencies
-    const deps = info.dependencies.map(d => shortenPath(d, false)).join(',');
+    const deps = dependencies.map(d => shortenPath(d, false)).join(',');
     lines.push(`${path} > ${deps}`);
     
-    // Functions
-    for (const fn of info.functions) {
-      const async = fn.isAsync ? ' async' : '';
-      const params = fn.params?.map(p => `${p.name}:${p.type || '?'}`).join(',') || '';
-      lines.push(`  fn ${fn.name}(${params}):${fn.returnType || 'void'}${async}`);
-    }
+    lines.push(...formatDSLSymbols(info, path, options, '  '));
     
-    // Classes
-    for (const cl of info.classes) {
-      const mc = `${cl.methods?.length || 0}m,${cl.properties?.length || 0}p`;
-      const ext = cl.extends ? ` extends ${cl.extends}` : '';
-      lines.push(`  cl ${cl.name}(${mc})${ext}`);
+    // Test tree, or a one-line count when collapsed
+    if (info.tests?.length) {
+      lines.push(...(options.collapseTests
+        ? [`  tests ${formatTestSummary(info.tests)}`]
+        : formatDSLTests(info.tests, path, options, '  ')));
     }
-    
-    // Constants
-    for (const c of info.constants) {
-      lines.push(`  cn ${c.name}:${c.type || c.initKind || 'unknown'}`);
+  }
+  
+  // HTTP routes across all files
+  const routes = collectRoutes(index);
+  if (routes.length > 0) {
+    lines.push('', 'ROUTES:');
+    for (const { path, route } of routes) {
+      const handler = route.handler ? ` ${route.handler}` : '';
+      const line = route.loc ? `:${route.loc.line}` : '';
+      lines.push(`${formatRouteMethod(route)} ${route.path}${handler} [${path}${line}]`);
+    }
+  }
+  
+  // Third-party packages and builtins, on request
+  const externals = options.includeExternals ? collectExternals(index) : [];
+  if (externals.length > 0) {
+    lines.push('', 'EXTERNALS:');
+    for (const { name, kind, version, files } of externals) {
+      const pinned = version !== undefined ? `@${version}` : '';
+      lines.push(`${kind} ${name}${pinned} [${files} ${files === 1 ? 'file' : 'files'}]`);
     }
   }
   
@@ -173,10 +682,12 @@ export function toDSL(index: ProjectIndex): string {
  * fileB→fileC
  * 
  * SIGS:
- * fileA: fn:functionName cl:ClassName(2m,1p) cn:CONSTANT
+ * fileA: fn:functionName,cp:Button,hk:useAuth cl:ClassName(2m,1p) cn:CONSTANT in:Props ty:Status en:Color ns:Api
+ * fileA.test: tests:12
  * ```
  * 
  * @param index - Project index to format
+ * @param options - Filtering options (`hideInternal` and `excludeTypeOnly` apply)
  * @returns Graph-formatted string representation
  * 
  * @example
@@ -194,25 +705,30 @@ export function toDSL(index: ProjectIndex): string {
  * // components/Button: cl:Button(3m,2p)
  * ```
  */
-export function toGraph(index: ProjectIndex): string {
+export function toGraph(index: ProjectIndex, options: FormatOptions = {}): string {
   
   const lines: string[] = [
     '# Graph Format: Short names, arrows show dependencies',
-    '# fn=function cl=class cn=constant',
+    '# fn=function cp=component hk=hook cl=class cn=constant in=interface ty=type en=enum ns=namespace',
     '',
     'DEPS:'];
   
   // Build edges with shortened names
-  for (const edge of index.edges) {
+  const edges = options.excludeTypeOnly ? index.edges.filter(edge => edge.kind !== 'type') : index.edges;
+  for (const edge of edges) {
     const from = shortenPath(edge.from);
     const to = shortenPath(edge.to);
     lines.push(`${from}→${to}`);
   }
   
   lines.push('\nSIGS:');
-  for (const [path, info] of Object.entries(index.files)) {
+  for (const [path, fileInfo] of Object.entries(index.files)) {
+    const info = visibleSymbols(fileInfo, options);
+    
     // Skip files with no signatures
-    if (!info.functions.length && !info.classes.length && !info.constants.length) {
+    if (!info.functions.length && !info.classes.length && !info.constants.length &&
+        !info.interfaces?.length && !info.types?.length && !info.enums?.length &&
+        !info.namespaces?.length && !info.tests?.length) {
       continue;
     }
     
@@ -221,7 +737,7 @@ export function toGraph(index: ProjectIndex): string {
     
     // Compact function signatures
     if (info.functions.length > 0) {
-      const fns = info.functions.map(f => `fn:${f.name}`).join(',');
+      const fns = info.functions.map(f => `${functionMarker(f)}:${f.name}`).join(',');
       parts.push(fns);
     }
     
@@ -238,6 +754,25 @@ export function toGraph(index: ProjectIndex): string {
       parts.push('cn:' + info.constants.map(c => c.name).join(','));
     }
     
+    // Interfaces, type aliases and enums (just names)
+    if (info.interfaces?.length) {
+      parts.push('in:' + info.interfaces.map(i => i.name).join(','));
+    }
+    if (info.types?.length) {
+      parts.push('ty:' + info.types.map(t => t.name).join(','));
+    }
+    if (info.enums?.length) {
+      parts.push('en:' + info.enums.map(e => e.name).join(','));
+    }
+    if (info.namespaces?.length) {
+      parts.push('ns:' + info.namespaces.map(n => n.name).join(','));
+    }
+    
+    // Tests are always summarized by their count
+    if (info.tests?.length) {
+      parts.push(`tests:${countTests(info.tests).tests}`);
+    }
+    
     if (parts.length > 0) {
       lines.push(`${shortPath}: ${parts.join(' ')}`);
     }
@@ -349,6 +884,7 @@ function renderTreeNode(children: TreeNode[], prefix: string, isRoot: boolean, l
  * - Project statistics summary
  * 
  * @param index - Project index to format
+ * @param options - Optional output details (e.g. symbol locations, summaries)
  * @returns Markdown-formatted string representation
  * 
  * @example
@@ -367,7 +903,7 @@ function renderTreeNode(children: TreeNode[], prefix: string, isRoot: boolean, l
  * // **Constants:** API_URL, DEFAULT_CONFIG
  * ```
  */
-export function toMarkdown(index: ProjectIndex): string {
+export function toMarkdown(index: ProjectIndex, options: FormatOptions = {}): string {
   const lines: string[] = ['# Project Structure\n'];
   
   // Group files by directory
@@ -383,13 +919,15 @@ export function toMarkdown(index: ProjectIndex): string {
   for (const [dir, files] of Array.from(byDir.entries()).sort()) {
     lines.push(`## ${dir}/\n`);
     
-    for (const [path, info] of files.sort()) {
+    for (const [path, fileInfo] of files.sort()) {
+      const info = visibleSymbols(fileInfo, options);
       const fileName = path.split('/').pop() || path;
       
       // File header with full dependency paths for clarity
-      if (info.dependencies.length > 0) {
+      const dependencies = visibleDependencies(info, options);
+      if (dependencies.length > 0) {
         lines.push(`### ${fileName}`);
-        lines.push(`**Dependencies:** ${info.dependencies.join(', ')}`);
+        lines.push(`**Dependencies:** ${dependencies.join(', ')}`);
       } else {
         lines.push(`### ${fileName}`);
       }
@@ -397,25 +935,76 @@ export function toMarkdown(index: ProjectIndex): string {
       // Compact content representation
       const content: string[] = [];
       
+      const loc = (symbolLoc?: SourceLocation): string => 
+        formatLocation(path, symbolLoc, options, ['(', ')']);
+      const summary = (doc?: DocInfo): string => formatSummary(doc, options, ' — ');
+      
       // Functions (just names and async indicator)
-      const fns = info.functions.map(f => `${f.isAsync ? 'async ' : ''}${f.name}()`).join(', ');
+      const fns = info.functions.filter(f => !f.kind).map(f => 
+        `${f.isAsync ? 'async ' : ''}${f.name}()${loc(f.loc)}${summary(f.doc)}`
+      ).join(', ');
       if (fns) content.push(`**Functions:** ${fns}`);
       
+      // React components (with props type) and hooks
+      const components = info.functions.filter(f => f.kind === 'component').map(f => 
+        `${f.name}${f.propsType ? ` (${f.propsType})` : ''}${loc(f.loc)}${summary(f.doc)}`
+      ).join(', ');
+      if (components) content.push(`**Components:** ${components}`);
+      const hooks = info.functions.filter(f => f.kind === 'hook').map(f => 
+        `${f.name}()${loc(f.loc)}${summary(f.doc)}`
+      ).join(', ');
+      if (hooks) content.push(`**Hooks:** ${hooks}`);
+      
       // Classes with counts
       const cls = info.classes.map(c => {
         const methodCount = c.methods?.length || 0;
         const propCount = c.properties?.length || 0;
         if (methodCount === 0 && propCount === 0) {
-          return c.name;
+          return `${c.name}${loc(c.loc)}${summary(c.doc)}`;
         }
-        return `${c.name} (${methodCount} methods, ${propCount} properties)`;
+        return `${c.name} (${methodCount} methods, ${propCount} properties)${loc(c.loc)}${summary(c.doc)}`;
       }).join(', ');
       if (cls) content.push(`**Classes:** ${cls}`);
       
       // Constants (just names)
-      const consts = info.constants.map(c => c.name).join(', ');
+      const consts = info.constants.map(c => `${c.name}${loc(c.loc)}${summary(c.doc)}`).join(', ');
       if (consts) content.push(`**Constants:** ${consts}`);
       
+      // Interfaces with member counts
+      const ifaces = (info.interfaces ?? []).map(i => {
+        const ext = i.extends?.length ? ` extends ${i.extends.join(', ')}` : '';
+        return `${i.name}${ext} (${i.members.length} members)${loc(i.loc)}`;
+      }).join(', ');
+      if (ifaces) content.push(`**Interfaces:** ${ifaces}`);
+      
+      // Type aliases (just names)
+      const types = (info.types ?? []).map(t => `${t.name}${loc(t.loc)}`).join(', ');
+      if (types) content.push(`**Types:** ${types}`);
+      
+      // Enums with member names
+      const enums = (info.enums ?? []).map(e => 
+        `${e.name} (${e.members.map(m => m.name).join(', ')})${loc(e.loc)}`
+      ).join(', ');
+      if (enums) content.push(`**Enums:** ${enums}`);
+      
+      // Namespaces and ambient modules (names only)
+      const namespaces = (info.namespaces ?? []).map(n => {
+        const name = n.kind === 'module' ? `'${n.name}'` : n.name;
+        return `${name}${n.isAugmentation ? ' (augmentation)' : ''}${loc(n.loc)}${summary(n.doc)}`;
+      }).join(', ');
+      if (namespaces) content.push(`**Namespaces:** ${namespaces}`);
+      
+      // Tests: top-level blocks with their test counts, or a single count when collapsed
+      if (info.tests?.length) {
+        const tests = options.collapseTests
+          ? formatTestSummary(info.tests)
+          : info.tests.map(t => t.kind === 'suite'
+            ? `${t.name} (${countTests(t.children).tests} tests)${loc(t.loc)}`
+            : `${t.name}${loc(t.loc)}`
+          ).join(', ');
+        content.push(`**Tests:** ${tests}`);
+      }
+      
       if (content.length > 0) {
         lines.push(content.join('  \n'));
       }
@@ -423,11 +1012,37 @@ export function toMarkdown(index: ProjectIndex): string {
     }
   }
   
+  // HTTP routes table
+  const routes = collectRoutes(index);
+  if (routes.length > 0) {
+    lines.push('## Routes\n');
+    lines.push('| Method | Path | Handler | Location |');
+    lines.push('|--------|------|---------|----------|');
+    for (const { path, route } of routes) {
+      const line = route.loc ? `:${route.loc.line}` : '';
+      lines.push(`| ${formatRouteMethod(route)} | \`${route.path}\` | ${route.handler ?? ''} | ${path}${line} |`);
+    }
+    lines.push('');
+  }
+  
+  // Third-party packages and builtins table, on request
+  const externals = options.includeExternals ? collectExternals(index) : [];
+  if (externals.length > 0) {
+    lines.push('## External Dependencies\n');
+    lines.push('| Package | Kind | Version | Files |');
+    lines.push('|---------|------|---------|-------|');
+    for (const { name, kind, version, files } of externals) {
+      lines.push(`| \`${name}\` | ${kind} | ${version ?? ''} | ${files} |`);
+    }
+    lines.push('');
+  }
+  
   // Add dependency graph summary at the end
+  const edges = options.excludeTypeOnly ? index.edges.filter(edge => edge.kind !== 'type') : index.edges;
   lines.push('## Dependencies\n');
   lines.push(`- **Total files:** ${index.metadata.totalFiles}`);
-  lines.push(`- **Dependencies:** ${index.edges.length}`);
-  lines.push(`- **Avg per file:** ${(index.edges.length / index.metadata.totalFiles).toFixed(1)}`);
+  lines.push(`- **Dependencies:** ${edges.length}`);
+  lines.push(`- **Avg per file:** ${(edges.length / index.metadata.totalFiles).toFixed(1)}`);
   
   return lines.join('\n');
 }
@@ -458,6 +1073,7 @@ export function toMarkdown(index: ProjectIndex): string {
  * - 5000 files ≈ 105K tokens (DSL, 53% of context) - switches to Graph
  * 
  * @param index - Project index to format
+ * @param options - Optional output details passed through to the selected formatter
  * @returns Object containing the selected format type and formatted content
  * 
  * @example
@@ -475,18 +1091,21 @@ export function toMarkdown(index: ProjectIndex): string {
  * }
  * ```
  */
-export function formatAuto(index: ProjectIndex): { format: FormatType; content: string } {
+export function formatAuto(
+  index: ProjectIndex,
+  options: FormatOptions = {}
+): { format: FormatType; content: string } {
   const fileCount = index.metadata.totalFiles;
   
   // Use DSL for most projects - it provides the best balance of readability
   // and token efficiency (90% reduction) for AI context usage
   // Only switch to graph for very large projects where maximum compression is needed
   if (fileCount <= 5000) {
-    return { format: 'dsl', content: toDSL(index) };
+    return { format: 'dsl', content: toDSL(index, options) };
   } else {
     // Graph format for very large projects (>5000 files)
     // Maximum compression (92% reduction) for token efficiency
-    return { format: 'graph', content: toGraph(index) };
+    return { format: 'graph', content: toGraph(index, options) };
   }
 }
 
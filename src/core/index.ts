@@ -6,3 +6,6 @@ export { CodeIndexer } from './indexer.js';
 export { FileDiscovery } from './file-discovery.js';
 export { TreeBuilder } from './tree-builder.js';
 export { DependencyResolver } from './dependency-resolver.js';
+export { TsConfigLoader } from './tsconfig-loader.js';
+export { WorkspaceLoader } from './workspace-loader.js';
+export { PackageVersionLoader } from './package-version-loader.js';
@@ -3,11 +3,12 @@
  * These tests verify the complete indexing workflow without mocking core dependencies
  */
 
-import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { CodeIndexer } from './indexer.js';
+import { ASTParser } from '../parsers/ast-parser.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -426,8 +427,8 @@ coverage/
       expect(httpClientFile).toBeDefined();
       expect(httpClientFile.classes.some(c => c.name === 'HttpClient')).toBe(true);
       expect(httpClientFile.classes.some(c => c.name === 'HttpError')).toBe(true);
-      // Arrow functions are parsed as constants with initKind: 'function'
-      expect(httpClientFile.constants.some(c => c.name === 'createHttpClient' && c.initKind === 'function')).toBe(true);
+      // Arrow functions are promoted to functions
+      expect(httpClientFile.functions.some(c => c.name === 'createHttpClient')).toBe(true);
 
       // Check user service file
       const userServiceFile = result.files['src/services/user-service.ts'];
@@ -738,6 +739,260 @@ export const incomplete = ;
     });
   });
 
+  describe('Next.js file-system routes', () => {
+    const nextProjectRoot = path.join(__dirname, '../../temp/nextjs-test-project');
+
+    const writeProjectFile = async (root: string, filePath: string, content: string): Promise<void> => {
+      await fs.promises.mkdir(path.dirname(path.join(root, filePath)), { recursive: true });
+      await fs.promises.writeFile(path.join(root, filePath), content);
+    };
+
+    beforeAll(async () => {
+      await writeProjectFile(nextProjectRoot, 'package.json', JSON.stringify({ dependencies: { next: '^14.0.0' } }));
+      await writeProjectFile(nextProjectRoot, 'app/api/users/[id]/route.ts', [
+        'export async function GET() { return Response.json({}); }',
+        'export async function DELETE() { return new Response(null); }',
+        'export const dynamic = "force-dynamic";'
+      ].join('\n'));
+      await writeProjectFile(nextProjectRoot, 'app/(marketing)/about/page.tsx', 'export default function About() { return null; }');
+      await writeProjectFile(nextProjectRoot, 'app/_components/nav/page.tsx', 'export default function Nav() { return null; }');
+      await writeProjectFile(nextProjectRoot, 'src/pages/api/health.ts', 'export default function handler() {}');
+      await writeProjectFile(nextProjectRoot, 'src/pages/index.tsx', 'export default function Home() { return null; }');
+      await writeProjectFile(nextProjectRoot, 'src/pages/_app.tsx', 'export default function App() { return null; }');
+    });
+
+    afterAll(async () => {
+      await fs.promises.rm(nextProjectRoot, { recursive: true, force: true });
+    });
+
+    it('should derive routes from app and pages directories', async () => {
+      const result = await new CodeIndexer(nextProjectRoot).processProject();
+
+      expect(result.files['app/api/users/[id]/route.ts'].routes).toMatchObject([
+        { method: 'GET', path: '/api/users/[id]', handler: 'GET', loc: { line: 1 } },
+        { method: 'DELETE', path: '/api/users/[id]', handler: 'DELETE', loc: { line: 2 } }
+      ]);
+      expect(result.files['app/(marketing)/about/page.tsx'].routes).toEqual([{ method: 'GET', path: '/about', kind: 'page' }]);
+      expect(result.files['app/_components/nav/page.tsx'].routes).toBeUndefined();
+      expect(result.files['src/pages/api/health.ts'].routes).toEqual([{ method: 'ALL', path: '/api/health' }]);
+      expect(result.files['src/pages/index.tsx'].routes).toEqual([{ method: 'GET', path: '/', kind: 'page' }]);
+      expect(result.files['src/pages/_app.tsx'].routes).toBeUndefined();
+    });
+
+    it('should derive routes from the Next.js packages of a workspace', async () => {
+      const workspaceRoot = path.join(__dirname, '../../temp/nextjs-workspace-test-project');
+      await writeProjectFile(workspaceRoot, 'package.json', JSON.stringify({ private: true, workspaces: ['apps/*'] }));
+      await writeProjectFile(workspaceRoot, 'apps/web/package.json', JSON.stringify({ name: 'web', dependencies: { next: '^14.0.0' } }));
+      await writeProjectFile(workspaceRoot, 'apps/web/app/api/health/route.ts', 'export async function GET() { return Response.json({}); }');
+      await writeProjectFile(workspaceRoot, 'apps/web/src/pages/index.tsx', 'export default function Home() { return null; }');
+      await writeProjectFile(workspaceRoot, 'apps/docs/package.json', JSON.stringify({ name: 'docs' }));
+      await writeProjectFile(workspaceRoot, 'apps/docs/pages/index.tsx', 'export default function Docs() { return null; }');
+
+      try {
+        const result = await new CodeIndexer(workspaceRoot).processProject();
+
+        expect(result.files['apps/web/app/api/health/route.ts'].routes).toMatchObject([
+          { method: 'GET', path: '/api/health', handler: 'GET' }
+        ]);
+        expect(result.files['apps/web/src/pages/index.tsx'].routes).toEqual([{ method: 'GET', path: '/', kind: 'page' }]);
+        expect(result.files['apps/docs/pages/index.tsx'].routes).toBeUndefined();
+      } finally {
+        await fs.promises.rm(workspaceRoot, { recursive: true, force: true });
+      }
+    });
+
+    it('should not treat pages directories as routes without a Next.js dependency', async () => {
+      const result = await new CodeIndexer(testProjectRoot).processProject();
+
+      expect(Object.values(result.files).every(info => !info.routes)).toBe(true);
+    });
+  });
+
+  describe('tsconfig path aliases', () => {
+    const aliasProjectRoot = path.join(__dirname, '../../temp/alias-test-project');
+
+    const writeProjectFile = async (filePath: string, content: string): Promise<void> => {
+      await fs.promises.mkdir(path.dirname(path.join(aliasProjectRoot, filePath)), { recursive: true });
+      await fs.promises.writeFile(path.join(aliasProjectRoot, filePath), content);
+    };
+
+    beforeAll(async () => {
+      await writeProjectFile('tsconfig.json', '{ "compilerOptions": { "baseUrl": ".", "paths": { "@/*": ["src/*"] } } }');
+      await writeProjectFile('src/components/Button.tsx', 'export const Button = () => null;');
+      await writeProjectFile('src/utils/format.ts', 'export const format = (s: string) => s;');
+      await writeProjectFile('src/app.tsx', "import { Button } from '@/components/Button';\nexport const App = Button;");
+    });
+
+    afterAll(async () => {
+      await fs.promises.rm(aliasProjectRoot, { recursive: true, force: true });
+    });
+
+    it('should resolve aliased imports during a scan and on update', async () => {
+      const indexer = new CodeIndexer(aliasProjectRoot);
+      const index = await indexer.processProject();
+
+      expect(index.files['src/app.tsx'].dependencies).toEqual(['src/components/Button.tsx']);
+      expect(index.edges).toContainEqual({ from: 'src/app.tsx', to: 'src/components/Button.tsx', kind: 'value' });
+
+      await writeProjectFile('src/app.tsx', "import { format } from '@/utils/format';\nexport const App = format;");
+      const updated = await indexer.updateFile('src/app.tsx', index);
+
+      expect(updated.files['src/app.tsx'].dependencies).toEqual(['src/utils/format.ts']);
+      expect(updated.edges.filter(edge => edge.from === 'src/app.tsx')).toEqual([
+        { from: 'src/app.tsx', to: 'src/utils/format.ts', kind: 'value' }
+      ]);
+    });
+  });
+
+  describe('Workspace packages', () => {
+    const workspaceRoot = path.join(__dirname, '../../temp/workspace-test-project');
+
+    const writeProjectFile = async (filePath: string, content: string): Promise<void> => {
+      await fs.promises.mkdir(path.dirname(path.join(workspaceRoot, filePath)), { recursive: true });
+      await fs.promises.writeFile(path.join(workspaceRoot, filePath), content);
+    };
+
+    beforeAll(async () => {
+      await writeProjectFile('package.json', JSON.stringify({
+        private: true,
+        workspaces: ['packages/*'],
+        imports: { '#core': { development: './packages/core/src/index.ts', default: './packages/core/dist/index.js' } }
+      }));
+      await writeProjectFile('packages/core/package.json', '{ "name": "@acme/core", "main": "./dist/index.js" }');
+      await writeProjectFile('packages/core/src/index.ts', 'export const x = 1;');
+      await writeProjectFile('packages/app/package.json', '{ "name": "@acme/app" }');
+      await writeProjectFile('packages/app/src/main.ts', "import { x } from '@acme/core';\nexport const y = x;");
+      await writeProjectFile('scripts/build.ts', "import { y } from '@acme/app/src/main';\nconsole.log(y);");
+      await writeProjectFile('scripts/dev.ts', "import { x } from '#core';\nconsole.log(x);");
+    });
+
+    afterAll(async () => {
+      await fs.promises.rm(workspaceRoot, { recursive: true, force: true });
+    });
+
+    it('should create edges across packages and record package names', async () => {
+      const index = await new CodeIndexer(workspaceRoot).processProject();
+
+      expect(index.edges).toContainEqual({ from: 'packages/app/src/main.ts', to: 'packages/core/src/index.ts', kind: 'value' });
+      expect(index.edges).toContainEqual({ from: 'scripts/build.ts', to: 'packages/app/src/main.ts', kind: 'value' });
+      expect(index.files['packages/app/src/main.ts'].package).toBe('@acme/app');
+      expect(index.files['packages/core/src/index.ts'].package).toBe('@acme/core');
+      expect(index.files['scripts/build.ts'].package).toBeUndefined();
+    });
+
+    it('should resolve subpath imports with user-supplied conditions', async () => {
+      const plain = await new CodeIndexer(workspaceRoot).processProject();
+      const development = await new CodeIndexer(workspaceRoot, { conditions: ['development'] }).processProject();
+
+      expect(plain.files['scripts/dev.ts'].dependencies).toEqual([]);
+      expect(development.files['scripts/dev.ts'].dependencies).toEqual(['packages/core/src/index.ts']);
+      expect(plain.metadata.conditions).toBeUndefined();
+      expect(development.metadata.conditions).toEqual(['development']);
+    });
+  });
+
+  describe('Unresolved imports', () => {
+    const unresolvedProjectRoot = path.join(__dirname, '../../temp/unresolved-test-project');
+
+    const writeProjectFile = async (filePath: string, content: string): Promise<void> => {
+      await fs.promises.mkdir(path.dirname(path.join(unresolvedProjectRoot, filePath)), { recursive: true });
+      await fs.promises.writeFile(path.join(unresolvedProjectRoot, filePath), content);
+    };
+
+    beforeAll(async () => {
+      await writeProjectFile('src/generated/schema.ts', 'export const schema = {};');
+      await writeProjectFile('src/app.ts', "import { schema } from './generated/schema';\nimport { gone } from './gone';");
+    });
+
+    afterAll(async () => {
+      await fs.promises.rm(unresolvedProjectRoot, { recursive: true, force: true });
+    });
+
+    it('should tell excluded files apart from missing ones', async () => {
+      const indexer = new CodeIndexer(unresolvedProjectRoot, { exclude: ['src/generated/**'] });
+      const index = await indexer.processProject();
+
+      expect(index.files['src/app.ts'].unresolved).toEqual([
+        expect.objectContaining({ from: './generated/schema', reason: 'excluded' }),
+        expect.objectContaining({ from: './gone', reason: 'missing' })
+      ]);
+
+      await writeProjectFile('src/app.ts', "import { schema } from './generated/schema';");
+      const updated = await indexer.updateFile('src/app.ts', index);
+
+      expect(updated.files['src/app.ts'].unresolved).toEqual([
+        expect.objectContaining({ from: './generated/schema', reason: 'excluded' })
+      ]);
+    });
+  });
+
+  describe('Index status', () => {
+    const statusProjectRoot = path.join(__dirname, '../../temp/status-test-project');
+
+    beforeEach(async () => {
+      await fs.promises.mkdir(path.join(statusProjectRoot, 'src'), { recursive: true });
+      await fs.promises.writeFile(path.join(statusProjectRoot, 'src/a.ts'), 'export const a = 1;');
+      await fs.promises.writeFile(path.join(statusProjectRoot, 'src/b.ts'), 'export const b = 2;');
+      await fs.promises.writeFile(path.join(statusProjectRoot, 'src/c.ts'), 'export const c = 3;');
+    });
+
+    afterEach(async () => {
+      await fs.promises.rm(statusProjectRoot, { recursive: true, force: true });
+    });
+
+    it('should record file stamps in the index', async () => {
+      const index = await new CodeIndexer(statusProjectRoot).processProject();
+      const stats = await fs.promises.stat(path.join(statusProjectRoot, 'src/a.ts'));
+
+      expect(index.files['src/a.ts']).toMatchObject({
+        hash: expect.stringMatching(/^[0-9a-f]{64}$/),
+        size: 19,
+        mtime: stats.mtimeMs
+      });
+    });
+
+    it('should report added, modified and deleted files without reparsing', async () => {
+      const indexer = new CodeIndexer(statusProjectRoot);
+      const index = await indexer.processProject();
+
+      expect(await indexer.getStatus(index)).toEqual({ added: [], modified: [], deleted: [] });
+
+      await fs.promises.writeFile(path.join(statusProjectRoot, 'src/a.ts'), 'export const a = 10;');
+      await fs.promises.rm(path.join(statusProjectRoot, 'src/b.ts'));
+      await fs.promises.writeFile(path.join(statusProjectRoot, 'src/d.ts'), 'export const d = 4;');
+      // Touched but unchanged content is not a modification
+      const future = new Date(Date.now() + 60_000);
+      await fs.promises.utimes(path.join(statusProjectRoot, 'src/c.ts'), future, future);
+
+      const parseSpy = vi.spyOn(ASTParser, 'parseFile');
+      const status = await indexer.getStatus(index);
+
+      expect(status).toEqual({ added: ['src/d.ts'], modified: ['src/a.ts'], deleted: ['src/b.ts'] });
+      expect(parseSpy).not.toHaveBeenCalled();
+      parseSpy.mockRestore();
+    });
+
+    it('should compare against the files selected by the scan patterns', async () => {
+      await fs.promises.writeFile(path.join(statusProjectRoot, 'src/a.test.ts'), 'export const check = 1;');
+      const index = await new CodeIndexer(statusProjectRoot, { exclude: ['**/*.test.ts'] }).processProject();
+      const { include, exclude } = index.metadata;
+
+      expect(include).toBeUndefined();
+      expect(exclude).toEqual(['**/*.test.ts']);
+      expect(await new CodeIndexer(statusProjectRoot, { exclude }).getStatus(index)).toEqual({ added: [], modified: [], deleted: [] });
+      expect((await new CodeIndexer(statusProjectRoot).getStatus(index)).added).toEqual(['src/a.test.ts']);
+    });
+
+    it('should treat entries without stamps as modified', async () => {
+      const indexer = new CodeIndexer(statusProjectRoot);
+      const index = await indexer.processProject();
+      delete index.files['src/a.ts']?.hash;
+      delete index.files['src/a.ts']?.mtime;
+
+      expect((await indexer.getStatus(index)).modified).toEqual(['src/a.ts']);
+    });
+  });
+
   describe('Memory and performance validation', () => {
     it('should handle large projects without memory issues', async () => {
       // Create many files to test scalability
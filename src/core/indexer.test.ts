@@ -244,6 +244,10 @@ export class UserValidator {
       expect(result.files['src/invalid.ts']).toBeDefined();
       // Invalid file should have empty parsed content
       expect(result.files['src/invalid.ts'].functions).toHaveLength(0);
+      expect(result.files['src/invalid.ts'].diagnostics).toEqual([
+        expect.objectContaining({ line: 1 })
+      ]);
+      expect(result.files['src/valid.ts'].diagnostics).toBeUndefined();
     });
 
     it('should process large projects efficiently', async () => {
@@ -295,11 +299,22 @@ export function newFunction(): void {}
       expect(result.files['src/index.ts'].constants[0].name).toBe('updated');
       expect(result.files['src/index.ts'].functions).toHaveLength(1);
       expect(result.files['src/index.ts'].functions[0].name).toBe('newFunction');
+      expect(result.files['src/index.ts'].functions[0].loc?.line).toBe(3);
       
       // Other files should remain unchanged
       expect(result.files['src/utils.ts']).toEqual(existingIndex.files['src/utils.ts']);
     });
 
+    it('should mark dependencies reached only through type-only imports', async () => {
+      mockFiles['src/index.ts'] = `import type { Helper } from './utils';`;
+
+      const result = await indexer.updateFile('src/index.ts', existingIndex);
+
+      expect(result.files['src/index.ts'].dependencies).toEqual(['src/utils.ts']);
+      expect(result.files['src/index.ts'].typeDependencies).toEqual(['src/utils.ts']);
+      expect(result.edges).toContainEqual({ from: 'src/index.ts', to: 'src/utils.ts', kind: 'type' });
+    });
+
     it('should throw error for unsupported file types', async () => {
       await expect(indexer.updateFile('README.md', existingIndex))
         .rejects.toThrow('Unsupported file type: README.md');
@@ -414,6 +429,113 @@ export function newFunction(): void {}
     });
   });
 
+  describe('findTestsForFile', () => {
+    beforeEach(() => {
+      mockFiles = {
+        'src/utils.ts': 'export function helper() { return 42; }',
+        'src/fixtures.test.ts': 'export const fixture = {};',
+        'src/utils.test.ts': [
+          "import { helper } from './utils';",
+          "import { fixture } from './fixtures.test';",
+          "describe('helper', () => { it('returns 42', () => {}); });"
+        ].join('\n'),
+        'src/index.ts': "import { helper } from './utils';"
+      };
+    });
+
+    it('should link test files to the source files they import', async () => {
+      const index = await indexer.processProject();
+
+      expect(index.files['src/utils.test.ts'].covers).toEqual(['src/utils.ts']);
+      expect(index.files['src/utils.test.ts'].tests).toHaveLength(1);
+      expect(index.files['src/index.ts'].covers).toBeUndefined();
+      expect(CodeIndexer.findTestsForFile(index, 'src/utils.ts')).toEqual(['src/utils.test.ts']);
+      expect(CodeIndexer.findTestsForFile(index, 'src/index.ts')).toEqual([]);
+    });
+
+    it('should update the mapping when a test file changes', async () => {
+      const index = await indexer.processProject();
+      mockFiles['src/utils.test.ts'] = "import { helper } from './index';";
+
+      const result = await indexer.updateFile('src/utils.test.ts', index);
+
+      expect(result.files['src/utils.test.ts'].covers).toEqual(['src/index.ts']);
+      expect(CodeIndexer.findTestsForFile(result, 'src/utils.ts')).toEqual([]);
+    });
+  });
+
+  describe('environment variable inventory', () => {
+    beforeEach(() => {
+      mockFiles = {
+        'src/config.ts': "export const port = process.env.PORT ?? '3000';\nexport const key = process.env.API_KEY;",
+        'src/server.ts': 'export const port = process.env.PORT || 8080;',
+        'src/utils.ts': 'export const noop = () => {};'
+      };
+    });
+
+    it('should aggregate env reads across files', async () => {
+      const index = await indexer.processProject();
+
+      expect(index.env).toEqual({
+        API_KEY: { files: ['src/config.ts'] },
+        PORT: { files: ['src/config.ts', 'src/server.ts'], defaults: ['3000', '8080'] }
+      });
+    });
+
+    it('should refresh the inventory on update and removal', async () => {
+      const index = await indexer.processProject();
+      mockFiles['src/server.ts'] = 'export const port = 8080;';
+
+      const updated = await indexer.updateFile('src/server.ts', index);
+      expect(updated.env?.['PORT']).toEqual({ files: ['src/config.ts'], defaults: ['3000'] });
+
+      const removed = indexer.removeFile('src/config.ts', updated);
+      expect(removed.env).toBeUndefined();
+    });
+  });
+
+  describe('external package inventory', () => {
+    beforeEach(() => {
+      mockFiles = {
+        'src/api.ts': "import { z } from 'zod';\nimport { readFile } from 'node:fs/promises';\nexport const schema = z.string();",
+        'src/server.ts': "import * as fs from 'fs';\nimport { helper } from './utils';\nimport type { Schema } from 'zod';",
+        'src/utils.ts': 'export const helper = () => {};'
+      };
+      mockFs.readFileSync = vi.fn().mockImplementation((filePath: string) => {
+        if (filePath === '/test/project/package.json') {
+          return JSON.stringify({ dependencies: { zod: '^3.22.0' } });
+        }
+        throw new Error(`File not found: ${filePath}`);
+      });
+    });
+
+    it('should record externals per file and aggregate them with versions', async () => {
+      const index = await indexer.processProject();
+
+      expect(index.files['src/api.ts'].externals).toEqual(['node:fs', 'zod']);
+      expect(index.files['src/server.ts'].externals).toEqual(['node:fs', 'zod']);
+      expect(index.files['src/utils.ts'].externals).toBeUndefined();
+      expect(index.externals).toEqual({
+        'node:fs': { kind: 'builtin', files: ['src/api.ts', 'src/server.ts'] },
+        zod: { kind: 'npm', version: '^3.22.0', files: ['src/api.ts', 'src/server.ts'] }
+      });
+    });
+
+    it('should refresh the inventory on update and removal', async () => {
+      const index = await indexer.processProject();
+      mockFiles['src/server.ts'] = "import { helper } from './utils';";
+
+      const updated = await indexer.updateFile('src/server.ts', index);
+      expect(updated.externals?.['zod']).toEqual({ kind: 'npm', version: '^3.22.0', files: ['src/api.ts'] });
+
+      const removed = indexer.removeFile('src/server.ts', updated);
+      // Versions are kept from the existing inventory
+      expect(removed.externals?.['zod']).toEqual({ kind: 'npm', version: '^3.22.0', files: ['src/api.ts'] });
+
+      expect(indexer.removeFile('src/api.ts', removed).externals).toBeUndefined();
+    });
+  });
+
   describe('error handling and edge cases', () => {
     it('should handle process.cwd() as default root path', () => {
       const defaultIndexer = new CodeIndexer();
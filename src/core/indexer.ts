@@ -51,11 +51,25 @@
 import * as path from 'node:path';
 import * as os from 'node:os';
 import * as fs from 'node:fs/promises';
-import type { ProjectIndex, FileInfo, FilterOptions } from '../types/index.js';
+import type {
+  ProjectIndex,
+  FileInfo,
+  CodeIndexerOptions,
+  DependencyEdge,
+  EnvVarSummary,
+  ExternalPackage,
+  IndexStatus,
+  ResolutionContext
+} from '../types/index.js';
 import { FileDiscovery } from './file-discovery.js';
 import { TreeBuilder } from './tree-builder.js';
 import { ASTParser } from '../parsers/ast-parser.js';
+import { RouteParser } from '../parsers/route-parser.js';
 import { DependencyResolver } from './dependency-resolver.js';
+import { TsConfigLoader } from './tsconfig-loader.js';
+import { WorkspaceLoader } from './workspace-loader.js';
+import { PackageVersionLoader } from './package-version-loader.js';
+import { readJsonObject, asRecord } from '../utils/json-file.js';
 
 /**
  * Configuration options for resource monitoring during batch processing.
@@ -126,16 +140,20 @@ export interface ResourceMonitor {
  */
 export class CodeIndexer {
   private rootPath: string;
-  private filterOptions: FilterOptions;
+  private filterOptions: CodeIndexerOptions;
   private resourceConfig: Required<ResourceConfig>;
   private totalSystemMemoryMB: number;
   private cpuCount: number;
+  private nextJsDirs: Promise<string[]> | undefined;
+  private resolutionContext: Promise<ResolutionContext> | undefined;
+  private packageVersions: Promise<Map<string, string>> | undefined;
 
   /**
    * Create a new CodeIndexer instance.
    * 
    * @param rootPath - Root directory to analyze (defaults to current working directory)
-   * @param filterOptions - File filtering options for inclusion/exclusion patterns
+   * @param filterOptions - File filtering options for inclusion/exclusion patterns, plus extra
+   *   package.json export conditions (`conditions`)
    * @param resourceConfig - Configuration for adaptive batch processing and resource management
    * 
    * @example Basic usage
@@ -151,6 +169,11 @@ export class CodeIndexer {
    * });
    * ```
    * 
+   * @example With custom export conditions
+   * ```typescript
+   * const indexer = new CodeIndexer('.', { conditions: ['browser'] });
+   * ```
+   * 
    * @example With resource limits
    * ```typescript
    * const indexer = new CodeIndexer('./src', {}, {
@@ -161,7 +184,7 @@ export class CodeIndexer {
    */
   constructor(
     rootPath: string = process.cwd(), 
-    filterOptions: FilterOptions = {},
+    filterOptions: CodeIndexerOptions = {},
     resourceConfig: ResourceConfig = {}
   ) {
     this.rootPath = path.resolve(rootPath);
@@ -204,7 +227,7 @@ export class CodeIndexer {
    */
   static create(
     rootPath: string = process.cwd(), 
-    filterOptions: FilterOptions = {},
+    filterOptions: CodeIndexerOptions = {},
     resourceConfig: ResourceConfig = {}
   ): CodeIndexer {
     return new CodeIndexer(rootPath, filterOptions, resourceConfig);
@@ -276,7 +299,10 @@ export class CodeIndexer {
 
       // Step 4: Resolve dependencies and build graph
       progressCallback?.({ step: 'Resolving dependencies', current: 3, total: 4 });
-      const { edges, resolvedFiles } = this.resolveDependencies(fileInfos, files);
+      const { edges, resolvedFiles } = this.resolveDependencies(fileInfos, files, await this.getResolutionContext());
+      for (const [filePath, fileInfo] of Object.entries(resolvedFiles)) {
+        await this.markExcludedImports(filePath, fileInfo);
+      }
 
       const now = new Date().toISOString();
 
@@ -293,6 +319,20 @@ export class CodeIndexer {
         edges,
         files: resolvedFiles
       };
+      if (this.filterOptions.include?.length) {
+        projectIndex.metadata.include = this.filterOptions.include;
+      }
+      if (this.filterOptions.exclude?.length) {
+        projectIndex.metadata.exclude = this.filterOptions.exclude;
+      }
+      if (this.filterOptions.extensions?.length) {
+        projectIndex.metadata.extensions = this.filterOptions.extensions;
+      }
+      if (this.filterOptions.conditions?.length) {
+        projectIndex.metadata.conditions = this.filterOptions.conditions;
+      }
+      this.updateEnvInventory(projectIndex);
+      this.updateExternalInventory(projectIndex, await this.getPackageVersions());
 
       progressCallback?.({ step: 'Complete', current: 4, total: 4 });
       return projectIndex;
@@ -350,7 +390,7 @@ export class CodeIndexer {
   async updateFile(filePath: string, existingIndex: ProjectIndex): Promise<ProjectIndex> {
     try {
       // Validate file path
-      if (!FileDiscovery.isSupportedFile(filePath)) {
+      if (!FileDiscovery.isSupportedFile(filePath, this.filterOptions)) {
         throw new Error(`Unsupported file type: ${filePath}`);
       }
 
@@ -363,14 +403,49 @@ export class CodeIndexer {
       // Parse the updated file
       const absolutePath = path.resolve(this.rootPath, filePath);
       const fileInfo = await ASTParser.parseFile(absolutePath);
+      await this.addFileSystemRoutes(filePath, fileInfo);
 
       // Resolve dependencies for this file
-      const dependencies = DependencyResolver.resolveImports(
+      const context = await this.getResolutionContext();
+      const lookupStructures = DependencyResolver.buildLookupStructures(existingIndex.nodes);
+      const dependencies = DependencyResolver.resolveImportsOptimized(
         fileInfo.imports,
         filePath,
-        existingIndex.nodes
+        lookupStructures,
+        context
       );
       fileInfo.dependencies = dependencies;
+      const typeDependencies = DependencyResolver.resolveTypeOnlyImportsOptimized(
+        fileInfo.imports,
+        filePath,
+        lookupStructures,
+        context
+      );
+      if (typeDependencies.length > 0) {
+        fileInfo.typeDependencies = typeDependencies;
+      }
+      const covers = this.getCoveredFiles(filePath, dependencies);
+      if (covers.length > 0) {
+        fileInfo.covers = covers;
+      }
+      const pkg = DependencyResolver.findPackage(filePath, context.workspacePackages ?? []);
+      if (pkg) {
+        fileInfo.package = pkg.name;
+      }
+      const externals = DependencyResolver.resolveExternalImportsOptimized(
+        fileInfo.imports,
+        filePath,
+        lookupStructures,
+        context
+      );
+      if (externals.length > 0) {
+        fileInfo.externals = externals;
+      }
+      const unresolved = DependencyResolver.findUnresolvedImportsOptimized(fileInfo.imports, filePath, lookupStructures);
+      if (unresolved.length > 0) {
+        fileInfo.unresolved = unresolved;
+        await this.markExcludedImports(filePath, fileInfo);
+      }
 
       // Update the index
       const updatedIndex = { ...existingIndex };
@@ -379,6 +454,8 @@ export class CodeIndexer {
 
       // Rebuild edges that involve this file
       updatedIndex.edges = this.rebuildEdgesForFile(filePath, updatedIndex);
+      this.updateEnvInventory(updatedIndex);
+      this.updateExternalInventory(updatedIndex, await this.getPackageVersions());
 
       return updatedIndex;
     } catch (error) {
@@ -440,10 +517,54 @@ export class CodeIndexer {
 
     // Rebuild tree without this file
     updatedIndex.tree = TreeBuilder.buildTree(updatedIndex.nodes, path.basename(this.rootPath));
+    this.updateEnvInventory(updatedIndex);
+    this.updateExternalInventory(updatedIndex);
 
     return updatedIndex;
   }
 
+  /**
+   * Compare an existing project index against the files on disk.
+   * 
+   * Files are discovered with the current filter options and compared by
+   * size and modification time first; only files whose stamp changed are read
+   * and hashed, so touched-but-unchanged files are not reported. Nothing is
+   * parsed. Entries from indexes created before file stamps were recorded
+   * are reported as modified.
+   * 
+   * @param existingIndex - The project index to check
+   * @returns Added, modified and deleted files
+   * 
+   * @example Check whether the index needs a rescan
+   * ```typescript
+   * const status = await indexer.getStatus(index);
+   * 
+   * if (status.added.length + status.modified.length + status.deleted.length > 0) {
+   *   console.log('Index is stale');
+   * }
+   * ```
+   */
+  async getStatus(existingIndex: ProjectIndex): Promise<IndexStatus> {
+    const files = await FileDiscovery.discoverFiles(this.rootPath, this.filterOptions);
+    const current = new Set(files);
+    const added = files.filter(file => !existingIndex.files[file]);
+    const deleted = Object.keys(existingIndex.files).filter(file => !current.has(file));
+    const modified: string[] = [];
+
+    for (const file of files) {
+      const info = existingIndex.files[file];
+      if (info && await this.isFileModified(file, info)) {
+        modified.push(file);
+      }
+    }
+
+    return {
+      added: added.sort(),
+      modified: modified.sort(),
+      deleted: deleted.sort()
+    };
+  }
+
   /**
    * Parse files in parallel with adaptive batch processing for better performance and resource management
    * @param files - Array of file paths to parse
@@ -487,6 +608,7 @@ export class CodeIndexer {
           
           const absolutePath = path.resolve(this.rootPath, filePath);
           const fileInfo = await ASTParser.parseFile(absolutePath);
+          await this.addFileSystemRoutes(filePath, fileInfo);
           return { filePath, fileInfo };
         } catch (error) {
           // Log error but continue processing other files
@@ -649,46 +771,268 @@ export class CodeIndexer {
    * Resolve dependencies and build dependency graph
    * @param fileInfos - Map of file paths to their FileInfo
    * @param allFiles - Array of all discovered files
+   * @param context - Settings for resolving non-relative imports
    * @returns Object with edges and updated file infos
    */
   private resolveDependencies(
     fileInfos: Record<string, FileInfo>,
-    allFiles: string[]
-  ): { edges: Array<{ from: string; to: string }>; resolvedFiles: Record<string, FileInfo> } {
+    allFiles: string[],
+    context: ResolutionContext
+  ): { edges: DependencyEdge[]; resolvedFiles: Record<string, FileInfo> } {
     // Extract imports from all files
     const importsMap: Record<string, import('../types/index.js').ImportInfo[]> = {};
     for (const [filePath, fileInfo] of Object.entries(fileInfos)) {
       importsMap[filePath] = fileInfo.imports;
     }
 
-    // Build dependency graph
-    const edges = DependencyResolver.buildDependencyGraph(importsMap, allFiles);
+    // Build dependency graph, sharing the lookup structures with the per-file passes below
+    const lookupStructures = DependencyResolver.buildLookupStructures(allFiles);
+    const edges = DependencyResolver.buildDependencyGraph(importsMap, allFiles, context, lookupStructures);
+
+    // Edges are emitted per file in sorted order, so they already hold each
+    // file's dependencies and their type/value split
+    const dependencyMap = new Map<string, { dependencies: string[]; typeDependencies: string[] }>();
+    for (const edge of edges) {
+      let entry = dependencyMap.get(edge.from);
+      if (!entry) {
+        entry = { dependencies: [], typeDependencies: [] };
+        dependencyMap.set(edge.from, entry);
+      }
+      entry.dependencies.push(edge.to);
+      if (edge.kind === 'type') {
+        entry.typeDependencies.push(edge.to);
+      }
+    }
 
     // Update file infos with resolved dependencies
     const resolvedFiles: Record<string, FileInfo> = {};
     for (const [filePath, fileInfo] of Object.entries(fileInfos)) {
-      const dependencies = DependencyResolver.resolveImports(
-        fileInfo.imports,
-        filePath,
-        allFiles
-      );
+      const { dependencies, typeDependencies } = dependencyMap.get(filePath) ?? { dependencies: [], typeDependencies: [] };
       
       resolvedFiles[filePath] = {
         ...fileInfo,
         dependencies
       };
+      if (typeDependencies.length > 0) {
+        resolvedFiles[filePath].typeDependencies = typeDependencies;
+      }
+      const covers = this.getCoveredFiles(filePath, dependencies);
+      if (covers.length > 0) {
+        resolvedFiles[filePath].covers = covers;
+      }
+      const pkg = DependencyResolver.findPackage(filePath, context.workspacePackages ?? []);
+      if (pkg) {
+        resolvedFiles[filePath].package = pkg.name;
+      }
+      const externals = DependencyResolver.resolveExternalImportsOptimized(
+        fileInfo.imports,
+        filePath,
+        lookupStructures,
+        context
+      );
+      if (externals.length > 0) {
+        resolvedFiles[filePath].externals = externals;
+      }
+      const unresolved = DependencyResolver.findUnresolvedImportsOptimized(fileInfo.imports, filePath, lookupStructures);
+      if (unresolved.length > 0) {
+        resolvedFiles[filePath].unresolved = unresolved;
+      }
     }
 
     return { edges, resolvedFiles };
   }
 
+  /**
+   * Get the settings for resolving non-relative imports, loading the
+   * project's tsconfig files and package manifests on first use
+   * @returns Resolution context for the dependency resolver
+   */
+  private getResolutionContext(): Promise<ResolutionContext> {
+    this.resolutionContext ??= WorkspaceLoader.loadPackages(this.rootPath).then(workspacePackages => {
+      const context: ResolutionContext = {
+        pathAliases: TsConfigLoader.loadPathAliases(this.rootPath),
+        workspacePackages
+      };
+      const rootImports = WorkspaceLoader.loadRootImports(this.rootPath);
+      if (rootImports) {
+        context.rootImports = rootImports;
+      }
+      if (this.filterOptions.conditions?.length) {
+        context.conditions = this.filterOptions.conditions;
+      }
+      return context;
+    });
+    return this.resolutionContext;
+  }
+
+  /**
+   * Get the versions of the project's dependencies, reading the package
+   * manifests and lockfile on first use
+   * @returns Installed version (or declared range) keyed by package name
+   */
+  private getPackageVersions(): Promise<Map<string, string>> {
+    this.packageVersions ??= this.getResolutionContext().then(context =>
+      PackageVersionLoader.loadVersions(this.rootPath, context.workspacePackages)
+    );
+    return this.packageVersions;
+  }
+
+
+  /**
+   * Add the Next.js routes defined by a file's location to its routes
+   * @param filePath - Relative file path
+   * @param fileInfo - Parsed file to update
+   */
+  private async addFileSystemRoutes(filePath: string, fileInfo: FileInfo): Promise<void> {
+    // `app/` and `pages/` are looked up relative to the closest Next.js package
+    const appDir = (await this.getNextJsDirs()).find(dir => dir === '.' || filePath.startsWith(`${dir}/`));
+    if (appDir === undefined) {
+      return;
+    }
+    const routes = RouteParser.getFileSystemRoutes(appDir === '.' ? filePath : filePath.slice(appDir.length + 1), fileInfo);
+    if (routes.length > 0) {
+      fileInfo.routes = [...(fileInfo.routes ?? []), ...routes];
+    }
+  }
+
+  /**
+   * Get the directories of the packages that depend on Next.js, so their
+   * `app/` and `pages/` files are routes
+   * @returns Workspace package directories, deepest first, then `.` for the root (read once)
+   */
+  private getNextJsDirs(): Promise<string[]> {
+    this.nextJsDirs ??= this.getResolutionContext().then(context => {
+      const dirs = (context.workspacePackages ?? [])
+        .map(pkg => pkg.dir)
+        .filter(dir => dir !== '.')
+        .sort((a, b) => b.split('/').length - a.split('/').length);
+      return [...dirs, '.'].filter(dir => {
+        const manifest = readJsonObject(path.join(this.rootPath, dir, 'package.json'));
+        return ['dependencies', 'devDependencies'].some(field => asRecord(manifest?.[field])?.['next'] !== undefined);
+      });
+    });
+    return this.nextJsDirs;
+  }
+
+  /**
+   * Aggregate the environment variables read by all files into `index.env`
+   * @param index - Project index to update (the inventory is removed when no file reads any)
+   */
+  private updateEnvInventory(index: ProjectIndex): void {
+    const env = new Map<string, EnvVarSummary>();
+
+    for (const filePath of Object.keys(index.files).sort()) {
+      for (const usage of index.files[filePath]?.env ?? []) {
+        let summary = env.get(usage.name);
+        if (!summary) {
+          summary = { files: [] };
+          env.set(usage.name, summary);
+        }
+        summary.files.push(filePath);
+        if (usage.default !== undefined && !summary.defaults?.includes(usage.default)) {
+          (summary.defaults ??= []).push(usage.default);
+        }
+      }
+    }
+
+    if (env.size === 0) {
+      delete index.env;
+      return;
+    }
+    index.env = Object.fromEntries([...env.entries()].sort(([a], [b]) => a.localeCompare(b)));
+  }
+
+  /**
+   * Aggregate the external packages imported by all files into `index.externals`
+   * @param index - Project index to update (the inventory is removed when no file imports any)
+   * @param versions - Dependency versions keyed by package name; defaults to the versions already in the inventory
+   */
+  private updateExternalInventory(index: ProjectIndex, versions?: Map<string, string>): void {
+    const knownVersions = versions ?? new Map(
+      Object.entries(index.externals ?? {}).flatMap(([name, pkg]) => pkg.version !== undefined ? [[name, pkg.version] as const] : [])
+    );
+    const externals = new Map<string, ExternalPackage>();
+
+    for (const filePath of Object.keys(index.files).sort()) {
+      for (const name of index.files[filePath]?.externals ?? []) {
+        let pkg = externals.get(name);
+        if (!pkg) {
+          const kind = name.startsWith('node:') ? 'builtin' : 'npm';
+          const version = kind === 'npm' ? knownVersions.get(name) : undefined;
+          pkg = version !== undefined ? { kind, version, files: [] } : { kind, files: [] };
+          externals.set(name, pkg);
+        }
+        pkg.files.push(filePath);
+      }
+    }
+
+    if (externals.size === 0) {
+      delete index.externals;
+      return;
+    }
+    index.externals = Object.fromEntries([...externals.entries()].sort(([a], [b]) => a.localeCompare(b)));
+  }
+
+  /**
+   * Mark unresolved imports as `excluded` when the imported file exists on
+   * disk but is not indexed
+   * @param filePath - Relative path of the importing file
+   * @param fileInfo - File whose `unresolved` entries are updated in place
+   */
+  private async markExcludedImports(filePath: string, fileInfo: FileInfo): Promise<void> {
+    for (const entry of fileInfo.unresolved ?? []) {
+      if (entry.reason !== 'missing') {
+        continue;
+      }
+      for (const candidate of DependencyResolver.getImportCandidates(entry.from, filePath)) {
+        const stats = await fs.stat(path.resolve(this.rootPath, candidate)).catch(() => undefined);
+        if (stats?.isFile()) {
+          entry.reason = 'excluded';
+          break;
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the source files covered by a test file
+   * @param filePath - File path to check
+   * @param dependencies - Resolved dependencies of the file
+   * @returns Non-test dependencies for test files, empty array for other files
+   */
+  private getCoveredFiles(filePath: string, dependencies: string[]): string[] {
+    if (!ASTParser.isTestFile(filePath)) {
+      return [];
+    }
+    return dependencies.filter(dependency => !ASTParser.isTestFile(dependency));
+  }
+
+  /**
+   * Check if a file changed since it was indexed
+   * @param filePath - Relative path to the file
+   * @param info - Indexed information for the file
+   * @returns True when the content differs from the indexed content
+   */
+  private async isFileModified(filePath: string, info: FileInfo): Promise<boolean> {
+    const absolutePath = path.resolve(this.rootPath, filePath);
+    const stats = await fs.stat(absolutePath);
+    if (stats.size === info.size && stats.mtimeMs === info.mtime) {
+      return false;
+    }
+    if (info.hash === undefined) {
+      return true;
+    }
+    const content = await fs.readFile(absolutePath, 'utf8');
+    return ASTParser.hashContent(content) !== info.hash;
+  }
+
   /**
    * Rebuild dependency edges for a specific file
    * @param filePath - File path to rebuild edges for
    * @param index - Project index
    * @returns Updated edges array
    */
-  private rebuildEdgesForFile(filePath: string, index: ProjectIndex): Array<{ from: string; to: string }> {
+  private rebuildEdgesForFile(filePath: string, index: ProjectIndex): DependencyEdge[] {
     // Remove existing edges involving this file
     const filteredEdges = index.edges.filter(
       edge => edge.from !== filePath && edge.to !== filePath
@@ -700,7 +1044,8 @@ export class CodeIndexer {
       for (const dependency of fileInfo.dependencies) {
         filteredEdges.push({
           from: filePath,
-          to: dependency
+          to: dependency,
+          kind: fileInfo.typeDependencies?.includes(dependency) ? 'type' : 'value'
         });
       }
     }
@@ -710,7 +1055,8 @@ export class CodeIndexer {
       if (otherFilePath !== filePath && otherFileInfo.dependencies.includes(filePath)) {
         filteredEdges.push({
           from: otherFilePath,
-          to: filePath
+          to: filePath,
+          kind: otherFileInfo.typeDependencies?.includes(filePath) ? 'type' : 'value'
         });
       }
     }
@@ -809,6 +1155,8 @@ export class CodeIndexer {
 
     // Rebuild tree without this file
     updatedIndex.tree = TreeBuilder.buildTree(updatedIndex.nodes, path.basename(this.rootPath));
+    this.updateEnvInventory(updatedIndex);
+    this.updateExternalInventory(updatedIndex);
 
     return updatedIndex;
   }
@@ -881,4 +1229,28 @@ export class CodeIndexer {
       leafFiles: DependencyResolver.findLeafFiles(index.edges, index.nodes)
     };
   }
+
+  /**
+   * Find the test files that cover a source file.
+   * 
+   * A test file covers the non-test files it imports directly (see
+   * `FileInfo.covers`). Indexes created before test mapping was recorded
+   * return no tests until they are rescanned.
+   * 
+   * @param index - The project index to search
+   * @param filePath - Relative path of the source file
+   * @returns Paths of the covering test files, sorted
+   * 
+   * @example
+   * ```typescript
+   * const tests = CodeIndexer.findTestsForFile(index, 'src/utils/format.ts');
+   * // ['src/cli.test.ts', 'src/utils/format.test.ts']
+   * ```
+   */
+  static findTestsForFile(index: ProjectIndex, filePath: string): string[] {
+    return Object.entries(index.files)
+      .filter(([, info]) => info.covers?.includes(filePath))
+      .map(([testFile]) => testFile)
+      .sort();
+  }
 }
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for PackageVersionLoader module
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { PackageVersionLoader } from './package-version-loader.js';
+
+describe('PackageVersionLoader', () => {
+  let root: string;
+
+  const writeFile = (filePath: string, content: string): void => {
+    fs.mkdirSync(path.dirname(path.join(root, filePath)), { recursive: true });
+    fs.writeFileSync(path.join(root, filePath), content);
+  };
+
+  beforeEach(() => {
+    root = path.join(process.cwd(), 'temp', `versions-${Date.now()}`);
+    fs.mkdirSync(root, { recursive: true });
+    writeFile('package.json', JSON.stringify({
+      dependencies: { react: '^18.2.0', zod: '^3.22.0' },
+      devDependencies: { '@types/node': '^20.0.0', react: '^17.0.0' }
+    }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should fall back to declared ranges without a lockfile', () => {
+    writeFile('packages/ui/package.json', '{ "peerDependencies": { "react": "*", "clsx": "^2.0.0" } }');
+
+    expect(PackageVersionLoader.loadVersions(root, [{ name: '@acme/ui', dir: 'packages/ui' }])).toEqual(new Map([
+      ['react', '^18.2.0'],
+      ['zod', '^3.22.0'],
+      ['@types/node', '^20.0.0'],
+      ['clsx', '^2.0.0']
+    ]));
+  });
+
+  it('should read installed versions from package-lock.json', () => {
+    writeFile('package-lock.json', JSON.stringify({
+      lockfileVersion: 3,
+      packages: {
+        '': { name: 'app' },
+        'node_modules/react': { version: '18.2.0' },
+        'node_modules/@types/node': { version: '20.11.5' },
+        'node_modules/other/node_modules/zod': { version: '3.0.0' },
+        'node_modules/undeclared': { version: '1.0.0' }
+      }
+    }));
+
+    expect(PackageVersionLoader.loadVersions(root)).toEqual(new Map([
+      ['react', '18.2.0'],
+      ['zod', '^3.22.0'],
+      ['@types/node', '20.11.5']
+    ]));
+  });
+
+  it('should read installed versions from yarn.lock', () => {
+    writeFile('yarn.lock', [
+      '# yarn lockfile v1',
+      '',
+      '"@types/node@^20.0.0":',
+      '  version "20.11.5"',
+      '',
+      'react@^18.2.0, "react@>=16":',
+      '  version "18.2.0"',
+      '  dependencies:',
+      '    loose-envify "^1.1.0"',
+      '',
+      '"zod@npm:^3.22.0":',
+      '  version: 3.22.4'
+    ].join('\n'));
+
+    expect(PackageVersionLoader.loadVersions(root)).toEqual(new Map([
+      ['react', '18.2.0'],
+      ['zod', '3.22.4'],
+      ['@types/node', '20.11.5']
+    ]));
+  });
+
+  it('should read installed versions from pnpm-lock.yaml', () => {
+    writeFile('pnpm-lock.yaml', [
+      "lockfileVersion: '9.0'",
+      '',
+      'importers:',
+      '  .:',
+      '    dependencies:',
+      '      react:',
+      '        specifier: ^18.2.0',
+      '        version: 18.2.0',
+      '      zod:',
+      '        specifier: ^3.22.0',
+      '        version: 3.22.4(typescript@5.3.3)',
+      '    devDependencies:',
+      "      '@types/node':",
+      '        specifier: ^20.0.0',
+      '        version: 20.11.5',
+      '',
+      'packages:',
+      '  react@18.2.0:',
+      '    resolution: {integrity: sha512-abc}'
+    ].join('\n'));
+
+    expect(PackageVersionLoader.loadVersions(root)).toEqual(new Map([
+      ['react', '18.2.0'],
+      ['zod', '3.22.4'],
+      ['@types/node', '20.11.5']
+    ]));
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Package version loading module - finds the version of each third-party
+ * dependency so the external package inventory can report it
+ *
+ * Versions declared in the root and workspace package.json files are used as
+ * a fallback; installed versions from `package-lock.json`, `yarn.lock` (classic
+ * and berry) or `pnpm-lock.yaml` take precedence when a lockfile exists.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { WorkspacePackage } from '../types/index.js';
+import { readJsonObject, asRecord } from '../utils/json-file.js';
+
+/**
+ * package.json fields listing dependencies, in lookup order
+ */
+const DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'];
+
+/**
+ * Matches a dependency section header of pnpm-lock.yaml, capturing its indentation
+ */
+const PNPM_SECTION_PATTERN = /^(\s*)(?:dependencies|devDependencies|optionalDependencies):\s*$/;
+
+/**
+ * Matches a `key: value` line of a YAML mapping, capturing indentation, key and value
+ */
+const YAML_ENTRY_PATTERN = /^(\s*)(?:'([^']+)'|"([^"]+)"|([^\s:'"][^\s:]*)):\s*(.*)$/;
+
+export class PackageVersionLoader {
+  /**
+   * Load the versions of the dependencies of a project
+   * @param rootPath - Absolute path of the scan root
+   * @param packages - Packages of the workspace, whose manifests declare dependencies too
+   * @returns Installed version (or declared range) keyed by package name
+   */
+  static loadVersions(rootPath: string, packages: WorkspacePackage[] = []): Map<string, string> {
+    const versions = new Map<string, string>();
+
+    for (const dir of ['.', ...packages.map(pkg => pkg.dir)]) {
+      for (const [name, range] of this.readDeclaredRanges(path.join(rootPath, dir, 'package.json'))) {
+        if (!versions.has(name)) {
+          versions.set(name, range);
+        }
+      }
+    }
+
+    const installed = this.readPackageLock(rootPath) ?? this.readYarnLock(rootPath) ?? this.readPnpmLock(rootPath);
+    for (const [name, version] of installed ?? []) {
+      if (versions.has(name)) {
+        versions.set(name, version);
+      }
+    }
+
+    return versions;
+  }
+
+  /**
+   * Read the version ranges declared in a package.json file
+   * @param manifestPath - Absolute path to the package.json file
+   * @returns Declared ranges keyed by package name (empty when the file is missing or invalid)
+   */
+  private static readDeclaredRanges(manifestPath: string): Map<string, string> {
+    const ranges = new Map<string, string>();
+    const manifest = readJsonObject(manifestPath);
+
+    for (const field of DEPENDENCY_FIELDS) {
+      for (const [name, range] of Object.entries(asRecord(manifest?.[field]) ?? {})) {
+        if (typeof range === 'string' && !ranges.has(name)) {
+          ranges.set(name, range);
+        }
+      }
+    }
+
+    return ranges;
+  }
+
+  /**
+   * Read installed versions from an npm lockfile (v1 `dependencies` or v2+ `packages`)
+   * @param rootPath - Absolute path of the scan root
+   * @returns Versions keyed by package name, or undefined when there is no lockfile
+   */
+  private static readPackageLock(rootPath: string): Map<string, string> | undefined {
+    const lockfile = readJsonObject(path.join(rootPath, 'package-lock.json'));
+    if (!lockfile) {
+      return undefined;
+    }
+
+    const versions = new Map<string, string>();
+    for (const [key, entry] of Object.entries(asRecord(lockfile['packages']) ?? {})) {
+      const version = asRecord(entry)?.['version'];
+      // Only top-level installs; nested node_modules hold transitive copies
+      const name = key.startsWith('node_modules/') ? key.slice('node_modules/'.length) : undefined;
+      if (name && !name.includes('/node_modules/') && typeof version === 'string') {
+        versions.set(name, version);
+      }
+    }
+    for (const [name, entry] of Object.entries(asRecord(lockfile['dependencies']) ?? {})) {
+      const version = asRecord(entry)?.['version'];
+      if (!versions.has(name) && typeof version === 'string') {
+        versions.set(name, version);
+      }
+    }
+    return versions;
+  }
+
+  /**
+   * Read installed versions from a yarn lockfile
+   *
+   * Entries start with an unindented line listing the descriptors they
+   * satisfy (`"react@^18.0.0", react@^18.2.0:`), followed by an indented
+   * `version "18.2.0"` (classic) or `version: 18.2.0` (berry) line. When a
+   * package is installed in several versions, the first entry wins.
+   *
+   * @param rootPath - Absolute path of the scan root
+   * @returns Versions keyed by package name, or undefined when there is no lockfile
+   */
+  private static readYarnLock(rootPath: string): Map<string, string> | undefined {
+    const content = this.readText(path.join(rootPath, 'yarn.lock'));
+    if (content === undefined) {
+      return undefined;
+    }
+
+    const versions = new Map<string, string>();
+    let names: string[] = [];
+    for (const line of content.split(/\r?\n/)) {
+      if (!line.trim() || line.startsWith('#')) {
+        continue;
+      }
+      if (!/^\s/.test(line)) {
+        names = line.replace(/:\s*$/, '').split(',').map(descriptor => {
+          const unquoted = descriptor.trim().replace(/^"|"$/g, '');
+          const separator = unquoted.indexOf('@', 1);
+          return separator > 0 ? unquoted.slice(0, separator) : '';
+        });
+        continue;
+      }
+      const version = /^\s+version:?\s+"?([^"\s]+)"?\s*$/.exec(line)?.[1];
+      if (version) {
+        for (const name of names) {
+          if (name && !versions.has(name)) {
+            versions.set(name, version);
+          }
+        }
+      }
+    }
+    return versions;
+  }
+
+  /**
+   * Read installed versions from a pnpm lockfile
+   *
+   * Dependencies are listed per importer (`importers: { '.': { dependencies } }`)
+   * or, in single-project lockfiles, at the top level. Versions are either
+   * written inline (`react: 18.2.0`) or in a nested `version:` key, and may
+   * carry a peer dependency suffix (`18.2.0(react@18.2.0)`) that is dropped.
+   *
+   * @param rootPath - Absolute path of the scan root
+   * @returns Versions keyed by package name, or undefined when there is no lockfile
+   */
+  private static readPnpmLock(rootPath: string): Map<string, string> | undefined {
+    const content = this.readText(path.join(rootPath, 'pnpm-lock.yaml'));
+    if (content === undefined) {
+      return undefined;
+    }
+
+    const versions = new Map<string, string>();
+    const record = (name: string | undefined, value: string): void => {
+      const version = value.replace(/^['"]|['"]$/g, '').replace(/\(.*$/, '');
+      if (name && version && !versions.has(name) && !version.startsWith('link:')) {
+        versions.set(name, version);
+      }
+    };
+
+    let sectionIndent: number | undefined;
+    let current: string | undefined;
+    for (const line of content.split(/\r?\n/)) {
+      if (!line.trim() || line.trim().startsWith('#')) {
+        continue;
+      }
+      const section = PNPM_SECTION_PATTERN.exec(line);
+      if (section) {
+        sectionIndent = section[1]?.length ?? 0;
+        current = undefined;
+        continue;
+      }
+      const entry = YAML_ENTRY_PATTERN.exec(line);
+      const indent = entry?.[1]?.length ?? 0;
+      if (sectionIndent === undefined || !entry || indent <= sectionIndent) {
+        sectionIndent = undefined;
+        continue;
+      }
+
+      const key = entry[2] ?? entry[3] ?? entry[4];
+      const value = entry[5] ?? '';
+      if (indent === sectionIndent + 2) {
+        current = key;
+        if (value) {
+          record(key, value);
+        }
+      } else if (key === 'version') {
+        record(current, value);
+      }
+    }
+    return versions;
+  }
+
+  /**
+   * Read a text file from disk
+   * @param filePath - Absolute path to the file
+   * @returns File content, or undefined when the file is missing
+   */
+  private static readText(filePath: string): string | undefined {
+    try {
+      return fs.readFileSync(filePath, 'utf8');
+    } catch {
+      return undefined;
+    }
+  }
+}
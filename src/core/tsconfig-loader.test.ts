@@ -0,0 +1,70 @@
+/**
+ * Unit tests for TsConfigLoader module
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { TsConfigLoader } from './tsconfig-loader.js';
+
+describe('TsConfigLoader', () => {
+  let root: string;
+
+  const writeFile = (filePath: string, content: string): void => {
+    fs.mkdirSync(path.dirname(path.join(root, filePath)), { recursive: true });
+    fs.writeFileSync(path.join(root, filePath), content);
+  };
+
+  beforeEach(() => {
+    root = path.join(process.cwd(), 'temp', `tsconfig-${Date.now()}`);
+    fs.mkdirSync(root, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should return no aliases without a tsconfig', () => {
+    expect(TsConfigLoader.loadPathAliases(root)).toEqual([]);
+  });
+
+  it('should follow extends chains and resolve paths against baseUrl', () => {
+    writeFile('configs/base.json', `{
+      // Shared settings
+      "compilerOptions": { "baseUrl": "..", "paths": { "@/*": ["src/*"] } }
+    }`);
+    writeFile('tsconfig.json', '{ "extends": "./configs/base.json", "compilerOptions": { "strict": true } }');
+
+    expect(TsConfigLoader.loadPathAliases(root)).toEqual([
+      { scope: '.', baseUrl: '.', paths: [{ pattern: '@/*', targets: ['src/*'] }] }
+    ]);
+  });
+
+  it('should resolve paths relative to the declaring config without baseUrl', () => {
+    writeFile('configs/base.json', '{ "compilerOptions": { "paths": { "~lib": ["../lib/index.ts"] } } }');
+    writeFile('tsconfig.json', '{ "extends": "./configs/base.json" }');
+
+    expect(TsConfigLoader.loadPathAliases(root)).toEqual([
+      { scope: '.', paths: [{ pattern: '~lib', targets: ['lib/index.ts'] }] }
+    ]);
+  });
+
+  it('should load referenced projects with the most nested scope first', () => {
+    writeFile('tsconfig.json', '{ "files": [], "references": [{ "path": "./apps/web" }, { "path": "./tsconfig.node.json" }] }');
+    writeFile('tsconfig.node.json', '{ "compilerOptions": { "composite": true } }');
+    writeFile('apps/web/tsconfig.json', `{
+      "compilerOptions": { "composite": true, "paths": { "@/*": ["./src/*"] } },
+      "references": [{ "path": "../.." }]
+    }`);
+
+    expect(TsConfigLoader.loadPathAliases(root)).toEqual([
+      { scope: 'apps/web', paths: [{ pattern: '@/*', targets: ['apps/web/src/*'] }] }
+    ]);
+  });
+
+  it('should ignore invalid config files', () => {
+    writeFile('tsconfig.json', '{ "compilerOptions": ');
+
+    expect(TsConfigLoader.loadPathAliases(root)).toEqual([]);
+  });
+});
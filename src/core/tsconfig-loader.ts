@@ -0,0 +1,115 @@
+/**
+ * tsconfig loading module - reads the `baseUrl` and `paths` settings used to
+ * resolve aliased imports such as `@/components/Button`
+ *
+ * Configs are parsed with the TypeScript compiler API, so JSON comments and
+ * `extends` chains (including configs extended from packages) behave exactly
+ * as they do for `tsc`. Project `references` are followed recursively and each
+ * referenced config contributes its own aliases for the files below it.
+ */
+
+import * as path from 'node:path';
+import * as ts from 'typescript';
+import type { PathAliasConfig } from '../types/index.js';
+
+/**
+ * Config host that reads files but never enumerates directories; the
+ * `include`/`files` lists are irrelevant for alias resolution
+ */
+const CONFIG_HOST: ts.ParseConfigHost = {
+  useCaseSensitiveFileNames: ts.sys.useCaseSensitiveFileNames,
+  readDirectory: () => [],
+  fileExists: ts.sys.fileExists,
+  readFile: ts.sys.readFile
+};
+
+export class TsConfigLoader {
+  /**
+   * Load the alias settings of the root tsconfig and every project it references
+   * @param rootPath - Absolute path of the scan root
+   * @returns Alias settings with paths relative to the root, most deeply nested scope first
+   */
+  static loadPathAliases(rootPath: string): PathAliasConfig[] {
+    const configs: PathAliasConfig[] = [];
+    const visited = new Set<string>();
+
+    const visit = (configPath: string): void => {
+      if (visited.has(configPath)) {
+        return;
+      }
+      visited.add(configPath);
+
+      const parsed = this.parseConfig(configPath);
+      if (!parsed) {
+        return;
+      }
+      const aliases = this.toPathAliasConfig(parsed.options, path.dirname(configPath), rootPath);
+      if (aliases) {
+        configs.push(aliases);
+      }
+      for (const reference of parsed.projectReferences ?? []) {
+        visit(ts.resolveProjectReferencePath(reference));
+      }
+    };
+    visit(path.join(rootPath, 'tsconfig.json'));
+
+    return configs.sort((a, b) => this.getDepth(b.scope) - this.getDepth(a.scope));
+  }
+
+  /**
+   * Read and parse a tsconfig file, following its `extends` chain
+   * @param configPath - Absolute path to the config file
+   * @returns Parsed config, or undefined when the file is missing or not valid JSON
+   */
+  private static parseConfig(configPath: string): ts.ParsedCommandLine | undefined {
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error) {
+      return undefined;
+    }
+    // Errors such as "no inputs found" do not affect the compiler options
+    return ts.parseJsonConfigFileContent(config, CONFIG_HOST, path.dirname(configPath), undefined, configPath);
+  }
+
+  /**
+   * Convert parsed compiler options into root-relative alias settings
+   * @param options - Parsed compiler options
+   * @param configDir - Absolute directory of the config file
+   * @param rootPath - Absolute path of the scan root
+   * @returns Alias settings, or undefined when the config sets neither `baseUrl` nor `paths`
+   */
+  private static toPathAliasConfig(
+    options: ts.CompilerOptions,
+    configDir: string,
+    rootPath: string
+  ): PathAliasConfig | undefined {
+    if (options.baseUrl === undefined && options.paths === undefined) {
+      return undefined;
+    }
+
+    // Without a baseUrl, paths are relative to the config that declares them
+    const pathsBase = options.baseUrl ?? (typeof options['pathsBasePath'] === 'string' ? options['pathsBasePath'] : configDir);
+    const toRelative = (absolutePath: string): string =>
+      path.relative(rootPath, absolutePath).replace(/\\/g, '/') || '.';
+
+    const aliases: PathAliasConfig = {
+      scope: toRelative(configDir),
+      paths: Object.entries(options.paths ?? {}).map(([pattern, targets]) => ({
+        pattern,
+        targets: targets.map(target => toRelative(path.resolve(pathsBase, target)))
+      }))
+    };
+    if (options.baseUrl !== undefined) {
+      aliases.baseUrl = toRelative(options.baseUrl);
+    }
+    return aliases;
+  }
+
+  /**
+   * Get the nesting depth of a root-relative directory
+   * @param dir - Directory relative to the root (`.` for the root)
+   * @returns Number of path segments
+   */
+  private static getDepth(dir: string): number {
+    return dir === '.' ? 0 : dir.split('/').length;
+  }
+}
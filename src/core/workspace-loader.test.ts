@@ -0,0 +1,98 @@
+/**
+ * Unit tests for WorkspaceLoader module
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { WorkspaceLoader } from './workspace-loader.js';
+
+describe('WorkspaceLoader', () => {
+  let root: string;
+
+  const writeFile = (filePath: string, content: string): void => {
+    fs.mkdirSync(path.dirname(path.join(root, filePath)), { recursive: true });
+    fs.writeFileSync(path.join(root, filePath), content);
+  };
+
+  beforeEach(() => {
+    root = path.join(process.cwd(), 'temp', `workspace-${Date.now()}`);
+    fs.mkdirSync(root, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should return no packages outside a workspace', async () => {
+    writeFile('package.json', '{ "name": "single" }');
+
+    expect(await WorkspaceLoader.loadPackages(root)).toEqual([]);
+  });
+
+  it('should read package.json workspaces with entry points', async () => {
+    writeFile('package.json', '{ "private": true, "workspaces": ["packages/*", "apps/web/"] }');
+    writeFile('packages/core/package.json', JSON.stringify({
+      name: '@acme/core',
+      main: './dist/index.js',
+      typings: './dist/index.d.ts',
+      exports: { '.': { import: './src/index.ts' } }
+    }));
+    writeFile('packages/ui/package.json', '{ "name": "@acme/ui", "module": "src/index.ts" }');
+    writeFile('packages/notes/README.md', '# Not a package');
+    writeFile('apps/web/package.json', '{ "name": "web" }');
+    writeFile('packages/core/node_modules/dep/package.json', '{ "name": "dep" }');
+
+    expect(await WorkspaceLoader.loadPackages(root)).toEqual([
+      { name: 'web', dir: 'apps/web' },
+      {
+        name: '@acme/core',
+        dir: 'packages/core',
+        main: './dist/index.js',
+        types: './dist/index.d.ts',
+        exports: { '.': { import: './src/index.ts' } }
+      },
+      { name: '@acme/ui', dir: 'packages/ui', module: 'src/index.ts' }
+    ]);
+  });
+
+  it('should read subpath imports of the root and of packages', async () => {
+    writeFile('package.json', '{ "workspaces": ["packages/*"], "imports": { "#lib/*": "./src/lib/*.ts" } }');
+    writeFile('packages/db/package.json', '{ "name": "db", "imports": { "#client": "./src/client.ts" } }');
+
+    expect(WorkspaceLoader.loadRootImports(root)).toEqual({ '#lib/*': './src/lib/*.ts' });
+    expect(await WorkspaceLoader.loadPackages(root)).toEqual([
+      { name: 'db', dir: 'packages/db', imports: { '#client': './src/client.ts' } }
+    ]);
+  });
+
+  it('should read yarn workspaces declared as an object', async () => {
+    writeFile('package.json', '{ "workspaces": { "packages": ["libs/*"], "nohoist": ["**/react"] } }');
+    writeFile('libs/a/package.json', '{ "name": "a" }');
+
+    expect(await WorkspaceLoader.loadPackages(root)).toEqual([{ name: 'a', dir: 'libs/a' }]);
+  });
+
+  it('should read pnpm-workspace.yaml and honor negated globs', async () => {
+    writeFile('pnpm-workspace.yaml', [
+      '# Workspace packages',
+      'packages:',
+      "  - 'packages/*'",
+      '  - "tools/cli"',
+      "  - '!packages/private'",
+      '',
+      'catalog:',
+      '  - not-a-package'
+    ].join('\n'));
+    writeFile('packages/core/package.json', '{ "name": "core" }');
+    writeFile('packages/private/package.json', '{ "name": "private" }');
+    writeFile('packages/unnamed/package.json', '{ "version": "1.0.0" }');
+    writeFile('tools/cli/package.json', '{ "name": "cli" }');
+    writeFile('not-a-package/package.json', '{ "name": "other" }');
+
+    expect(await WorkspaceLoader.loadPackages(root)).toEqual([
+      { name: 'core', dir: 'packages/core' },
+      { name: 'cli', dir: 'tools/cli' }
+    ]);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Workspace loading module - finds the packages of npm, yarn and pnpm
+ * workspaces so imports of a sibling package (`@acme/core`) can be resolved
+ * to its source files
+ *
+ * Workspace globs come from the root package.json (`workspaces` as an array
+ * or as `{ packages: [...] }`) and from `pnpm-workspace.yaml`.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import fastGlob from 'fast-glob';
+import type { PackageExports, PackageImports, WorkspacePackage } from '../types/index.js';
+import { readJsonObject, asRecord } from '../utils/json-file.js';
+
+/**
+ * Matches one entry of a YAML block sequence (`  - 'packages/*'`), capturing the value
+ */
+const YAML_LIST_ITEM_PATTERN = /^\s+-\s*(?:'([^']*)'|"([^"]*)"|([^\s#]+))/;
+
+export class WorkspaceLoader {
+  /**
+   * Find the packages of the workspace rooted at a directory
+   * @param rootPath - Absolute path of the scan root
+   * @returns Workspace packages sorted by directory (empty when the root is not a workspace)
+   */
+  static async loadPackages(rootPath: string): Promise<WorkspacePackage[]> {
+    const patterns = this.getWorkspacePatterns(rootPath);
+    if (patterns.length === 0) {
+      return [];
+    }
+
+    const manifests = await fastGlob(
+      patterns.map(pattern => {
+        const negated = pattern.startsWith('!');
+        const dir = (negated ? pattern.slice(1) : pattern).replace(/^\.\//, '').replace(/\/+$/, '');
+        return `${negated ? '!' : ''}${dir}/package.json`;
+      }),
+      { cwd: rootPath, ignore: ['**/node_modules/**'], onlyFiles: true }
+    );
+
+    const packages: WorkspacePackage[] = [];
+    for (const manifest of manifests.sort()) {
+      const pkg = this.readPackage(path.join(rootPath, manifest), path.posix.dirname(manifest));
+      if (pkg) {
+        packages.push(pkg);
+      }
+    }
+    return packages;
+  }
+
+  /**
+   * Read the `imports` field of the root package.json
+   * @param rootPath - Absolute path of the scan root
+   * @returns Subpath imports, or undefined when the root has no package.json or no `imports`
+   */
+  static loadRootImports(rootPath: string): PackageImports | undefined {
+    return asRecord(readJsonObject(path.join(rootPath, 'package.json'))?.['imports']) as PackageImports | undefined;
+  }
+
+  /**
+   * Collect the workspace globs declared at the root
+   * @param rootPath - Absolute path of the scan root
+   * @returns Globs for package directories (negated globs start with `!`)
+   */
+  private static getWorkspacePatterns(rootPath: string): string[] {
+    const patterns: string[] = [];
+
+    const manifest = readJsonObject(path.join(rootPath, 'package.json'));
+    const workspaces = manifest?.['workspaces'];
+    const declared = Array.isArray(workspaces) ? workspaces : asRecord(workspaces)?.['packages'];
+    if (Array.isArray(declared)) {
+      patterns.push(...declared.filter((pattern): pattern is string => typeof pattern === 'string'));
+    }
+
+    try {
+      const yaml = fs.readFileSync(path.join(rootPath, 'pnpm-workspace.yaml'), 'utf8');
+      patterns.push(...this.parsePnpmPackages(yaml));
+    } catch {
+      // Not a pnpm workspace
+    }
+
+    return patterns;
+  }
+
+  /**
+   * Read the `packages` list of a pnpm-workspace.yaml file
+   * @param yaml - File content
+   * @returns Package globs in declaration order
+   */
+  private static parsePnpmPackages(yaml: string): string[] {
+    const patterns: string[] = [];
+    let inPackages = false;
+
+    for (const line of yaml.split(/\r?\n/)) {
+      if (!line.trim() || line.trim().startsWith('#')) {
+        continue;
+      }
+      if (!/^\s/.test(line)) {
+        inPackages = /^packages\s*:\s*$/.test(line);
+        continue;
+      }
+      const match = inPackages ? YAML_LIST_ITEM_PATTERN.exec(line) : null;
+      const pattern = match?.[1] ?? match?.[2] ?? match?.[3];
+      if (pattern) {
+        patterns.push(pattern);
+      }
+    }
+
+    return patterns;
+  }
+
+  /**
+   * Read the name and entry points of a workspace package
+   * @param manifestPath - Absolute path to the package's package.json
+   * @param dir - Package directory relative to the root
+   * @returns Package info, or undefined for unnamed or unreadable packages
+   */
+  private static readPackage(manifestPath: string, dir: string): WorkspacePackage | undefined {
+    const manifest = readJsonObject(manifestPath);
+    const name = manifest?.['name'];
+    if (!manifest || typeof name !== 'string') {
+      return undefined;
+    }
+
+    const pkg: WorkspacePackage = { name, dir };
+    const { main, module, types, typings, exports, imports } = manifest;
+    if (typeof main === 'string') {
+      pkg.main = main;
+    }
+    if (typeof module === 'string') {
+      pkg.module = module;
+    }
+    const typesEntry = typeof types === 'string' ? types : typings;
+    if (typeof typesEntry === 'string') {
+      pkg.types = typesEntry;
+    }
+    if (exports !== undefined) {
+      pkg.exports = exports as PackageExports;
+    }
+    const subpathImports = asRecord(imports);
+    if (subpathImports) {
+      pkg.imports = subpathImports as PackageImports;
+    }
+    return pkg;
+  }
+}
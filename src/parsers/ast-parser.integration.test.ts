@@ -250,10 +250,8 @@ export const broken = ;
       expect(result.classes).toHaveLength(1);
       expect(result.classes[0].name).toBe('EventManager');
 
-      // Verify functions (arrow functions are parsed as constants)
-      const functionConstants = result.constants.filter(c => c.initKind === 'function');
-      expect(functionConstants.length).toBeGreaterThanOrEqual(1);
-      const functionNames = functionConstants.map(f => f.name);
+      // Verify functions (arrow functions are promoted to functions)
+      const functionNames = result.functions.map(f => f.name);
       expect(functionNames).toContain('createEventManager');
 
       // Verify constants
@@ -274,10 +272,9 @@ export const broken = ;
       expect(importSources).toContain('react');
       expect(importSources).toContain('../types');
 
-      // Verify functions (React components can be functions or arrow functions as constants)
-      const allFunctions = [...result.functions, ...result.constants.filter(c => c.initKind === 'function')];
-      expect(allFunctions.length).toBeGreaterThanOrEqual(2);
-      const functionNames = allFunctions.map(f => f.name);
+      // Verify functions (React components can be function declarations or arrow functions)
+      expect(result.functions.length).toBeGreaterThanOrEqual(2);
+      const functionNames = result.functions.map(f => f.name);
       expect(functionNames).toContain('UserCard');
       expect(functionNames).toContain('createUserList');
     });
@@ -296,6 +293,7 @@ export const broken = ;
       expect(result.dependencies).toEqual([]);
       // Functions might be partially parsed
       expect(result.classes).toEqual([]);
+      expect(result.diagnostics?.[0]).toMatchObject({ message: expect.any(String), line: expect.any(Number) });
     });
 
     it('should handle empty files', async () => {
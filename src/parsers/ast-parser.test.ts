@@ -64,12 +64,16 @@ export class UserService {
       expect(result.imports[0]).toEqual({
         from: 'react',
         kind: 'import',
-        imported: ['Component']
+        imported: ['Component'],
+        bindings: [{ name: 'Component' }],
+        loc: expect.any(Object)
       });
       expect(result.imports[1]).toEqual({
         from: './utils',
         kind: 'import',
-        isDefault: true
+        isDefault: true,
+        defaultName: 'utils',
+        loc: expect.any(Object)
       });
 
       expect(result.functions).toHaveLength(1);
@@ -81,7 +85,9 @@ export class UserService {
         ],
         returnType: 'number',
         isAsync: false,
-        isExported: true
+        isExported: true,
+        complexity: 1,
+        loc: expect.any(Object)
       });
 
       expect(result.classes).toHaveLength(1);
@@ -96,7 +102,8 @@ export class UserService {
         name: 'API_URL',
         type: undefined,
         initKind: 'literal',
-        isExported: true
+        isExported: true,
+        loc: expect.any(Object)
       });
     });
 
@@ -120,12 +127,14 @@ export default Button;
       expect(result.imports[0]).toEqual({
         from: 'react',
         kind: 'import',
-        isDefault: true
+        isDefault: true,
+        defaultName: 'React',
+        loc: expect.any(Object)
       });
 
-      expect(result.constants).toHaveLength(1);
-      expect(result.constants[0].name).toBe('Button');
-      expect(result.constants[0].initKind).toBe('function');
+      expect(result.constants).toHaveLength(0);
+      expect(result.functions).toHaveLength(1);
+      expect(result.functions[0].name).toBe('Button');
     });
 
     it('should extract dynamic imports and require statements', async () => {
@@ -187,18 +196,23 @@ export function deprecated() {}
       expect(exportImports[0]).toEqual({
         from: './utils',
         kind: 'export',
-        imported: ['utils', 'helper']
+        imported: ['utils', 'helper'],
+        bindings: [{ name: 'utils' }, { name: 'helper' }],
+        loc: expect.any(Object)
       });
       
       expect(exportImports[1]).toEqual({
         from: './config',
         kind: 'export',
-        imported: ['Config']
+        imported: ['Config'],
+        bindings: [{ name: 'default', alias: 'Config' }],
+        loc: expect.any(Object)
       });
       
       expect(exportImports[2]).toEqual({
         from: './types',
-        kind: 'export'
+        kind: 'export',
+        loc: expect.any(Object)
       });
     });
 
@@ -318,7 +332,7 @@ const asyncArrow = async (data: unknown) => {
 
       const result = await ASTParser.parseFile(filePath);
 
-      expect(result.functions).toHaveLength(5); // All function declarations including privateFunction
+      expect(result.functions).toHaveLength(7); // All function declarations plus the two arrow functions
 
       const basicFunc = result.functions.find(f => f.name === 'basicFunction');
       expect(basicFunc).toEqual({
@@ -326,7 +340,9 @@ const asyncArrow = async (data: unknown) => {
         params: [{ name: 'name', type: 'string' }],
         returnType: 'void',
         isAsync: false,
-        isExported: true
+        isExported: true,
+        complexity: 1,
+        loc: expect.any(Object)
       });
 
       const asyncFunc = result.functions.find(f => f.name === 'asyncFunction');
@@ -344,10 +360,11 @@ const asyncArrow = async (data: unknown) => {
       const privateFunc = result.functions.find(f => f.name === 'privateFunction');
       expect(privateFunc?.isExported).toBe(false);
 
-      // Arrow functions should be in constants
-      expect(result.constants).toHaveLength(2);
-      const arrowConst = result.constants.find(c => c.name === 'arrowFunction');
-      expect(arrowConst?.initKind).toBe('function');
+      // Arrow functions are promoted to functions
+      const arrowFunc = result.functions.find(f => f.name === 'arrowFunction');
+      expect(arrowFunc?.params).toEqual([{ name: 'x', type: 'number' }]);
+      expect(result.functions.find(f => f.name === 'asyncArrow')?.isAsync).toBe(true);
+      expect(result.constants).toHaveLength(0);
     });
 
     it('should extract various constant types', async () => {
@@ -379,7 +396,7 @@ var variableVar = 'also not exported';
 
       const result = await ASTParser.parseFile(filePath);
 
-      expect(result.constants).toHaveLength(9); // 7 exported const + 2 const (FUNCTION_CONST, CLASS_CONST)
+      expect(result.constants).toHaveLength(8); // 7 exported const + CLASS_CONST (FUNCTION_CONST is a function)
 
       const stringConst = result.constants.find(c => c.name === 'STRING_CONST');
       expect(stringConst?.initKind).toBe('literal');
@@ -391,8 +408,8 @@ var variableVar = 'also not exported';
       const arrayConst = result.constants.find(c => c.name === 'ARRAY_CONST');
       expect(arrayConst?.initKind).toBe('array');
 
-      const functionConst = result.constants.find(c => c.name === 'FUNCTION_CONST');
-      expect(functionConst?.initKind).toBe('function');
+      const functionConst = result.functions.find(f => f.name === 'FUNCTION_CONST');
+      expect(functionConst).toBeDefined();
       expect(functionConst?.isExported).toBe(false);
 
       // let and var should not be included unless exported
@@ -420,6 +437,7 @@ export function broken(
       expect(result.imports[0].from).toBe('react');
       expect(result.functions).toHaveLength(1);
       expect(result.functions[0].name).toBe('broken');
+      expect(result.diagnostics?.length).toBeGreaterThan(0);
     });
 
     it('should handle file read errors gracefully', async () => {
@@ -460,6 +478,35 @@ export function broken(
         expect(result.constants).toBeDefined();
       }
     });
+
+    it('should parse ESM and CommonJS module extensions with the matching script kind', () => {
+      // Angle-bracket type assertions only parse as TypeScript, JSX only as JavaScript
+      const cases = [
+        { filePath: '/test/file.mts', content: 'export const n = <number>value;' },
+        { filePath: '/test/file.cts', content: 'export const n = <number>value;' },
+        { filePath: '/test/file.mjs', content: 'export const el = <div />;' },
+        { filePath: '/test/file.cjs', content: 'const el = <div />;\nmodule.exports = el;' }
+      ];
+
+      for (const { filePath, content } of cases) {
+        const result = ASTParser.parseContent(content, filePath);
+
+        expect(result.diagnostics, filePath).toBeUndefined();
+      }
+    });
+
+    it('should record the content hash, size and mtime of the file', async () => {
+      (mockFs.promises.stat as ReturnType<typeof vi.fn>).mockResolvedValue({ size: 17, mtimeMs: 1700000000000.5 });
+      (mockFs.promises.readFile as ReturnType<typeof vi.fn>).mockResolvedValue('export const a = 1;');
+
+      const result = await ASTParser.parseFile('/test/stamped.ts');
+
+      expect(result.hash).toBe(ASTParser.hashContent('export const a = 1;'));
+      expect(result.hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(result.size).toBe(17);
+      expect(result.mtime).toBe(1700000000000.5);
+      expect(ASTParser.hashContent('export const a = 2;')).not.toBe(result.hash);
+    });
   });
 
   describe('parseContent', () => {
@@ -486,7 +533,8 @@ export function testFunction(): void {}
         dependencies: [],
         functions: [],
         classes: [],
-        constants: []
+        constants: [],
+        metrics: expect.objectContaining({ codeLines: 0, commentLines: 0, maxNesting: 0 })
       };
 
       expect(emptyResult).toEqual(expectedEmptyStructure);
@@ -494,6 +542,1060 @@ export function testFunction(): void {}
     });
   });
 
+  describe('type declarations', () => {
+    it('should extract interfaces with members, extends clauses and generics', () => {
+      const content = `
+export interface UserProps<T extends object = {}> extends BaseProps, Timestamped {
+  readonly id: string;
+  data?: T;
+  greet(message: string): void;
+  [key: string]: unknown;
+  (value: number): boolean;
+}
+
+interface Internal {}
+      `;
+
+      const result = ASTParser.parseContent(content, '/test/types.ts');
+
+      expect(result.interfaces).toHaveLength(2);
+      expect(result.interfaces?.[0]).toMatchObject({
+        name: 'UserProps',
+        isExported: true,
+        typeParams: [{ name: 'T', constraint: 'object', default: '{}' }],
+        extends: ['BaseProps', 'Timestamped'],
+        members: [
+          { name: 'id', kind: 'property', type: 'string', readonly: true },
+          { name: 'data', kind: 'property', type: 'T', optional: true },
+          { name: 'greet', kind: 'method', params: [{ name: 'message', type: 'string' }], type: 'void' },
+          { name: '[key: string]', kind: 'index', type: 'unknown' },
+          { name: '()', kind: 'call', params: [{ name: 'value', type: 'number' }], type: 'boolean' }
+        ]
+      });
+      expect(result.interfaces?.[1]).toMatchObject({
+        name: 'Internal',
+        isExported: false,
+        members: []
+      });
+    });
+
+    it('should extract type aliases with generic parameters', () => {
+      const content = `
+export type Status = 'active' | 'inactive';
+type Box<T> = { value: T };
+      `;
+
+      const result = ASTParser.parseContent(content, '/test/types.ts');
+
+      expect(result.types).toMatchObject([
+        { name: 'Status', isExported: true, type: "'active' | 'inactive'" },
+        { name: 'Box', isExported: false, typeParams: [{ name: 'T' }], type: '{ value: T }' }
+      ]);
+    });
+
+    it('should extract enums including const enums and initializers', () => {
+      const content = `
+export enum Color { Red = 'red', Green = 'green' }
+const enum Direction { Up, Down }
+      `;
+
+      const result = ASTParser.parseContent(content, '/test/enums.ts');
+
+      expect(result.enums).toMatchObject([
+        {
+          name: 'Color',
+          isExported: true,
+          members: [{ name: 'Red', value: "'red'" }, { name: 'Green', value: "'green'" }]
+        },
+        {
+          name: 'Direction',
+          isExported: false,
+          isConst: true,
+          members: [{ name: 'Up' }, { name: 'Down' }]
+        }
+      ]);
+    });
+
+    it('should omit type declaration collections when none are declared', () => {
+      const result = ASTParser.parseContent('export const x = 1;', '/test/plain.ts');
+
+      expect(result.interfaces).toBeUndefined();
+      expect(result.types).toBeUndefined();
+      expect(result.enums).toBeUndefined();
+    });
+  });
+
+  describe('class members', () => {
+    it('should record the constructor and merge parameter properties into properties', () => {
+      const content = `
+export class UserService {
+  private cache = new Map();
+
+  constructor(private readonly repo: UserRepo, protected logger: Logger, @Inject(CONFIG) public config: Config, plain: number) {}
+}
+`;
+
+      const result = ASTParser.parseContent(content, '/test/user.service.ts');
+      const cls = result.classes[0];
+
+      expect(cls.ctor).toEqual({
+        params: [
+          { name: 'repo', type: 'UserRepo' },
+          { name: 'logger', type: 'Logger' },
+          { name: 'config', type: 'Config' },
+          { name: 'plain', type: 'number' }
+        ],
+        loc: expect.any(Object)
+      });
+      expect(cls.properties.map(p => p.name)).toEqual(['cache', 'repo', 'logger', 'config']);
+      expect(cls.properties[1]).toMatchObject({ type: 'UserRepo', isPrivate: true, isReadonly: true, isParameterProperty: true });
+      expect(cls.properties[2]).toMatchObject({ isProtected: true, isParameterProperty: true });
+      expect(cls.properties[3].decorators).toEqual([{ name: 'Inject', args: [] }]);
+      expect(cls.methods).toHaveLength(0);
+    });
+
+    it('should use the implementation signature of overloaded constructors', () => {
+      const content = `
+class Point {
+  private constructor(x: number);
+  private constructor(x: number, y?: number) {}
+}
+`;
+
+      const result = ASTParser.parseContent(content, '/test/point.ts');
+
+      expect(result.classes[0].ctor).toMatchObject({
+        params: [{ name: 'x', type: 'number' }, { name: 'y', type: 'number', optional: true }],
+        isPrivate: true
+      });
+    });
+
+    it('should record getters, setters and index signatures as distinct member kinds', () => {
+      const content = `
+class Settings {
+  [key: string]: unknown;
+  static readonly [index: number]: string;
+
+  get theme(): string { return ''; }
+  set theme(value: string) {}
+  reset(): void {}
+}
+`;
+
+      const result = ASTParser.parseContent(content, '/test/settings.ts');
+      const cls = result.classes[0];
+
+      expect(cls.ctor).toBeUndefined();
+      expect(cls.methods.map(m => [m.name, m.kind])).toEqual([
+        ['theme', 'get'],
+        ['theme', 'set'],
+        ['reset', undefined]
+      ]);
+      expect(cls.methods[0].returnType).toBe('string');
+      expect(cls.methods[1].params).toEqual([{ name: 'value', type: 'string' }]);
+      expect(cls.properties).toMatchObject([
+        { name: '[key: string]', kind: 'index', type: 'unknown' },
+        { name: '[index: number]', kind: 'index', type: 'string', isStatic: true, isReadonly: true }
+      ]);
+    });
+  });
+
+  describe('decorators', () => {
+    it('should record decorators with literal arguments on classes, methods and properties', () => {
+      const content = `
+@Controller('/users')
+@Injectable
+export class UsersController {
+  @Inject(TOKEN) private readonly service: UsersService;
+
+  @Get(':id')
+  @Roles(['admin', 'owner'], { strict: true })
+  findOne(@Param('id') id: string) {}
+
+  @ORM.Column({ type: 'varchar', length: -1 })
+  name: string;
+
+  plain(): void {}
+}
+`;
+
+      const result = ASTParser.parseContent(content, '/test/users.controller.ts');
+      const cls = result.classes[0];
+
+      expect(cls.decorators).toEqual([
+        { name: 'Controller', args: ["'/users'"] },
+        { name: 'Injectable' }
+      ]);
+      expect(cls.methods[0].decorators).toEqual([
+        { name: 'Get', args: ["':id'"] },
+        { name: 'Roles', args: ["['admin', 'owner']", '{ strict: true }'] }
+      ]);
+      expect(cls.methods[1].decorators).toBeUndefined();
+      expect(cls.properties[0].decorators).toEqual([{ name: 'Inject', args: [] }]);
+      expect(cls.properties[1].decorators).toEqual([
+        { name: 'ORM.Column', args: ["{ type: 'varchar', length: -1 }"] }
+      ]);
+    });
+  });
+
+  describe('source locations', () => {
+    it('should record 1-based start and end positions for each symbol', () => {
+      const content = [
+        "import { a } from './a';",
+        '',
+        'export function run(x: number): number {',
+        '  return x;',
+        '}',
+        '',
+        'export class Service {',
+        '  name = "svc";',
+        '  start(): void {}',
+        '}',
+        '',
+        'export const LIMIT = 10;',
+        'export interface Options { debug?: boolean }'
+      ].join('\n');
+
+      const result = ASTParser.parseContent(content, '/test/locations.ts');
+
+      expect(result.imports[0].loc).toEqual({ line: 1, column: 1, endLine: 1, endColumn: 25 });
+      expect(result.functions[0].loc).toEqual({ line: 3, column: 1, endLine: 5, endColumn: 2 });
+      expect(result.classes[0].loc).toEqual({ line: 7, column: 1, endLine: 10, endColumn: 2 });
+      expect(result.classes[0].properties[0].loc?.line).toBe(8);
+      expect(result.classes[0].methods[0].loc).toEqual({ line: 9, column: 3, endLine: 9, endColumn: 19 });
+      expect(result.constants[0].loc).toEqual({ line: 12, column: 14, endLine: 12, endColumn: 24 });
+      expect(result.interfaces?.[0].loc?.line).toBe(13);
+      expect(result.interfaces?.[0].members[0].loc?.line).toBe(13);
+    });
+
+    it('should start locations at the first token rather than leading comments', () => {
+      const content = '// comment\n/** docs */\nexport function documented(): void {}';
+
+      const result = ASTParser.parseContent(content, '/test/comments.ts');
+
+      expect(result.functions[0].loc?.line).toBe(3);
+    });
+  });
+
+  describe('JSDoc summaries', () => {
+    it('should capture the first sentence and tags for documented symbols', () => {
+      const content = `
+/**
+ * Formats a date for display. Uses the current locale.
+ *
+ * @param date - Date to format
+ * @param pattern Output pattern
+ * @deprecated Use formatDateTime instead
+ */
+export function formatDate(date: Date, pattern: string): string { return ''; }
+
+/** Manages user sessions */
+export class SessionStore {
+  /**
+   * Clears all sessions.
+   * @internal
+   */
+  clear(): void {}
+}
+
+/** Maximum retries before giving up. */
+export const MAX_RETRIES = 3;
+`;
+
+      const result = ASTParser.parseContent(content, '/test/docs.ts');
+
+      expect(result.functions[0].doc).toEqual({
+        summary: 'Formats a date for display.',
+        deprecated: 'Use formatDateTime instead',
+        params: { date: 'Date to format', pattern: 'Output pattern' }
+      });
+      expect(result.classes[0].doc).toEqual({ summary: 'Manages user sessions' });
+      expect(result.classes[0].methods[0].doc).toEqual({ summary: 'Clears all sessions.', internal: true });
+      expect(result.constants[0].doc).toEqual({ summary: 'Maximum retries before giving up.' });
+    });
+
+    it('should record bare @deprecated tags and stop summaries at paragraph breaks', () => {
+      const content = `
+/**
+ * Legacy entry point
+ *
+ * Kept for backwards compatibility
+ * @deprecated
+ */
+export function legacy(): void {}
+`;
+
+      const result = ASTParser.parseContent(content, '/test/legacy.ts');
+
+      expect(result.functions[0].doc).toEqual({ summary: 'Legacy entry point', deprecated: true });
+    });
+
+    it('should ignore plain comments and leave undocumented symbols without doc', () => {
+      const content = `
+// Not a JSDoc comment
+export function plain(): void {}
+/* Block comment */
+export const VALUE = 1;
+`;
+
+      const result = ASTParser.parseContent(content, '/test/plain.ts');
+
+      expect(result.functions[0].doc).toBeUndefined();
+      expect(result.constants[0].doc).toBeUndefined();
+    });
+  });
+
+  describe('environment variables', () => {
+    it('should record env reads with literal fallbacks', () => {
+      const content = [
+        "const port = Number(process.env.PORT ?? '3000');",
+        "const debug = (process.env['DEBUG']) || false;",
+        'const url = import.meta.env.VITE_API_URL;',
+        'const { SECRET, REGION = "eu-west-1", ...rest } = process.env;',
+        'process.env.GENERATED = "x";',
+        'const again = process.env.PORT || 8080;'
+      ].join('\n');
+
+      const result = ASTParser.parseContent(content, '/test/config.ts');
+
+      expect(result.env).toEqual([
+        { name: 'PORT', default: '3000', loc: { line: 1, column: 21, endLine: 1, endColumn: 37 } },
+        { name: 'DEBUG', default: 'false', loc: expect.objectContaining({ line: 2 }) },
+        { name: 'VITE_API_URL', loc: expect.objectContaining({ line: 3 }) },
+        { name: 'SECRET', loc: expect.objectContaining({ line: 4 }) },
+        { name: 'REGION', default: 'eu-west-1', loc: expect.objectContaining({ line: 4 }) }
+      ]);
+    });
+
+    it('should ignore non-literal fallbacks and other env objects', () => {
+      const content = 'const a = process.env.A ?? fallback();\nconst b = config.env.B;';
+
+      const result = ASTParser.parseContent(content, '/test/config.ts');
+
+      expect(result.env).toEqual([{ name: 'A', loc: expect.anything() }]);
+    });
+  });
+
+  describe('HTTP routes', () => {
+    it('should record routes declared in the file', () => {
+      const content = [
+        "import express from 'express';",
+        'const app = express();',
+        "app.get('/health', (req, res) => res.send('ok'));"
+      ].join('\n');
+
+      const result = ASTParser.parseContent(content, '/test/server.ts');
+
+      expect(result.routes).toEqual([
+        { method: 'GET', path: '/health', loc: { line: 3, column: 1, endLine: 3, endColumn: 49 } }
+      ]);
+      expect(ASTParser.parseContent('export const a = 1;', '/test/a.ts').routes).toBeUndefined();
+    });
+  });
+
+  describe('test files', () => {
+    it('should recognize test files by name', () => {
+      expect(ASTParser.isTestFile('src/utils.test.ts')).toBe(true);
+      expect(ASTParser.isTestFile('src/Button.spec.tsx')).toBe(true);
+      expect(ASTParser.isTestFile('src/loader.test.mjs')).toBe(true);
+      expect(ASTParser.isTestFile('src/test-utils.ts')).toBe(false);
+      expect(ASTParser.isTestFile('src/contest.ts')).toBe(false);
+    });
+
+    it('should record the suite tree of describe/it/test blocks', () => {
+      const content = [
+        "import { describe, it, expect } from 'vitest';",
+        "describe('UserService', () => {",
+        "  beforeEach(() => {});",
+        "  it('creates users', () => {",
+        "    expect(run('nested')).toBe(true);",
+        '  });',
+        "  describe.skip('removal', () => {",
+        "    test.todo('soft deletes');",
+        '  });',
+        "  it.each([1, 2])('handles %i', (n) => {});",
+        '});',
+        "test('standalone', async () => {});"
+      ].join('\n');
+
+      const result = ASTParser.parseContent(content, '/test/user.test.ts');
+
+      expect(result.tests).toMatchObject([
+        {
+          kind: 'suite',
+          name: 'UserService',
+          loc: { line: 2 },
+          children: [
+            { kind: 'test', name: 'creates users', loc: { line: 4 } },
+            { kind: 'suite', name: 'removal', modifier: 'skip', children: [{ kind: 'test', name: 'soft deletes', modifier: 'todo' }] },
+            { kind: 'test', name: 'handles %i', modifier: 'each' }
+          ]
+        },
+        { kind: 'test', name: 'standalone' }
+      ]);
+      expect(result.tests?.[0].children?.[0].children).toBeUndefined();
+    });
+
+    it('should keep non-literal titles as source text', () => {
+      const content = 'describe(UserService.name, () => { it(`works`, () => {}); });';
+
+      const result = ASTParser.parseContent(content, '/test/user.spec.ts');
+
+      expect(result.tests).toMatchObject([
+        { kind: 'suite', name: 'UserService.name', children: [{ kind: 'test', name: 'works' }] }
+      ]);
+    });
+
+    it('should not record tests for regular files', () => {
+      const result = ASTParser.parseContent("describe('x', () => {});", '/test/helpers.ts');
+
+      expect(result.tests).toBeUndefined();
+    });
+  });
+
+  describe('React components and hooks', () => {
+    it('should classify PascalCase functions returning JSX as components', () => {
+      const content = [
+        "import type { ReactNode } from 'react';",
+        'export function Card({ title }: CardProps) {',
+        '  const render = () => <span />;',
+        '  if (!title) return null;',
+        '  return (<div>{title}</div>);',
+        '}',
+        'export const Badge = (props: BadgeProps) => props.count > 0 && <b>{props.count}</b>;',
+        'export const Layout = (): ReactNode => renderLayout();',
+        'export function Helper() { return () => <i />; }',
+        'export function format() { return <p />; }'
+      ].join('\n');
+
+      const result = ASTParser.parseContent(content, '/test/Card.tsx');
+
+      expect(result.functions.slice(0, 3)).toMatchObject([
+        { name: 'Card', kind: 'component', propsType: 'CardProps' },
+        { name: 'Badge', kind: 'component', propsType: 'BadgeProps' },
+        { name: 'Layout', kind: 'component' }
+      ]);
+      expect(result.functions[3]).toMatchObject({ name: 'Helper' });
+      expect(result.functions[3].kind).toBeUndefined();
+      expect(result.functions[4].kind).toBeUndefined();
+    });
+
+    it('should classify use* functions as hooks', () => {
+      const content = [
+        'export function useAuth(): AuthState { return useContext(AuthContext); }',
+        'export const useToggle = (initial = false) => useState(initial);',
+        'export const user = () => null;'
+      ].join('\n');
+
+      const result = ASTParser.parseContent(content, '/test/hooks.ts');
+
+      expect(result.functions.map(f => f.kind)).toEqual(['hook', 'hook', undefined]);
+    });
+
+    it('should treat memo and forwardRef wrappers as components', () => {
+      const content = [
+        "import React, { memo, forwardRef } from 'react';",
+        'export const Input = forwardRef<HTMLInputElement, InputProps>((props, ref) => <input ref={ref} />);',
+        'export const Row = React.memo(function Row(props: RowProps) { return <tr />; });',
+        'export const Item = memo(ListItem);',
+        'export const Fancy = memo(forwardRef((props: FancyProps, ref) => <div />));'
+      ].join('\n');
+
+      const result = ASTParser.parseContent(content, '/test/Input.tsx');
+
+      expect(result.constants).toEqual([]);
+      expect(result.functions).toMatchObject([
+        { name: 'Input', kind: 'component', propsType: 'InputProps' },
+        { name: 'Row', kind: 'component', propsType: 'RowProps' },
+        { name: 'Item', kind: 'component', params: [] },
+        { name: 'Fancy', kind: 'component', propsType: 'FancyProps' }
+      ]);
+      expect(result.exports?.map(e => e.kind)).toEqual(['function', 'function', 'function', 'function']);
+    });
+
+    it('should take the props type from FC annotations', () => {
+      const content = 'export const Header: React.FC<HeaderProps> = ({ title }) => createHeader(title);';
+
+      const result = ASTParser.parseContent(content, '/test/Header.tsx');
+
+      expect(result.functions[0]).toMatchObject({ name: 'Header', kind: 'component', propsType: 'HeaderProps' });
+    });
+  });
+
+  describe('single-file components', () => {
+    it('should extract declarations from Vue script blocks with original line numbers', () => {
+      const content = `<template>
+  <Child :msg="msg" />
+</template>
+
+<script setup lang="ts">
+import Child from './Child.vue';
+const msg = 'hello';
+function onClick(event: MouseEvent): void {}
+</script>
+
+<style scoped>
+.button { color: red; }
+</style>
+`;
+
+      const result = ASTParser.parseContent(content, '/test/Hello.vue');
+
+      expect(result.imports).toEqual([
+        expect.objectContaining({ from: './Child.vue', defaultName: 'Child', loc: expect.objectContaining({ line: 6 }) })
+      ]);
+      expect(result.functions[0]).toMatchObject({ name: 'onClick', params: [{ name: 'event', type: 'MouseEvent' }], loc: { line: 8 } });
+      expect(result.constants.map(c => c.name)).toEqual(['msg']);
+      expect(result.diagnostics).toBeUndefined();
+    });
+
+    it('should extract Svelte module and instance scripts', () => {
+      const content = `<script context="module">
+  export const prerender = true;
+</script>
+<script>
+  import Button from './Button.svelte';
+  export let name;
+</script>
+<h1>Hello {name}!</h1>`;
+
+      const result = ASTParser.parseContent(content, '/test/Page.svelte');
+
+      expect(result.imports.map(i => i.from)).toEqual(['./Button.svelte']);
+      expect(result.exports?.map(e => e.name)).toEqual(['prerender', 'name']);
+    });
+
+    it('should extract Astro frontmatter and client scripts', () => {
+      const content = `---
+import Layout from '../layouts/Layout.astro';
+interface Props { title: string }
+---
+<Layout><h1>Hi</h1></Layout>
+<script>
+  import { init } from '../scripts/init';
+  init();
+</script>`;
+
+      const result = ASTParser.parseContent(content, '/test/index.astro');
+
+      expect(result.imports.map(i => i.from)).toEqual(['../layouts/Layout.astro', '../scripts/init']);
+      expect(result.interfaces?.[0]?.name).toBe('Props');
+      expect(result.diagnostics).toBeUndefined();
+    });
+  });
+
+  describe('syntax errors', () => {
+    it('should keep declarations around a syntax error and record diagnostics', () => {
+      const content = `import {
+  readConfig,
+  writeConfig
+} from './config';
+export const broken = ;
+export function valid(input: string): string {
+  return input;
+}
+`;
+
+      const result = ASTParser.parseContent(content, '/test/partial.ts');
+
+      expect(result.imports).toEqual([
+        expect.objectContaining({ from: './config', imported: ['readConfig', 'writeConfig'] })
+      ]);
+      expect(result.functions.map(f => f.name)).toEqual(['valid']);
+      expect(result.constants.map(c => c.name)).toEqual(['broken']);
+      expect(result.diagnostics).toEqual([
+        { message: 'Expression expected.', line: 5, column: 23 }
+      ]);
+    });
+
+    it('should omit diagnostics for files that parse cleanly', () => {
+      const result = ASTParser.parseContent('export const ok = 1;', '/test/clean.ts');
+
+      expect(result.diagnostics).toBeUndefined();
+    });
+  });
+
+  describe('namespaces and ambient declarations', () => {
+    it('should record namespace members and nested namespaces', () => {
+      const content = `
+/** Validation helpers. */
+export namespace Validation {
+  export function isEmail(value: string): boolean { return true; }
+  export const MAX_LENGTH = 255;
+  class Cache {}
+  export namespace Rules {
+    export interface Rule { name: string }
+  }
+}
+namespace App.Models.User {
+  export type Id = string;
+}
+`;
+
+      const result = ASTParser.parseContent(content, '/test/namespaces.ts');
+
+      expect(result.functions).toHaveLength(0);
+      expect(result.constants).toHaveLength(0);
+      expect(result.namespaces).toHaveLength(2);
+      expect(result.namespaces?.[0]).toMatchObject({
+        name: 'Validation',
+        kind: 'namespace',
+        isExported: true,
+        doc: { summary: 'Validation helpers.' },
+        loc: { line: 3 },
+        functions: [{ name: 'isEmail', isExported: true }],
+        constants: [{ name: 'MAX_LENGTH', isExported: true }],
+        classes: [{ name: 'Cache', isExported: false }],
+        namespaces: [{ name: 'Rules', kind: 'namespace', interfaces: [{ name: 'Rule' }] }]
+      });
+      expect(result.namespaces?.[0]?.isAmbient).toBeUndefined();
+      expect(result.namespaces?.[1]).toMatchObject({
+        name: 'App.Models.User',
+        isExported: false,
+        types: [{ name: 'Id', type: 'string' }]
+      });
+      expect(result.exports).toEqual([
+        expect.objectContaining({ name: 'Validation', kind: 'namespace' })
+      ]);
+    });
+
+    it('should flag ambient module declarations and their members', () => {
+      const content = `
+declare module 'config-loader' {
+  import { Schema } from './schema';
+  export function load(path: string): Config;
+  export const version: string;
+  export const Item = memo(ListItem);
+}
+declare module '*.svg';
+declare function legacy(): void;
+declare class Widget {}
+declare enum Mode { Fast, Slow }
+`;
+
+      const result = ASTParser.parseContent(content, '/test/ambient.ts');
+
+      expect(result.namespaces).toEqual([
+        expect.objectContaining({ name: 'config-loader', kind: 'module', isAmbient: true }),
+        expect.objectContaining({ name: '*.svg', kind: 'module', isAmbient: true })
+      ]);
+      expect(result.namespaces?.[0]?.isAugmentation).toBeUndefined();
+      expect(result.namespaces?.[0]?.functions?.[0]).toMatchObject({ name: 'load', isAmbient: true });
+      expect(result.namespaces?.[0]?.constants?.[0]).toMatchObject({ name: 'version', isAmbient: true });
+      expect(result.namespaces?.[0]?.functions?.[1]).toMatchObject({ name: 'Item', kind: 'component', isAmbient: true });
+      expect(result.namespaces?.[1]?.functions).toBeUndefined();
+      expect(result.imports).toEqual([expect.objectContaining({ from: './schema', imported: ['Schema'] })]);
+      expect(result.functions[0]).toMatchObject({ name: 'legacy', isAmbient: true });
+      expect(result.classes[0]).toMatchObject({ name: 'Widget', isAmbient: true });
+      expect(result.enums?.[0]).toMatchObject({ name: 'Mode', isAmbient: true });
+    });
+
+    it('should flag global and module augmentations', () => {
+      const content = `
+import type { User } from './user';
+
+declare global {
+  interface Window { analytics: Analytics }
+}
+declare module 'express' {
+  interface Request { user?: User }
+}
+export {};
+`;
+
+      const result = ASTParser.parseContent(content, '/test/augment.ts');
+
+      expect(result.namespaces).toEqual([
+        expect.objectContaining({ name: 'global', kind: 'global', isAmbient: true, isAugmentation: true }),
+        expect.objectContaining({ name: 'express', kind: 'module', isAmbient: true, isAugmentation: true })
+      ]);
+      expect(result.namespaces?.[0]?.interfaces?.[0]?.name).toBe('Window');
+    });
+
+    it('should treat every declaration in a .d.ts file as ambient', () => {
+      const content = `
+export function helper(): void;
+export class Service {}
+`;
+
+      const result = ASTParser.parseContent(content, '/test/types.d.ts');
+
+      expect(result.functions[0]?.isAmbient).toBe(true);
+      expect(result.classes[0]?.isAmbient).toBe(true);
+    });
+  });
+
+  describe('function overloads', () => {
+    it('should collapse overload signatures into a single entry', () => {
+      const content = `
+/** Parses configuration input. */
+export function parse(input: string): Config;
+export function parse<T extends object = Config>(input: Buffer, schema: Schema<T>): T;
+export function parse(input: string | Buffer, schema?: Schema<unknown>): unknown {
+  return {};
+}
+export function other(): void {}
+`;
+
+      const result = ASTParser.parseContent(content, '/test/overloads.ts');
+
+      expect(result.functions.map(f => f.name)).toEqual(['parse', 'other']);
+      const parse = result.functions[0];
+      expect(parse.overloads).toEqual([
+        { params: [{ name: 'input', type: 'string' }], returnType: 'Config' },
+        {
+          params: [{ name: 'input', type: 'Buffer' }, { name: 'schema', type: 'Schema<T>' }],
+          returnType: 'T',
+          typeParams: [{ name: 'T', constraint: 'object', default: 'Config' }]
+        }
+      ]);
+      expect(parse.params).toEqual([
+        { name: 'input', type: 'string | Buffer' },
+        { name: 'schema', type: 'Schema<unknown>', optional: true }
+      ]);
+      expect(parse.returnType).toBe('unknown');
+      expect(parse.typeParams).toBeUndefined();
+      expect(parse.doc?.summary).toBe('Parses configuration input.');
+      expect(parse.loc).toMatchObject({ line: 3, endLine: 7 });
+      expect(result.exports?.filter(e => e.name === 'parse')).toHaveLength(1);
+    });
+
+    it('should collapse ambient overloads without an implementation', () => {
+      const content = `
+declare function on(event: 'open'): void;
+declare function on(event: 'close', code: number): void;
+declare function single(value: string): string;
+`;
+
+      const result = ASTParser.parseContent(content, '/test/ambient.d.ts');
+
+      expect(result.functions).toHaveLength(2);
+      expect(result.functions[0].overloads).toHaveLength(2);
+      expect(result.functions[0].params).toEqual([{ name: 'event', type: "'open'" }]);
+      expect(result.functions[1].overloads).toBeUndefined();
+    });
+
+    it('should collapse method overloads into a single entry', () => {
+      const content = `
+export class Parser {
+  /** Parses input. */
+  parse(input: string): Config;
+  parse(input: Buffer): Config;
+  @Trace()
+  parse(input: string | Buffer): Config {
+    return {};
+  }
+  static parse(input: string): Parser {
+    return new Parser();
+  }
+  other(): void {}
+}
+`;
+
+      const result = ASTParser.parseContent(content, '/test/overloads.ts');
+      const methods = result.classes[0]?.methods ?? [];
+
+      expect(methods.map(m => m.name)).toEqual(['parse', 'parse', 'other']);
+      expect(methods[0]?.overloads).toEqual([
+        { params: [{ name: 'input', type: 'string' }], returnType: 'Config' },
+        { params: [{ name: 'input', type: 'Buffer' }], returnType: 'Config' }
+      ]);
+      expect(methods[0]?.params).toEqual([{ name: 'input', type: 'string | Buffer' }]);
+      expect(methods[0]?.decorators).toEqual([expect.objectContaining({ name: 'Trace' })]);
+      expect(methods[0]?.doc?.summary).toBe('Parses input.');
+      expect(methods[0]?.loc).toMatchObject({ line: 4, endLine: 9 });
+      expect(methods[1]).toMatchObject({ isStatic: true });
+      expect(methods[1]?.overloads).toBeUndefined();
+    });
+  });
+
+  describe('function-valued constants', () => {
+    it('should promote arrow functions to full function signatures', () => {
+      const content = `
+/** Tracks a value over time. */
+export const useTracked = async <T extends object = {}>(initial: T, label?: string): Promise<T> => initial;
+`;
+
+      const result = ASTParser.parseContent(content, '/test/hooks.ts');
+
+      expect(result.constants).toHaveLength(0);
+      expect(result.functions).toEqual([{
+        name: 'useTracked',
+        params: [
+          { name: 'initial', type: 'T' },
+          { name: 'label', type: 'string', optional: true }
+        ],
+        returnType: 'Promise<T>',
+        typeParams: [{ name: 'T', constraint: 'object', default: '{}' }],
+        isAsync: true,
+        isExported: true,
+        kind: 'hook',
+        complexity: 1,
+        doc: { summary: 'Tracks a value over time.' },
+        loc: { line: 3, column: 14, endLine: 3, endColumn: 107 }
+      }]);
+    });
+
+    it('should promote function expressions including generators', () => {
+      const content = `
+const parse = function(input: string): number { return 1; };
+export const ids = function* (): Generator<number> { yield 1; };
+const wrapped = ((value: string) => value);
+`;
+
+      const result = ASTParser.parseContent(content, '/test/expressions.ts');
+
+      expect(result.functions.map(f => f.name)).toEqual(['parse', 'ids', 'wrapped']);
+      expect(result.functions[0].returnType).toBe('number');
+      expect(result.functions[0].isExported).toBe(false);
+      expect(result.functions[1].isGenerator).toBe(true);
+      expect(result.functions[2].params).toEqual([{ name: 'value', type: 'string' }]);
+    });
+
+    it('should keep non-function initializers and non-exported let functions out of functions', () => {
+      const content = `
+export const handlers = { onClick: () => {} };
+let local = () => {};
+`;
+
+      const result = ASTParser.parseContent(content, '/test/mixed.ts');
+
+      expect(result.functions).toHaveLength(0);
+      expect(result.constants.map(c => c.name)).toEqual(['handlers']);
+    });
+  });
+
+  describe('type-only imports and exports', () => {
+    it('should flag import type statements and inline type bindings', () => {
+      const content = `
+import type { User } from './user';
+import { type Role, createRole } from './role';
+import { type Id, type Name } from './ids';
+import type Config from './config';
+import * as helpers from './helpers';
+import './side-effect';
+`;
+
+      const result = ASTParser.parseContent(content, '/test/types.ts');
+
+      expect(result.imports[0]).toMatchObject({ isTypeOnly: true, bindings: [{ name: 'User', isTypeOnly: true }] });
+      expect(result.imports[1].isTypeOnly).toBeUndefined();
+      expect(result.imports[1].bindings).toEqual([{ name: 'Role', isTypeOnly: true }, { name: 'createRole' }]);
+      expect(result.imports[2].isTypeOnly).toBe(true);
+      expect(result.imports[3].isTypeOnly).toBe(true);
+      expect(result.imports[4].isTypeOnly).toBeUndefined();
+      expect(result.imports[5].isTypeOnly).toBeUndefined();
+    });
+
+    it('should flag type-only re-exports', () => {
+      const content = `
+export type { Props } from './props';
+export { type State, reducer } from './state';
+export { type Action } from './action';
+`;
+
+      const result = ASTParser.parseContent(content, '/test/barrel.ts');
+
+      expect(result.imports.map(i => i.isTypeOnly)).toEqual([true, undefined, true]);
+      expect(result.imports[1].bindings).toEqual([{ name: 'State', isTypeOnly: true }, { name: 'reducer' }]);
+    });
+  });
+
+  describe('import aliases', () => {
+    it('should record original names, aliases, default and namespace bindings', () => {
+      const content = `
+import Formatter, { formatAuto as format, toDSL } from './formatter';
+import * as path from 'node:path';
+export { toTree as renderTree } from './formatter';
+export * as formatters from './formatter';
+`;
+
+      const result = ASTParser.parseContent(content, '/test/aliases.ts');
+
+      expect(result.imports[0]).toMatchObject({
+        isDefault: true,
+        defaultName: 'Formatter',
+        imported: ['format', 'toDSL'],
+        bindings: [{ name: 'formatAuto', alias: 'format' }, { name: 'toDSL' }]
+      });
+      expect(result.imports[1]).toMatchObject({ isNamespace: true, namespaceName: 'path' });
+      expect(result.imports[2].bindings).toEqual([{ name: 'toTree', alias: 'renderTree' }]);
+      expect(result.imports[3]).toMatchObject({ isNamespace: true, namespaceName: 'formatters' });
+    });
+  });
+
+  describe('exports table', () => {
+    it('should record exported declarations with their kind', () => {
+      const content = `
+export function run(): void {}
+export class Service {}
+export const LIMIT = 10, handler = () => {};
+export interface Options {}
+export type Mode = 'a' | 'b';
+export enum Color { Red }
+function hidden(): void {}
+`;
+
+      const result = ASTParser.parseContent(content, '/test/decls.ts');
+
+      expect(result.exports).toMatchObject([
+        { name: 'run', local: 'run', kind: 'function' },
+        { name: 'Service', local: 'Service', kind: 'class' },
+        { name: 'LIMIT', local: 'LIMIT', kind: 'variable' },
+        { name: 'handler', local: 'handler', kind: 'function' },
+        { name: 'Options', local: 'Options', kind: 'interface', isTypeOnly: true },
+        { name: 'Mode', local: 'Mode', kind: 'type', isTypeOnly: true },
+        { name: 'Color', local: 'Color', kind: 'enum' }
+      ]);
+      expect(result.exports?.some(e => e.name === 'hidden')).toBe(false);
+    });
+
+    it('should distinguish default function and class exports', () => {
+      const named = ASTParser.parseContent('export default function main() {}', '/test/main.ts');
+      const anonymous = ASTParser.parseContent('export default class {}', '/test/anon.ts');
+
+      expect(named.exports).toEqual([{
+        name: 'default',
+        local: 'main',
+        kind: 'function',
+        isDefault: true,
+        loc: expect.any(Object)
+      }]);
+      expect(anonymous.exports).toEqual([{
+        name: 'default',
+        kind: 'class',
+        isDefault: true,
+        loc: expect.any(Object)
+      }]);
+    });
+
+    it('should resolve local export lists, export default and export = against declarations', () => {
+      const content = `
+function parse() {}
+const config = {};
+interface Shape {}
+export { parse as parseConfig, config, type Shape };
+export default config;
+`;
+
+      const result = ASTParser.parseContent(content, '/test/local.ts');
+
+      expect(result.exports).toMatchObject([
+        { name: 'parseConfig', local: 'parse', kind: 'function' },
+        { name: 'config', local: 'config', kind: 'variable' },
+        { name: 'Shape', local: 'Shape', kind: 'interface', isTypeOnly: true },
+        { name: 'default', local: 'config', kind: 'variable', isDefault: true }
+      ]);
+
+      const assigned = ASTParser.parseContent('class Api {}\nexport = Api;', '/test/cjs.ts');
+      expect(assigned.exports).toMatchObject([{ name: 'export=', local: 'Api', kind: 'class' }]);
+      expect(assigned.exports?.[0].isDefault).toBeUndefined();
+
+      const expression = ASTParser.parseContent('export default { a: 1 };', '/test/expr.ts');
+      expect(expression.exports).toMatchObject([{ name: 'default', kind: 'expression', isDefault: true }]);
+    });
+
+    it('should record re-exports with their source module', () => {
+      const content = `
+export * from './all';
+export * as helpers from './helpers';
+export { a as b, default as Widget } from './widget';
+export type { Props } from './types';
+`;
+
+      const result = ASTParser.parseContent(content, '/test/barrel.ts');
+
+      expect(result.exports).toMatchObject([
+        { name: '*', kind: 'reexport', from: './all' },
+        { name: 'helpers', local: '*', kind: 'reexport', from: './helpers' },
+        { name: 'b', local: 'a', kind: 'reexport', from: './widget' },
+        { name: 'Widget', local: 'default', kind: 'reexport', from: './widget' },
+        { name: 'Props', local: 'Props', kind: 'reexport', from: './types', isTypeOnly: true }
+      ]);
+      expect(result.imports.filter(i => i.kind === 'export')).toHaveLength(4);
+    });
+
+    it('should omit the exports table for files without exports', () => {
+      const result = ASTParser.parseContent('const internal = 1;', '/test/private.ts');
+
+      expect(result.exports).toBeUndefined();
+    });
+  });
+
+  describe('code metrics', () => {
+    it('should attach file metrics and function complexity', () => {
+      const content = `
+// Parses a flag
+export function parseFlag(value?: string): boolean {
+  if (!value) return false;
+  return value === 'true' || value === '1';
+}
+
+export const isEmpty = (list: unknown[]) => list.length === 0 ? true : false;
+
+export class Store {
+  get(key: string): string {
+    for (const k of [key]) {
+      if (k) return k;
+    }
+    return '';
+  }
+}
+
+export function overloaded(a: string): string;
+export function overloaded(a: number): number;
+export function overloaded(a: unknown): unknown {
+  return a ?? null;
+}
+`;
+
+      const result = ASTParser.parseContent(content, '/test/metrics.ts');
+
+      expect(result.metrics).toEqual({ lines: 24, codeLines: 18, commentLines: 1, maxNesting: 2 });
+      expect(result.functions.map(f => [f.name, f.complexity])).toEqual([
+        ['parseFlag', 3],
+        ['isEmpty', 2],
+        ['overloaded', 2]
+      ]);
+      expect(result.classes[0]?.methods[0]).toMatchObject({ name: 'get', complexity: 3 });
+    });
+
+    it('should count only the script lines of single-file components', () => {
+      const content = [
+        '<template>',
+        '  <p>{{ label }}</p>',
+        '</template>',
+        '<script setup lang="ts">',
+        '// Displayed label',
+        "const label = 'Hi';",
+        '',
+        'if (label) console.log(label);',
+        '</script>',
+        '<style>',
+        'p { color: red; }',
+        '</style>'
+      ].join('\n');
+
+      const result = ASTParser.parseContent(content, '/test/Label.vue');
+
+      expect(result.metrics).toEqual({ lines: 4, codeLines: 2, commentLines: 1, maxNesting: 1 });
+    });
+
+    it('should not compute complexity for bodiless declarations', () => {
+      const content = `
+declare function external(): void;
+abstract class Base {
+  abstract run(): void;
+}
+`;
+
+      const result = ASTParser.parseContent(content, '/test/ambient.ts');
+
+      expect(result.functions[0]?.complexity).toBeUndefined();
+      expect(result.classes[0]?.methods[0]?.complexity).toBeUndefined();
+    });
+  });
+
   describe('edge cases and complex scenarios', () => {
     it('should handle nested classes and functions', async () => {
       const filePath = '/test/nested.ts';
@@ -546,10 +1648,10 @@ export class Calculator {
 
       expect(result.classes).toHaveLength(1);
       const calculator = result.classes[0];
-      // TypeScript AST includes overload signatures as separate method declarations
-      expect(calculator.methods).toHaveLength(3);
-      // All methods should be named 'add'
-      expect(calculator.methods.every(m => m.name === 'add')).toBe(true);
+      // Overload signatures are collapsed into the implementation's entry
+      expect(calculator.methods).toHaveLength(1);
+      expect(calculator.methods[0]?.name).toBe('add');
+      expect(calculator.methods[0]?.overloads).toHaveLength(2);
     });
 
     it('should handle decorators in classes', async () => {
@@ -701,7 +1803,8 @@ export class DecoratedClass {
           dependencies: [],
           functions: [],
           classes: [],
-          constants: []
+          constants: [],
+          size: 10 * 1024 * 1024
         });
 
         expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('Warning: Skipping AST parsing for oversized file'));
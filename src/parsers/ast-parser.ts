@@ -9,14 +9,33 @@
 
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import * as crypto from 'node:crypto';
 import * as ts from 'typescript';
 import type { 
   FuncSig, 
   ClassInfo, 
   ConstInfo, 
   ImportInfo,
-  FileInfo 
+  FileInfo,
+  InterfaceInfo,
+  InterfaceMember,
+  TypeAliasInfo,
+  EnumInfo,
+  TypeParamInfo,
+  DocInfo,
+  ExportInfo,
+  ImportBinding,
+  DecoratorInfo,
+  FuncOverload,
+  NamespaceInfo,
+  ParseDiagnostic,
+  TestBlock,
+  EnvVarUsage
 } from '../types/index.js';
+import { SFCParser } from './sfc-parser.js';
+import { RouteParser } from './route-parser.js';
+import { MetricsCalculator } from './metrics-calculator.js';
+import { getSourceLocation } from './source-location.js';
 
 /**
  * Maximum file size to parse (1MB in bytes)
@@ -39,6 +58,93 @@ export class FileSizeError extends Error {
   }
 }
 
+/**
+ * Source file with the syntax errors collected by `ts.createSourceFile`.
+ * The compiler API only exposes them through a program, which would mean
+ * creating one per file.
+ */
+type SourceFileWithDiagnostics = ts.SourceFile & {
+  parseDiagnostics?: readonly ts.DiagnosticWithLocation[];
+};
+
+/**
+ * Optional FileInfo collections gathered during the AST walk
+ */
+interface OptionalCollections {
+  interfaces: InterfaceInfo[];
+  types: TypeAliasInfo[];
+  enums: EnumInfo[];
+  exports: ExportInfo[];
+  namespaces: NamespaceInfo[];
+}
+
+/**
+ * React component wrappers (`memo`, `forwardRef`), mapped to the position
+ * of the props type among their type arguments
+ */
+const COMPONENT_WRAPPERS = new Map([['memo', 0], ['forwardRef', 1]]);
+
+/**
+ * Type names that declare a component constant (`React.FC<Props>`)
+ */
+const COMPONENT_TYPES = new Set(['FC', 'FunctionComponent', 'VFC']);
+
+/**
+ * Return type annotations of functions that render JSX
+ */
+const JSX_RETURN_TYPE_PATTERN = /^(React\.)?(JSX\.Element|ReactElement|ReactNode)\b/;
+
+/**
+ * Naming conventions for React hooks and components
+ */
+const HOOK_NAME_PATTERN = /^use[A-Z0-9]/;
+const COMPONENT_NAME_PATTERN = /^[A-Z]/;
+
+/**
+ * Test files by naming convention (`*.test.ts`, `*.spec.tsx`, ...)
+ */
+const TEST_FILE_PATTERN = /\.(test|spec)\.[cm]?[jt]sx?$/;
+
+/**
+ * Test framework callees that declare suites and tests
+ */
+const TEST_CALLEES = new Map<string, TestBlock['kind']>([
+  ['describe', 'suite'],
+  ['suite', 'suite'],
+  ['context', 'suite'],
+  ['it', 'test'],
+  ['test', 'test'],
+  ['specify', 'test']
+]);
+
+/**
+ * Recognized test block variants (`describe.skip`, `it.each(...)`, ...)
+ */
+const TEST_MODIFIERS = new Set(['skip', 'only', 'todo', 'each']);
+
+/**
+ * Quick check for files that cannot read environment variables
+ */
+const ENV_ACCESS_PATTERN = /process\.env|import\.meta\.env/;
+
+/**
+ * A constant initialized with `memo(...)`/`forwardRef(...)`
+ */
+interface ComponentWrapper {
+  /** Wrapped expression (the render function or another component) */
+  inner: ts.Expression | undefined;
+  /** Props type from the wrapper's type arguments (if given) */
+  propsType?: string;
+}
+
+/**
+ * The parts of a function or method entry that overload collapsing reads and updates
+ */
+type OverloadGroup = Pick<
+  FuncSig,
+  'params' | 'returnType' | 'isAsync' | 'isGenerator' | 'typeParams' | 'overloads' | 'complexity' | 'doc' | 'loc'
+>;
+
 export class ASTParser {
   /**
    * Parse a TypeScript/JavaScript file and extract code signatures
@@ -56,13 +162,17 @@ export class ASTParser {
         console.warn(`Warning: Skipping AST parsing for oversized file: ${filePath} (${sizeInMB}MB, limit: 1MB)`);
         console.warn('File exceeds size limit. Returning empty file info.');
         
-        return this.getEmptyFileInfo();
+        return { ...this.getEmptyFileInfo(), size: stats.size, mtime: stats.mtimeMs };
       }
       
       const content = await fs.promises.readFile(filePath, 'utf8');
       
-      
-      return this.parseContent(content, filePath);
+      return {
+        ...this.parseContent(content, filePath),
+        hash: this.hashContent(content),
+        size: stats.size,
+        mtime: stats.mtimeMs
+      };
     } catch (error) {
       // Log specific error details for debugging
       if (error instanceof FileSizeError) {
@@ -76,6 +186,15 @@ export class ASTParser {
     }
   }
 
+  /**
+   * Compute the content hash recorded in `FileInfo.hash`
+   * @param content - File content as string
+   * @returns SHA-256 hex digest
+   */
+  static hashContent(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+
   /**
    * Parse file content and extract code signatures
    * @param content - File content as string
@@ -95,39 +214,348 @@ export class ASTParser {
     }
     
     try {
+      // Vue, Svelte and Astro components are parsed from their script blocks only
+      const sfc = SFCParser.isSFCExtension(ext) ? SFCParser.extractScript(content, ext) : undefined;
+
       // Create TypeScript source file with memory-conscious options
       const sourceFile = ts.createSourceFile(
         filePath,
-        content,
+        sfc?.code ?? content,
         ts.ScriptTarget.Latest,
         true, // setParentNodes = true for now to debug the issue
-        scriptKind
+        sfc?.scriptKind ?? scriptKind
       );
 
-      const imports: ImportInfo[] = [];
-      const functions: FuncSig[] = [];
-      const classes: ClassInfo[] = [];
-      const constants: ConstInfo[] = [];
+      const result: FileInfo = {
+        imports: [],
+        dependencies: [], // Will be populated by dependency resolver
+        functions: [],
+        classes: [],
+        constants: []
+      };
+      const interfaces: InterfaceInfo[] = [];
+      const types: TypeAliasInfo[] = [];
+      const enums: EnumInfo[] = [];
+      const exports: ExportInfo[] = [];
+      const namespaces: NamespaceInfo[] = [];
+      const collections: OptionalCollections = { interfaces, types, enums, exports, namespaces };
+
+      const diagnostics = this.getParseDiagnostics(sourceFile);
+      const isTestFile = this.isTestFile(filePath);
+      const tests: TestBlock[] = [];
 
-      // Walk the AST for top-level declarations
+      // Walk the AST for top-level declarations. The parser recovers from syntax
+      // errors, so statements are extracted independently and a malformed one
+      // only loses its own declarations.
       ts.forEachChild(sourceFile, (node) => {
-        this.visitNode(node, imports, functions, classes, constants, sourceFile);
+        try {
+          this.visitNode(node, result, collections, sourceFile);
+          this.extractExports(node, exports, sourceFile);
+          if (isTestFile) {
+            tests.push(...this.extractTestBlocks(node, sourceFile));
+          }
+        } catch (error) {
+          diagnostics.push(this.toDiagnostic(error, node.getStart(sourceFile), sourceFile));
+        }
       });
+      this.resolveLocalExportKinds(exports, result, collections);
 
-      const result: FileInfo = {
-        imports,
-        dependencies: [], // Will be populated by dependency resolver
-        functions,
-        classes,
-        constants
-      };
+      try {
+        const routes = RouteParser.extractRoutes(sourceFile);
+        if (routes.length > 0) {
+          result.routes = routes;
+        }
+        const env = this.extractEnvUsages(sourceFile);
+        if (env.length > 0) {
+          result.env = env;
+        }
+        result.metrics = MetricsCalculator.getFileMetrics(sourceFile, sfc?.lines);
+      } catch (error) {
+        diagnostics.push(this.toDiagnostic(error, 0, sourceFile));
+      }
+
+      // Type-level collections are only attached when present to keep the index compact
+      if (interfaces.length > 0) {
+        result.interfaces = interfaces;
+      }
+      if (types.length > 0) {
+        result.types = types;
+      }
+      if (enums.length > 0) {
+        result.enums = enums;
+      }
+      if (exports.length > 0) {
+        result.exports = exports;
+      }
+      if (namespaces.length > 0) {
+        result.namespaces = namespaces;
+      }
+      if (diagnostics.length > 0) {
+        result.diagnostics = diagnostics;
+      }
+      if (tests.length > 0) {
+        result.tests = tests;
+      }
       
       return result;
     } catch (error) {
-      // For syntax errors, try fallback parsing
-      console.warn(`AST parsing failed for ${filePath}, attempting fallback parsing: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      return this.parseBasicImports(content, filePath);
+      console.warn(`AST parsing failed for ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return {
+        ...this.getEmptyFileInfo(),
+        diagnostics: [{ message: error instanceof Error ? error.message : 'Unknown error', line: 1, column: 1 }]
+      };
+    }
+  }
+
+  /**
+   * Check if a file is a test file by naming convention
+   * @param filePath - File path (absolute or relative)
+   * @returns True for `*.test.*` and `*.spec.*` TypeScript/JavaScript files
+   */
+  static isTestFile(filePath: string): boolean {
+    return TEST_FILE_PATTERN.test(filePath);
+  }
+
+  /**
+   * Collect the syntax errors the parser recovered from
+   * @param sourceFile - Parsed source file
+   * @returns Diagnostics with 1-based positions, in source order
+   */
+  private static getParseDiagnostics(sourceFile: ts.SourceFile): ParseDiagnostic[] {
+    const parseDiagnostics = (sourceFile as SourceFileWithDiagnostics).parseDiagnostics ?? [];
+    return parseDiagnostics.map(diagnostic => ({
+      message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+      ...this.toPosition(diagnostic.start, sourceFile)
+    }));
+  }
+
+  /**
+   * Convert an extraction error into a diagnostic at the failing statement
+   * @param error - Error thrown while extracting the statement
+   * @param pos - Start position of the statement
+   * @param sourceFile - Source file for position lookup
+   * @returns Diagnostic describing the failure
+   */
+  private static toDiagnostic(error: unknown, pos: number, sourceFile: ts.SourceFile): ParseDiagnostic {
+    return {
+      message: `Failed to extract declaration: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      ...this.toPosition(pos, sourceFile)
+    };
+  }
+
+  /**
+   * Convert a character offset to a 1-based line and column
+   * @param pos - Character offset in the source text
+   * @param sourceFile - Source file for position lookup
+   * @returns 1-based line and column
+   */
+  private static toPosition(pos: number, sourceFile: ts.SourceFile): { line: number; column: number } {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(pos);
+    return { line: line + 1, column: character + 1 };
+  }
+
+  /**
+   * Collect the suites and tests declared within a node
+   * 
+   * Blocks nested in a suite's callback become its children; test blocks
+   * declared anywhere else (helpers, loops) are collected as well.
+   * @param node - Node to search
+   * @param sourceFile - Source file for text extraction
+   * @returns Test blocks in source order
+   */
+  private static extractTestBlocks(node: ts.Node, sourceFile: ts.SourceFile): TestBlock[] {
+    const blocks: TestBlock[] = [];
+
+    const visit = (child: ts.Node): void => {
+      const block = ts.isCallExpression(child) ? this.toTestBlock(child, sourceFile) : undefined;
+      if (block) {
+        blocks.push(block);
+      } else {
+        ts.forEachChild(child, visit);
+      }
+    };
+    visit(node);
+
+    return blocks;
+  }
+
+  /**
+   * Convert a `describe()`/`it()`/`test()` call into a test block, including
+   * the blocks declared in a suite's callback
+   * @param node - Call expression
+   * @param sourceFile - Source file for text extraction
+   * @returns Test block, or undefined if the call does not declare one
+   */
+  private static toTestBlock(node: ts.CallExpression, sourceFile: ts.SourceFile): TestBlock | undefined {
+    // `it.each(table)('name', fn)` calls the result of `it.each(table)`
+    let callee: ts.Expression = node.expression;
+    if (ts.isCallExpression(callee)) {
+      callee = callee.expression;
+    }
+
+    let modifier: string | undefined;
+    if (ts.isPropertyAccessExpression(callee) && TEST_MODIFIERS.has(callee.name.text)) {
+      modifier = callee.name.text;
+      callee = callee.expression;
+    }
+    if (!ts.isIdentifier(callee) || (ts.isCallExpression(node.expression) && modifier !== 'each')) {
+      return undefined;
+    }
+
+    const kind = TEST_CALLEES.get(callee.text);
+    const title = node.arguments[0];
+    if (!kind || !title) {
+      return undefined;
+    }
+
+    const block: TestBlock = {
+      kind,
+      name: ts.isStringLiteralLike(title) ? title.text : title.getText(sourceFile),
+      loc: getSourceLocation(node, sourceFile)
+    };
+    if (modifier) {
+      block.modifier = modifier as NonNullable<TestBlock['modifier']>;
+    }
+    if (kind === 'suite') {
+      const children = node.arguments.slice(1).flatMap(arg => this.extractTestBlocks(arg, sourceFile));
+      if (children.length > 0) {
+        block.children = children;
+      }
+    }
+    return block;
+  }
+
+  /**
+   * Collect the environment variables read in a file
+   * @param sourceFile - Parsed source file
+   * @returns One entry per variable, at its first read, in source order
+   */
+  private static extractEnvUsages(sourceFile: ts.SourceFile): EnvVarUsage[] {
+    const usages = new Map<string, EnvVarUsage>();
+    if (!ENV_ACCESS_PATTERN.test(sourceFile.text)) {
+      return [];
+    }
+
+    const record = (name: string, node: ts.Node, defaultValue: string | undefined): void => {
+      const existing = usages.get(name);
+      if (existing) {
+        if (existing.default === undefined && defaultValue !== undefined) {
+          existing.default = defaultValue;
+        }
+        return;
+      }
+      const usage: EnvVarUsage = { name };
+      if (defaultValue !== undefined) {
+        usage.default = defaultValue;
+      }
+      usage.loc = getSourceLocation(node, sourceFile);
+      usages.set(name, usage);
+    };
+
+    const visit = (node: ts.Node): void => {
+      // const { API_URL, PORT = '3000' } = process.env;
+      if (ts.isVariableDeclaration(node) && ts.isObjectBindingPattern(node.name) &&
+          node.initializer && this.isEnvObject(node.initializer)) {
+        for (const element of node.name.elements) {
+          if (element.dotDotDotToken) {
+            continue;
+          }
+          const key = element.propertyName ?? element.name;
+          if (ts.isIdentifier(key) || ts.isStringLiteral(key)) {
+            record(key.text, element, element.initializer && this.getLiteralValue(element.initializer));
+          }
+        }
+      }
+
+      const name = this.getEnvVarName(node);
+      if (name !== undefined && !this.isAssignmentTarget(node)) {
+        record(name, node, this.getEnvDefault(node));
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return Array.from(usages.values());
+  }
+
+  /**
+   * Get the variable name of a `process.env.X`/`import.meta.env['X']` access
+   * @param node - Node to check
+   * @returns Variable name, or undefined if the node is not an env access
+   */
+  private static getEnvVarName(node: ts.Node): string | undefined {
+    if (ts.isPropertyAccessExpression(node) && this.isEnvObject(node.expression)) {
+      return node.name.text;
+    }
+    if (ts.isElementAccessExpression(node) && this.isEnvObject(node.expression) &&
+        ts.isStringLiteralLike(node.argumentExpression)) {
+      return node.argumentExpression.text;
+    }
+    return undefined;
+  }
+
+  /**
+   * Check if an expression is `process.env` or `import.meta.env`
+   * @param expr - Expression to check
+   * @returns True for the environment objects
+   */
+  private static isEnvObject(expr: ts.Expression): boolean {
+    if (!ts.isPropertyAccessExpression(expr) || expr.name.text !== 'env') {
+      return false;
+    }
+    const target = expr.expression;
+    return (ts.isIdentifier(target) && target.text === 'process') ||
+      (ts.isMetaProperty(target) && target.keywordToken === ts.SyntaxKind.ImportKeyword && target.name.text === 'meta');
+  }
+
+  /**
+   * Check if an env access is written rather than read (`process.env.X = ...`)
+   * @param node - Env access expression
+   * @returns True if the access is the left side of an assignment
+   */
+  private static isAssignmentTarget(node: ts.Node): boolean {
+    const parent = node.parent;
+    return !!parent && ts.isBinaryExpression(parent) && parent.left === node &&
+      parent.operatorToken.kind === ts.SyntaxKind.EqualsToken;
+  }
+
+  /**
+   * Get the literal fallback of an env read (`process.env.X ?? 'default'`)
+   * @param node - Env access expression
+   * @returns Fallback value text, or undefined if there is no literal fallback
+   */
+  private static getEnvDefault(node: ts.Node): string | undefined {
+    let current = node;
+    while (current.parent && ts.isParenthesizedExpression(current.parent)) {
+      current = current.parent;
+    }
+    const parent = current.parent;
+    if (!parent || !ts.isBinaryExpression(parent) || parent.left !== current) {
+      return undefined;
+    }
+    const operator = parent.operatorToken.kind;
+    if (operator !== ts.SyntaxKind.QuestionQuestionToken && operator !== ts.SyntaxKind.BarBarToken) {
+      return undefined;
     }
+    return this.getLiteralValue(parent.right);
+  }
+
+  /**
+   * Get the value text of a string, number or boolean literal
+   * @param expr - Expression to check
+   * @returns Literal value (strings without quotes), or undefined for other expressions
+   */
+  private static getLiteralValue(expr: ts.Expression): string | undefined {
+    if (ts.isStringLiteralLike(expr) || ts.isNumericLiteral(expr)) {
+      return expr.text;
+    }
+    if (expr.kind === ts.SyntaxKind.TrueKeyword) {
+      return 'true';
+    }
+    if (expr.kind === ts.SyntaxKind.FalseKeyword) {
+      return 'false';
+    }
+    return undefined;
   }
 
   /**
@@ -142,8 +570,12 @@ export class ASTParser {
       case '.jsx':
         return ts.ScriptKind.JSX;
       case '.js':
+      case '.mjs':
+      case '.cjs':
         return ts.ScriptKind.JS;
       case '.ts':
+      case '.mts':
+      case '.cts':
       default:
         return ts.ScriptKind.TS;
     }
@@ -152,55 +584,63 @@ export class ASTParser {
   /**
    * Visit AST node and extract relevant information
    * @param node - AST node to visit
-   * @param imports - Array to collect imports
-   * @param functions - Array to collect functions
-   * @param classes - Array to collect classes
-   * @param constants - Array to collect constants
+   * @param result - FileInfo collecting imports, functions, classes and constants
+   * @param collections - Arrays collecting interfaces, type aliases, enums and namespaces
    * @param sourceFile - Source file for text extraction
    */
   private static visitNode(
     node: ts.Node,
-    imports: ImportInfo[],
-    functions: FuncSig[],
-    classes: ClassInfo[],
-    constants: ConstInfo[],
+    result: FileInfo,
+    collections: OptionalCollections,
     sourceFile: ts.SourceFile
   ): void {
     switch (node.kind) {
       case ts.SyntaxKind.ImportDeclaration:
-        this.extractImport(node as ts.ImportDeclaration, imports);
+        this.extractImport(node as ts.ImportDeclaration, result.imports, sourceFile);
         break;
       
       case ts.SyntaxKind.ExportDeclaration:
-        this.extractExport(node as ts.ExportDeclaration, imports);
+        this.extractExport(node as ts.ExportDeclaration, result.imports, sourceFile);
         break;
       
       case ts.SyntaxKind.FunctionDeclaration:
-        this.extractFunction(node as ts.FunctionDeclaration, functions);
+        this.extractFunction(node as ts.FunctionDeclaration, result.functions, sourceFile);
         break;
       
       case ts.SyntaxKind.ClassDeclaration:
-        this.extractClass(node as ts.ClassDeclaration, classes, sourceFile);
+        this.extractClass(node as ts.ClassDeclaration, result.classes, sourceFile);
         break;
       
       case ts.SyntaxKind.VariableStatement:
-        this.extractConstants(node as ts.VariableStatement, constants);
+        this.extractConstants(node as ts.VariableStatement, result.constants, result.functions, sourceFile);
+        break;
+      
+      case ts.SyntaxKind.InterfaceDeclaration:
+        this.extractInterface(node as ts.InterfaceDeclaration, collections.interfaces, sourceFile);
+        break;
+      
+      case ts.SyntaxKind.TypeAliasDeclaration:
+        this.extractTypeAlias(node as ts.TypeAliasDeclaration, collections.types, sourceFile);
+        break;
+      
+      case ts.SyntaxKind.EnumDeclaration:
+        this.extractEnum(node as ts.EnumDeclaration, collections.enums, sourceFile);
         break;
       
-      case ts.SyntaxKind.ExportAssignment:
-        // Handle export = statements
+      case ts.SyntaxKind.ModuleDeclaration:
+        this.extractNamespace(node as ts.ModuleDeclaration, collections.namespaces, result.imports, sourceFile);
         break;
       
       default:
         // For dynamic imports and requires, we need to walk deeper
         if (node.kind === ts.SyntaxKind.CallExpression) {
-          this.extractDynamicImport(node as ts.CallExpression, imports);
+          this.extractDynamicImport(node as ts.CallExpression, result.imports, sourceFile);
         }
         
         // Continue walking for nested dynamic imports
         ts.forEachChild(node, (child) => {
           if (child.kind === ts.SyntaxKind.CallExpression) {
-            this.visitNode(child, imports, functions, classes, constants, sourceFile);
+            this.visitNode(child, result, collections, sourceFile);
           }
         });
         break;
@@ -211,8 +651,13 @@ export class ASTParser {
    * Extract import declaration information
    * @param node - Import declaration node
    * @param imports - Array to add import info to
+   * @param sourceFile - Source file for location lookup
    */
-  private static extractImport(node: ts.ImportDeclaration, imports: ImportInfo[]): void {
+  private static extractImport(
+    node: ts.ImportDeclaration,
+    imports: ImportInfo[],
+    sourceFile: ts.SourceFile
+  ): void {
     if (!node.moduleSpecifier || !ts.isStringLiteral(node.moduleSpecifier)) {
       return;
     }
@@ -220,7 +665,8 @@ export class ASTParser {
     const from = node.moduleSpecifier.text;
     const importInfo: ImportInfo = {
       from,
-      kind: 'import'
+      kind: 'import',
+      loc: getSourceLocation(node, sourceFile)
     };
 
     if (node.importClause) {
@@ -229,18 +675,29 @@ export class ASTParser {
       // Default import
       if (clause.name) {
         importInfo.isDefault = true;
+        importInfo.defaultName = clause.name.text;
       }
       
       // Named imports or namespace import
       if (clause.namedBindings) {
         if (ts.isNamespaceImport(clause.namedBindings)) {
           importInfo.isNamespace = true;
+          importInfo.namespaceName = clause.namedBindings.name.text;
         } else if (ts.isNamedImports(clause.namedBindings)) {
           importInfo.imported = clause.namedBindings.elements
             .filter(element => element.name && ts.isIdentifier(element.name))
             .map(element => (element.name as ts.Identifier).text);
+          importInfo.bindings = this.extractBindings(clause.namedBindings.elements, clause.isTypeOnly);
         }
       }
+
+      const hasValueBinding = !!clause.name || 
+        (!!clause.namedBindings && ts.isNamespaceImport(clause.namedBindings)) ||
+        !importInfo.bindings?.length ||
+        importInfo.bindings.some(binding => !binding.isTypeOnly);
+      if (clause.isTypeOnly || !hasValueBinding) {
+        importInfo.isTypeOnly = true;
+      }
     }
 
     imports.push(importInfo);
@@ -250,8 +707,13 @@ export class ASTParser {
    * Extract export declaration information
    * @param node - Export declaration node
    * @param imports - Array to add export info to
+   * @param sourceFile - Source file for location lookup
    */
-  private static extractExport(node: ts.ExportDeclaration, imports: ImportInfo[]): void {
+  private static extractExport(
+    node: ts.ExportDeclaration,
+    imports: ImportInfo[],
+    sourceFile: ts.SourceFile
+  ): void {
     if (!node.moduleSpecifier || !ts.isStringLiteral(node.moduleSpecifier)) {
       return;
     }
@@ -259,24 +721,235 @@ export class ASTParser {
     const from = node.moduleSpecifier.text;
     const exportInfo: ImportInfo = {
       from,
-      kind: 'export'
+      kind: 'export',
+      loc: getSourceLocation(node, sourceFile)
     };
 
     if (node.exportClause && ts.isNamedExports(node.exportClause)) {
       exportInfo.imported = node.exportClause.elements
         .filter(element => element.name && ts.isIdentifier(element.name))
         .map(element => (element.name as ts.Identifier).text);
+      exportInfo.bindings = this.extractBindings(node.exportClause.elements, node.isTypeOnly);
+    } else if (node.exportClause && ts.isNamespaceExport(node.exportClause)) {
+      exportInfo.isNamespace = true;
+      exportInfo.namespaceName = node.exportClause.name.text;
+    }
+
+    const allBindingsTypeOnly = !!exportInfo.bindings?.length && 
+      exportInfo.bindings.every(binding => binding.isTypeOnly);
+    if (node.isTypeOnly || allBindingsTypeOnly) {
+      exportInfo.isTypeOnly = true;
     }
 
     imports.push(exportInfo);
   }
 
+  /**
+   * Extract named bindings of an import or re-export statement
+   * @param elements - Import or export specifiers
+   * @param statementTypeOnly - True when the whole statement is `import type` / `export type`
+   * @returns Bindings with their type-only flags
+   */
+  private static extractBindings(
+    elements: ts.NodeArray<ts.ImportSpecifier | ts.ExportSpecifier>,
+    statementTypeOnly: boolean
+  ): ImportBinding[] {
+    return elements
+      .filter(element => element.name && ts.isIdentifier(element.name))
+      .map(element => {
+        const localName = (element.name as ts.Identifier).text;
+        const binding: ImportBinding = { name: element.propertyName?.text ?? localName };
+        if (element.propertyName) {
+          binding.alias = localName;
+        }
+        if (statementTypeOnly || element.isTypeOnly) {
+          binding.isTypeOnly = true;
+        }
+        return binding;
+      });
+  }
+
+  /**
+   * Record the names a top-level statement adds to the module's exports
+   * @param node - Top-level statement
+   * @param exports - Array to add export info to
+   * @param sourceFile - Source file for location lookup
+   */
+  private static extractExports(
+    node: ts.Node,
+    exports: ExportInfo[],
+    sourceFile: ts.SourceFile
+  ): void {
+    const loc = getSourceLocation(node, sourceFile);
+
+    if (ts.isExportDeclaration(node)) {
+      const from = node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)
+        ? node.moduleSpecifier.text
+        : undefined;
+
+      if (!node.exportClause) {
+        // export * from './module'
+        if (from) {
+          exports.push(this.withTypeOnly({ name: '*', kind: 'reexport', from, loc }, node.isTypeOnly));
+        }
+      } else if (ts.isNamespaceExport(node.exportClause)) {
+        // export * as ns from './module'
+        const name = node.exportClause.name.text;
+        const exportObj: ExportInfo = { name, local: '*', kind: 'reexport', loc };
+        if (from) {
+          exportObj.from = from;
+        }
+        exports.push(this.withTypeOnly(exportObj, node.isTypeOnly));
+      } else {
+        for (const element of node.exportClause.elements) {
+          const name = element.name.text;
+          const local = element.propertyName ? element.propertyName.text : name;
+          const exportObj: ExportInfo = {
+            name,
+            local,
+            kind: from ? 'reexport' : 'unknown',
+            loc: getSourceLocation(element, sourceFile)
+          };
+          if (from) {
+            exportObj.from = from;
+          }
+          if (name === 'default') {
+            exportObj.isDefault = true;
+          }
+          exports.push(this.withTypeOnly(exportObj, node.isTypeOnly || element.isTypeOnly));
+        }
+      }
+      return;
+    }
+
+    if (ts.isExportAssignment(node)) {
+      // export default <expression> / export = <expression>
+      const exportObj: ExportInfo = {
+        name: node.isExportEquals ? 'export=' : 'default',
+        kind: 'expression',
+        loc
+      };
+      if (ts.isIdentifier(node.expression)) {
+        exportObj.local = node.expression.text;
+        exportObj.kind = 'unknown'; // Resolved against local declarations after the walk
+      }
+      if (!node.isExportEquals) {
+        exportObj.isDefault = true;
+      }
+      exports.push(exportObj);
+      return;
+    }
+
+    if (!ts.canHaveModifiers(node)) {
+      return;
+    }
+    const modifiers = ts.getModifiers(node);
+    if (!modifiers?.some(mod => mod.kind === ts.SyntaxKind.ExportKeyword)) {
+      return;
+    }
+    const isDefault = modifiers.some(mod => mod.kind === ts.SyntaxKind.DefaultKeyword);
+
+    const record = (localName: string | undefined, kind: ExportInfo['kind']): void => {
+      const exportObj: ExportInfo = { name: isDefault ? 'default' : localName ?? 'default', kind, loc };
+      if (localName) {
+        exportObj.local = localName;
+      }
+      if (isDefault) {
+        exportObj.isDefault = true;
+      }
+      exports.push(this.withTypeOnly(exportObj, kind === 'interface' || kind === 'type'));
+    };
+
+    if (ts.isFunctionDeclaration(node)) {
+      // Overloaded functions are exported once
+      const name = node.name?.text;
+      if (!name || !exports.some(e => e.local === name && e.kind === 'function')) {
+        record(name, 'function');
+      }
+    } else if (ts.isClassDeclaration(node)) {
+      record(node.name?.text, 'class');
+    } else if (ts.isInterfaceDeclaration(node)) {
+      record(node.name.text, 'interface');
+    } else if (ts.isTypeAliasDeclaration(node)) {
+      record(node.name.text, 'type');
+    } else if (ts.isEnumDeclaration(node)) {
+      record(node.name.text, 'enum');
+    } else if (ts.isModuleDeclaration(node) && ts.isIdentifier(node.name)) {
+      record(node.name.text, 'namespace');
+    } else if (ts.isVariableStatement(node)) {
+      for (const declaration of node.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) {
+          const isFunction = !!this.getFunctionInitializer(declaration.initializer) ||
+            !!this.getComponentWrapper(declaration.initializer, sourceFile);
+          record(declaration.name.text, isFunction ? 'function' : 'variable');
+        }
+      }
+    }
+  }
+
+  /**
+   * Fill in the kind of exports that refer to local bindings by name
+   * (`export { a, b }`, `export default a`, `export = a`)
+   * @param exports - Export table for the file
+   * @param result - FileInfo with extracted functions, classes and constants
+   * @param collections - Extracted interfaces, type aliases, enums and namespaces
+   */
+  private static resolveLocalExportKinds(
+    exports: ExportInfo[],
+    result: FileInfo,
+    collections: OptionalCollections
+  ): void {
+    const kinds = new Map<string, ExportInfo['kind']>();
+    result.constants.forEach(c => kinds.set(c.name, 'variable'));
+    result.functions.forEach(f => kinds.set(f.name, 'function'));
+    result.classes.forEach(c => kinds.set(c.name, 'class'));
+    collections.enums.forEach(e => kinds.set(e.name, 'enum'));
+    collections.types.forEach(t => kinds.set(t.name, 'type'));
+    collections.interfaces.forEach(i => kinds.set(i.name, 'interface'));
+    collections.namespaces.forEach(n => {
+      if (n.kind === 'namespace' && !kinds.has(n.name)) {
+        kinds.set(n.name, 'namespace');
+      }
+    });
+
+    for (const exportObj of exports) {
+      if (exportObj.kind !== 'unknown' || !exportObj.local) {
+        continue;
+      }
+      const kind = kinds.get(exportObj.local);
+      if (kind) {
+        exportObj.kind = kind;
+        if (kind === 'interface' || kind === 'type') {
+          exportObj.isTypeOnly = true;
+        }
+      }
+    }
+  }
+
+  /**
+   * Mark an export as type-only when applicable
+   * @param exportObj - Export info to update
+   * @param isTypeOnly - Whether the export has no runtime value
+   * @returns The same export info
+   */
+  private static withTypeOnly(exportObj: ExportInfo, isTypeOnly: boolean): ExportInfo {
+    if (isTypeOnly) {
+      exportObj.isTypeOnly = true;
+    }
+    return exportObj;
+  }
+
   /**
    * Extract dynamic import or require call
    * @param node - Call expression node
    * @param imports - Array to add import info to
+   * @param sourceFile - Source file for location lookup
    */
-  private static extractDynamicImport(node: ts.CallExpression, imports: ImportInfo[]): void {
+  private static extractDynamicImport(
+    node: ts.CallExpression,
+    imports: ImportInfo[],
+    sourceFile: ts.SourceFile
+  ): void {
     const expression = node.expression;
     
     // Dynamic import: import('module')
@@ -285,7 +958,8 @@ export class ASTParser {
       if (arg && ts.isStringLiteral(arg)) {
         imports.push({
           from: arg.text,
-          kind: 'dynamic-import'
+          kind: 'dynamic-import',
+          loc: getSourceLocation(node, sourceFile)
         });
       }
     }
@@ -296,7 +970,8 @@ export class ASTParser {
       if (arg && ts.isStringLiteral(arg)) {
         imports.push({
           from: arg.text,
-          kind: 'require'
+          kind: 'require',
+          loc: getSourceLocation(node, sourceFile)
         });
       }
     }
@@ -306,8 +981,13 @@ export class ASTParser {
    * Extract function declaration information
    * @param node - Function declaration node
    * @param functions - Array to add function info to
+   * @param sourceFile - Source file for location lookup
    */
-  private static extractFunction(node: ts.FunctionDeclaration, functions: FuncSig[]): void {
+  private static extractFunction(
+    node: ts.FunctionDeclaration,
+    functions: FuncSig[],
+    sourceFile: ts.SourceFile
+  ): void {
     if (!node.name) {
       return; // Skip anonymous functions
     }
@@ -321,36 +1001,12 @@ export class ASTParser {
     ));
     const isGenerator = !!node.asteriskToken;
 
-    const params = node.parameters.map(param => {
-      const paramName = param.name && param.name.kind === ts.SyntaxKind.Identifier 
-        ? (param.name as ts.Identifier).text 
-        : 'unknown';
-      
-      const paramObj: {
-        name: string;
-        type?: string;
-        optional?: boolean;
-        rest?: boolean;
-      } = { name: paramName };
-      
-      if (param.type) {
-        paramObj.type = param.type.getText();
-      }
-      if (param.questionToken) {
-        paramObj.optional = true;
-      }
-      if (param.dotDotDotToken) {
-        paramObj.rest = true;
-      }
-      
-      return paramObj;
-    });
-
     const funcSig: FuncSig = {
       name,
-      params,
+      params: this.extractParams(node.parameters, sourceFile),
       isAsync,
-      isExported
+      isExported,
+      loc: getSourceLocation(node, sourceFile)
     };
     
     if (node.type) {
@@ -359,10 +1015,130 @@ export class ASTParser {
     if (isGenerator) {
       funcSig.isGenerator = true;
     }
+    if (this.isAmbient(node)) {
+      funcSig.isAmbient = true;
+    }
+    if (node.body) {
+      funcSig.complexity = MetricsCalculator.getComplexity(node);
+    }
+    const typeParams = this.extractTypeParams(node.typeParameters, sourceFile);
+    if (typeParams) {
+      funcSig.typeParams = typeParams;
+    }
+    this.classifyReactFunction(funcSig, node, sourceFile);
+    const doc = this.extractDoc(node);
+    if (doc) {
+      funcSig.doc = doc;
+    }
+
+    // Overload signatures are adjacent and precede the implementation, so they
+    // are collapsed into the entry created for the first signature
+    const group = functions[functions.length - 1];
+    if (group && group.name === name && group.overloads) {
+      this.mergeOverload(group, funcSig, !node.body);
+      return;
+    }
+    if (!node.body && this.hasOverloadSiblings(node, name)) {
+      funcSig.overloads = [this.toOverload(funcSig)];
+    }
 
     functions.push(funcSig);
   }
 
+  /**
+   * Fold the next declaration of an overloaded function or method into its entry
+   * @param group - Entry created for the first overload signature
+   * @param next - Signature of the following declaration
+   * @param isOverload - True for another overload signature, false for the implementation
+   */
+  private static mergeOverload(group: OverloadGroup, next: OverloadGroup, isOverload: boolean): void {
+    if (isOverload) {
+      group.overloads?.push(this.toOverload(next));
+    } else {
+      group.params = next.params;
+      group.isAsync = next.isAsync;
+      delete group.returnType;
+      delete group.typeParams;
+      if (next.returnType) {
+        group.returnType = next.returnType;
+      }
+      if (next.typeParams) {
+        group.typeParams = next.typeParams;
+      }
+      if (next.isGenerator) {
+        group.isGenerator = true;
+      }
+      if (next.complexity !== undefined) {
+        group.complexity = next.complexity;
+      }
+    }
+    if (group.loc && next.loc) {
+      group.loc.endLine = next.loc.endLine;
+      group.loc.endColumn = next.loc.endColumn;
+    }
+    if (!group.doc && next.doc) {
+      group.doc = next.doc;
+    }
+  }
+
+  /**
+   * Reduce a function or method signature to its overload-relevant parts
+   * @param funcSig - Function or method signature
+   * @returns Overload signature
+   */
+  private static toOverload(funcSig: OverloadGroup): FuncOverload {
+    const overload: FuncOverload = { params: funcSig.params };
+    if (funcSig.returnType) {
+      overload.returnType = funcSig.returnType;
+    }
+    if (funcSig.typeParams) {
+      overload.typeParams = funcSig.typeParams;
+    }
+    return overload;
+  }
+
+  /**
+   * Check whether a body-less function declaration is part of an overload set
+   * @param node - Function declaration without a body
+   * @param name - Function name
+   * @returns True if another declaration with the same name exists in the same scope
+   */
+  private static hasOverloadSiblings(node: ts.FunctionDeclaration, name: string): boolean {
+    const parent = node.parent;
+    if (!ts.isSourceFile(parent) && !ts.isModuleBlock(parent)) {
+      return false;
+    }
+    return parent.statements.some(
+      statement => statement !== node && ts.isFunctionDeclaration(statement) && statement.name?.text === name
+    );
+  }
+
+  /**
+   * Check whether a body-less method declaration is part of an overload set
+   * @param node - Class declaring the method
+   * @param member - Method declaration without a body
+   * @param name - Method name
+   * @returns True if the class declares another method with the same name and staticness
+   */
+  private static hasMethodOverloadSiblings(node: ts.ClassDeclaration, member: ts.MethodDeclaration, name: string): boolean {
+    const isStatic = this.isStaticMember(member);
+    return node.members.some(other =>
+      other !== member && ts.isMethodDeclaration(other) && ts.isIdentifier(other.name) &&
+      other.name.text === name && this.isStaticMember(other) === isStatic
+    );
+  }
+
+  /**
+   * Check whether a class member is declared static
+   * @param member - Class member
+   * @returns True if the member has the `static` modifier
+   */
+  private static isStaticMember(member: ts.ClassElement): boolean {
+    return !!(ts.canHaveModifiers(member) && ts.getModifiers(member)?.some(
+      mod => mod.kind === ts.SyntaxKind.StaticKeyword
+    ));
+  }
+
   /**
    * Extract class declaration information
    * @param node - Class declaration node
@@ -414,11 +1190,15 @@ export class ASTParser {
     }
 
     const methods: ClassInfo['methods'] = [];
+
     const properties: ClassInfo['properties'] = [];
+    let ctor: ClassInfo['ctor'];
 
     // Extract members
     node.members.forEach(member => {
-      if (ts.isMethodDeclaration(member) && member.name && ts.isIdentifier(member.name)) {
+      const isMethodLike = ts.isMethodDeclaration(member) || 
+        ts.isGetAccessorDeclaration(member) || ts.isSetAccessorDeclaration(member);
+      if (isMethodLike && member.name && ts.isIdentifier(member.name)) {
         const methodName = member.name.text;
         const isStatic = !!(member.modifiers && member.modifiers.some(
           mod => mod.kind === ts.SyntaxKind.StaticKeyword
@@ -436,37 +1216,18 @@ export class ASTParser {
           mod => mod.kind === ts.SyntaxKind.AsyncKeyword
         ));
 
-        const params = member.parameters.map(param => {
-          const paramName = param.name && param.name.kind === ts.SyntaxKind.Identifier 
-            ? (param.name as ts.Identifier).text 
-            : 'unknown';
-          
-          const paramObj: {
-            name: string;
-            type?: string;
-            optional?: boolean;
-            rest?: boolean;
-          } = { name: paramName };
-          
-          if (param.type) {
-            paramObj.type = param.type.getText();
-          }
-          if (param.questionToken) {
-            paramObj.optional = true;
-          }
-          if (param.dotDotDotToken) {
-            paramObj.rest = true;
-          }
-          
-          return paramObj;
-        });
-
         const methodObj: ClassInfo['methods'][0] = {
           name: methodName,
-          params,
-          isAsync: isAsyncMethod
+          params: this.extractParams(member.parameters, sourceFile),
+          isAsync: isAsyncMethod,
+          loc: getSourceLocation(member, sourceFile)
         };
         
+        if (ts.isGetAccessorDeclaration(member)) {
+          methodObj.kind = 'get';
+        } else if (ts.isSetAccessorDeclaration(member)) {
+          methodObj.kind = 'set';
+        }
         if (member.type) {
           methodObj.returnType = member.type.getText();
         }
@@ -482,6 +1243,34 @@ export class ASTParser {
         if (isAbstractMethod) {
           methodObj.isAbstract = true;
         }
+        if (member.body) {
+          methodObj.complexity = MetricsCalculator.getComplexity(member);
+        }
+        const decorators = this.extractDecorators(member, sourceFile);
+        if (decorators) {
+          methodObj.decorators = decorators;
+        }
+        const doc = this.extractDoc(member);
+        if (doc) {
+          methodObj.doc = doc;
+        }
+
+        // Method overloads are collapsed like function overloads; decorators
+        // are only allowed on the implementation
+        const group = methods[methods.length - 1];
+        if (
+          ts.isMethodDeclaration(member) && group && group.name === methodName &&
+          !!group.isStatic === isStatic && group.overloads
+        ) {
+          this.mergeOverload(group, methodObj, !member.body);
+          if (methodObj.decorators) {
+            group.decorators = methodObj.decorators;
+          }
+          return;
+        }
+        if (ts.isMethodDeclaration(member) && !member.body && this.hasMethodOverloadSiblings(node, member, methodName)) {
+          methodObj.overloads = [this.toOverload(methodObj)];
+        }
 
         methods.push(methodObj);
       } else if (ts.isPropertyDeclaration(member) && member.name && ts.isIdentifier(member.name)) {
@@ -500,7 +1289,8 @@ export class ASTParser {
         ));
 
         const propertyObj: ClassInfo['properties'][0] = {
-          name: propertyName
+          name: propertyName,
+          loc: getSourceLocation(member, sourceFile)
         };
         
         if (member.type) {
@@ -518,37 +1308,81 @@ export class ASTParser {
         if (isReadonly) {
           propertyObj.isReadonly = true;
         }
+        const decorators = this.extractDecorators(member, sourceFile);
+        if (decorators) {
+          propertyObj.decorators = decorators;
+        }
 
         properties.push(propertyObj);
+      } else if (ts.isIndexSignatureDeclaration(member)) {
+        properties.push(this.extractIndexSignature(member, sourceFile));
+      } else if (ts.isConstructorDeclaration(member)) {
+        // With overloads, the implementation (the one with a body) is the canonical signature
+        if (!ctor || member.body) {
+          ctor = this.extractConstructor(member, sourceFile);
+        }
       }
     });
 
+    // Parameter properties are declared in the constructor but behave like class properties
+    const ctorNode = node.members.find(
+      (member): member is ts.ConstructorDeclaration => ts.isConstructorDeclaration(member) && !!member.body
+    );
+    if (ctorNode) {
+      properties.push(...this.extractParameterProperties(ctorNode, sourceFile));
+    }
+
     const classObj: ClassInfo = {
       name,
       isExported,
       methods,
-      properties
+      properties,
+      loc: getSourceLocation(node, sourceFile)
     };
     
     if (isAbstract) {
       classObj.isAbstract = true;
     }
+    if (this.isAmbient(node)) {
+      classObj.isAmbient = true;
+    }
     if (extendsClass) {
       classObj.extends = extendsClass;
     }
     if (implementsInterfaces.length > 0) {
       classObj.implements = implementsInterfaces;
     }
+    if (ctor) {
+      classObj.ctor = ctor;
+    }
+    const decorators = this.extractDecorators(node, sourceFile);
+    if (decorators) {
+      classObj.decorators = decorators;
+    }
+    const doc = this.extractDoc(node);
+    if (doc) {
+      classObj.doc = doc;
+    }
 
     classes.push(classObj);
   }
 
   /**
    * Extract constant/variable declarations
+   * 
+   * Declarations initialized with an arrow function or function expression are
+   * recorded as functions so their signatures are available like any other function.
    * @param node - Variable statement node
    * @param constants - Array to add constant info to
+   * @param functions - Array to add function-valued declarations to
+   * @param sourceFile - Source file for location lookup
    */
-  private static extractConstants(node: ts.VariableStatement, constants: ConstInfo[]): void {
+  private static extractConstants(
+    node: ts.VariableStatement,
+    constants: ConstInfo[],
+    functions: FuncSig[],
+    sourceFile: ts.SourceFile
+  ): void {
     const isExported = !!(node.modifiers && node.modifiers.some(
       mod => mod.kind === ts.SyntaxKind.ExportKeyword
     ));
@@ -566,16 +1400,49 @@ export class ASTParser {
 
         // Only include const declarations or exported let/var
         const isConst = node.declarationList.flags & ts.NodeFlags.Const;
-        if (isConst || isExported) {
+        const wrapper = this.getComponentWrapper(declaration.initializer, sourceFile);
+        const fnExpr = this.getFunctionInitializer(wrapper ? wrapper.inner : declaration.initializer);
+        if ((isConst || isExported) && fnExpr) {
+          functions.push(this.extractFunctionExpression(name, fnExpr, declaration, isExported, sourceFile, wrapper));
+        } else if ((isConst || isExported) && wrapper) {
+          // Wrapping a component defined elsewhere, e.g. `memo(ListItem)`
+          const funcSig: FuncSig = {
+            name,
+            params: [],
+            isAsync: false,
+            isExported,
+            loc: getSourceLocation(declaration, sourceFile),
+            kind: 'component'
+          };
+          if (wrapper.propsType) {
+            funcSig.propsType = wrapper.propsType;
+          }
+          if (this.isAmbient(node)) {
+            funcSig.isAmbient = true;
+          }
+          const doc = this.extractDoc(declaration);
+          if (doc) {
+            funcSig.doc = doc;
+          }
+          functions.push(funcSig);
+        } else if (isConst || isExported) {
           const constObj: ConstInfo = {
             name,
             initKind,
-            isExported
+            isExported,
+            loc: getSourceLocation(declaration, sourceFile)
           };
           
           if (type) {
             constObj.type = type;
           }
+          if (this.isAmbient(node)) {
+            constObj.isAmbient = true;
+          }
+          const doc = this.extractDoc(declaration);
+          if (doc) {
+            constObj.doc = doc;
+          }
           
           constants.push(constObj);
         }
@@ -583,6 +1450,751 @@ export class ASTParser {
     });
   }
 
+  /**
+   * Unwrap a variable initializer that is an arrow function or function expression
+   * @param initializer - Variable initializer (if any)
+   * @returns The function node, or undefined for any other initializer
+   */
+  private static getFunctionInitializer(
+    initializer: ts.Expression | undefined
+  ): ts.ArrowFunction | ts.FunctionExpression | undefined {
+    let expr = initializer;
+    while (expr && ts.isParenthesizedExpression(expr)) {
+      expr = expr.expression;
+    }
+    if (expr && (ts.isArrowFunction(expr) || ts.isFunctionExpression(expr))) {
+      return expr;
+    }
+    return undefined;
+  }
+
+  /**
+   * Unwrap a variable initializer wrapped in `memo()`/`forwardRef()`
+   * (including `React.memo(React.forwardRef(...))` chains)
+   * @param initializer - Variable initializer (if any)
+   * @param sourceFile - Source file for text extraction
+   * @returns The wrapped expression and props type, or undefined if not wrapped
+   */
+  private static getComponentWrapper(
+    initializer: ts.Expression | undefined,
+    sourceFile: ts.SourceFile
+  ): ComponentWrapper | undefined {
+    let wrapper: ComponentWrapper | undefined;
+    let expr = initializer;
+
+    while (expr && ts.isCallExpression(expr)) {
+      const callee = ts.isPropertyAccessExpression(expr.expression)
+        ? expr.expression.name.text
+        : ts.isIdentifier(expr.expression) ? expr.expression.text : undefined;
+      const propsIndex = callee !== undefined ? COMPONENT_WRAPPERS.get(callee) : undefined;
+      if (propsIndex === undefined) {
+        break;
+      }
+
+      // The outermost wrapper's type arguments take precedence
+      const propsType = wrapper?.propsType ?? expr.typeArguments?.[propsIndex]?.getText(sourceFile);
+      expr = expr.arguments[0];
+      wrapper = propsType ? { inner: expr, propsType } : { inner: expr };
+    }
+
+    return wrapper;
+  }
+
+  /**
+   * Get the props type from a `React.FC<Props>`-style variable annotation
+   * @param declaration - Variable declaration
+   * @param sourceFile - Source file for text extraction
+   * @returns Props type text, empty string for `FC` without type arguments,
+   * or undefined if the variable is not annotated as a component
+   */
+  private static getComponentTypeProps(
+    declaration: ts.VariableDeclaration,
+    sourceFile: ts.SourceFile
+  ): string | undefined {
+    const type = declaration.type;
+    if (!type || !ts.isTypeReferenceNode(type)) {
+      return undefined;
+    }
+    const typeName = ts.isQualifiedName(type.typeName) ? type.typeName.right.text : type.typeName.text;
+    if (!COMPONENT_TYPES.has(typeName)) {
+      return undefined;
+    }
+    return type.typeArguments?.[0]?.getText(sourceFile) ?? '';
+  }
+
+  /**
+   * Mark a function as a React hook or component based on its name and body
+   * @param funcSig - Function signature to update
+   * @param fn - Function node
+   * @param sourceFile - Source file for text extraction
+   * @param propsType - Props type when the declaration already marks a component
+   * (wrapper or `FC` annotation; empty string if unknown)
+   */
+  private static classifyReactFunction(
+    funcSig: FuncSig,
+    fn: ts.FunctionLikeDeclaration,
+    sourceFile: ts.SourceFile,
+    propsType?: string
+  ): void {
+    if (HOOK_NAME_PATTERN.test(funcSig.name)) {
+      funcSig.kind = 'hook';
+      return;
+    }
+
+    const isComponent = propsType !== undefined || (
+      COMPONENT_NAME_PATTERN.test(funcSig.name) &&
+      (JSX_RETURN_TYPE_PATTERN.test(funcSig.returnType ?? '') || this.returnsJsx(fn))
+    );
+    if (!isComponent) {
+      return;
+    }
+
+    funcSig.kind = 'component';
+    const props = propsType || fn.parameters[0]?.type?.getText(sourceFile);
+    if (props) {
+      funcSig.propsType = props;
+    }
+  }
+
+  /**
+   * Check if a function returns JSX (nested functions are not searched)
+   * @param fn - Function node
+   * @returns True if the expression body or any return statement is JSX
+   */
+  private static returnsJsx(fn: ts.FunctionLikeDeclaration): boolean {
+    const body = fn.body;
+    if (!body) {
+      return false;
+    }
+    if (!ts.isBlock(body)) {
+      return this.isJsxExpression(body);
+    }
+
+    let found = false;
+    const visit = (node: ts.Node): void => {
+      if (found || ts.isFunctionLike(node) || ts.isClassLike(node)) {
+        return;
+      }
+      if (ts.isReturnStatement(node) && node.expression && this.isJsxExpression(node.expression)) {
+        found = true;
+        return;
+      }
+      ts.forEachChild(node, visit);
+    };
+    ts.forEachChild(body, visit);
+
+    return found;
+  }
+
+  /**
+   * Check if an expression evaluates to JSX, looking through parentheses,
+   * type assertions, conditionals and logical operators
+   * @param expr - Expression to check
+   * @returns True for JSX elements and fragments
+   */
+  private static isJsxExpression(expr: ts.Expression): boolean {
+    if (ts.isJsxElement(expr) || ts.isJsxSelfClosingElement(expr) || ts.isJsxFragment(expr)) {
+      return true;
+    }
+    if (ts.isParenthesizedExpression(expr) || ts.isAsExpression(expr) || ts.isSatisfiesExpression(expr)) {
+      return this.isJsxExpression(expr.expression);
+    }
+    if (ts.isConditionalExpression(expr)) {
+      return this.isJsxExpression(expr.whenTrue) || this.isJsxExpression(expr.whenFalse);
+    }
+    if (ts.isBinaryExpression(expr) && (
+      expr.operatorToken.kind === ts.SyntaxKind.AmpersandAmpersandToken ||
+      expr.operatorToken.kind === ts.SyntaxKind.BarBarToken ||
+      expr.operatorToken.kind === ts.SyntaxKind.QuestionQuestionToken
+    )) {
+      return this.isJsxExpression(expr.left) || this.isJsxExpression(expr.right);
+    }
+    return false;
+  }
+
+  /**
+   * Build a function signature for a variable initialized with a function
+   * @param name - Variable name
+   * @param fnExpr - Arrow function or function expression
+   * @param declaration - Variable declaration (used for location and docs)
+   * @param isExported - Whether the variable statement is exported
+   * @param sourceFile - Source file for text extraction
+   * @param wrapper - `memo()`/`forwardRef()` wrapper around the function (if any)
+   * @returns Function signature for the variable
+   */
+  private static extractFunctionExpression(
+    name: string,
+    fnExpr: ts.ArrowFunction | ts.FunctionExpression,
+    declaration: ts.VariableDeclaration,
+    isExported: boolean,
+    sourceFile: ts.SourceFile,
+    wrapper?: ComponentWrapper
+  ): FuncSig {
+    const isAsync = !!(fnExpr.modifiers && fnExpr.modifiers.some(
+      mod => mod.kind === ts.SyntaxKind.AsyncKeyword
+    ));
+
+    const funcSig: FuncSig = {
+      name,
+      params: this.extractParams(fnExpr.parameters, sourceFile),
+      isAsync,
+      isExported,
+      loc: getSourceLocation(declaration, sourceFile)
+    };
+
+    if (fnExpr.type) {
+      funcSig.returnType = fnExpr.type.getText(sourceFile);
+    }
+    if (ts.isFunctionExpression(fnExpr) && fnExpr.asteriskToken) {
+      funcSig.isGenerator = true;
+    }
+    funcSig.complexity = MetricsCalculator.getComplexity(fnExpr);
+    const typeParams = this.extractTypeParams(fnExpr.typeParameters, sourceFile);
+    if (typeParams) {
+      funcSig.typeParams = typeParams;
+    }
+    const propsType = wrapper
+      ? wrapper.propsType ?? ''
+      : this.getComponentTypeProps(declaration, sourceFile);
+    this.classifyReactFunction(funcSig, fnExpr, sourceFile, propsType);
+    const doc = this.extractDoc(declaration);
+    if (doc) {
+      funcSig.doc = doc;
+    }
+
+    return funcSig;
+  }
+
+  /**
+   * Extract interface declaration information
+   * @param node - Interface declaration node
+   * @param interfaces - Array to add interface info to
+   * @param sourceFile - Source file for text extraction
+   */
+  private static extractInterface(
+    node: ts.InterfaceDeclaration,
+    interfaces: InterfaceInfo[],
+    sourceFile: ts.SourceFile
+  ): void {
+    const isExported = !!(node.modifiers && node.modifiers.some(
+      mod => mod.kind === ts.SyntaxKind.ExportKeyword
+    ));
+
+    const members: InterfaceMember[] = [];
+    node.members.forEach(member => {
+      const memberObj = this.extractInterfaceMember(member, sourceFile);
+      if (memberObj) {
+        members.push(memberObj);
+      }
+    });
+
+    const interfaceObj: InterfaceInfo = {
+      name: node.name.text,
+      isExported,
+      members,
+      loc: getSourceLocation(node, sourceFile)
+    };
+
+    const typeParams = this.extractTypeParams(node.typeParameters, sourceFile);
+    if (typeParams) {
+      interfaceObj.typeParams = typeParams;
+    }
+
+    if (node.heritageClauses) {
+      const extendsClause = node.heritageClauses.find(
+        clause => clause.token === ts.SyntaxKind.ExtendsKeyword
+      );
+      if (extendsClause && extendsClause.types.length > 0) {
+        interfaceObj.extends = extendsClause.types.map(
+          type => type.getText(sourceFile)
+        );
+      }
+    }
+
+    interfaces.push(interfaceObj);
+  }
+
+  /**
+   * Extract a single interface member signature
+   * @param member - Type element of an interface body
+   * @param sourceFile - Source file for text extraction
+   * @returns Interface member info, or undefined for unsupported members
+   */
+  private static extractInterfaceMember(
+    member: ts.TypeElement,
+    sourceFile: ts.SourceFile
+  ): InterfaceMember | undefined {
+    let memberObj: InterfaceMember;
+
+    if (ts.isPropertySignature(member)) {
+      memberObj = { name: member.name.getText(sourceFile), kind: 'property' };
+      if (member.type) {
+        memberObj.type = member.type.getText(sourceFile);
+      }
+    } else if (ts.isMethodSignature(member)) {
+      memberObj = {
+        name: member.name.getText(sourceFile),
+        kind: 'method',
+        params: this.extractParams(member.parameters, sourceFile)
+      };
+      if (member.type) {
+        memberObj.type = member.type.getText(sourceFile);
+      }
+    } else if (ts.isIndexSignatureDeclaration(member)) {
+      const params = member.parameters.map(param => param.getText(sourceFile)).join(', ');
+      memberObj = {
+        name: `[${params}]`,
+        kind: 'index',
+        type: member.type.getText(sourceFile)
+      };
+    } else if (ts.isCallSignatureDeclaration(member) || ts.isConstructSignatureDeclaration(member)) {
+      memberObj = {
+        name: ts.isCallSignatureDeclaration(member) ? '()' : 'new',
+        kind: ts.isCallSignatureDeclaration(member) ? 'call' : 'construct',
+        params: this.extractParams(member.parameters, sourceFile)
+      };
+      if (member.type) {
+        memberObj.type = member.type.getText(sourceFile);
+      }
+    } else {
+      return undefined;
+    }
+
+    if (member.questionToken) {
+      memberObj.optional = true;
+    }
+    const isReadonly = !!(ts.canHaveModifiers(member) && ts.getModifiers(member)?.some(
+      mod => mod.kind === ts.SyntaxKind.ReadonlyKeyword
+    ));
+    if (isReadonly) {
+      memberObj.readonly = true;
+    }
+    memberObj.loc = getSourceLocation(member, sourceFile);
+
+    return memberObj;
+  }
+
+  /**
+   * Extract type alias declaration information
+   * @param node - Type alias declaration node
+   * @param types - Array to add type alias info to
+   * @param sourceFile - Source file for text extraction
+   */
+  private static extractTypeAlias(
+    node: ts.TypeAliasDeclaration,
+    types: TypeAliasInfo[],
+    sourceFile: ts.SourceFile
+  ): void {
+    const isExported = !!(node.modifiers && node.modifiers.some(
+      mod => mod.kind === ts.SyntaxKind.ExportKeyword
+    ));
+
+    const typeObj: TypeAliasInfo = {
+      name: node.name.text,
+      isExported,
+      type: node.type.getText(sourceFile),
+      loc: getSourceLocation(node, sourceFile)
+    };
+
+    const typeParams = this.extractTypeParams(node.typeParameters, sourceFile);
+    if (typeParams) {
+      typeObj.typeParams = typeParams;
+    }
+
+    types.push(typeObj);
+  }
+
+  /**
+   * Extract enum declaration information
+   * @param node - Enum declaration node
+   * @param enums - Array to add enum info to
+   * @param sourceFile - Source file for text extraction
+   */
+  private static extractEnum(
+    node: ts.EnumDeclaration,
+    enums: EnumInfo[],
+    sourceFile: ts.SourceFile
+  ): void {
+    const isExported = !!(node.modifiers && node.modifiers.some(
+      mod => mod.kind === ts.SyntaxKind.ExportKeyword
+    ));
+    const isConst = !!(node.modifiers && node.modifiers.some(
+      mod => mod.kind === ts.SyntaxKind.ConstKeyword
+    ));
+
+    const members = node.members.map(member => {
+      const memberObj: EnumInfo['members'][0] = {
+        name: member.name.getText(sourceFile)
+      };
+      if (member.initializer) {
+        memberObj.value = member.initializer.getText(sourceFile);
+      }
+      return memberObj;
+    });
+
+    const enumObj: EnumInfo = {
+      name: node.name.text,
+      isExported,
+      members,
+      loc: getSourceLocation(node, sourceFile)
+    };
+
+    if (isConst) {
+      enumObj.isConst = true;
+    }
+    if (this.isAmbient(node)) {
+      enumObj.isAmbient = true;
+    }
+
+    enums.push(enumObj);
+  }
+
+  /**
+   * Extract a namespace, ambient module or global augmentation with the symbols declared inside it
+   * @param node - Module declaration node
+   * @param namespaces - Array to add namespace info to
+   * @param imports - File-level imports; imports inside module blocks are hoisted here
+   *   so they still contribute to dependency resolution
+   * @param sourceFile - Source file for location lookup
+   */
+  private static extractNamespace(
+    node: ts.ModuleDeclaration,
+    namespaces: NamespaceInfo[],
+    imports: ImportInfo[],
+    sourceFile: ts.SourceFile
+  ): void {
+    const isGlobal = !!(node.flags & ts.NodeFlags.GlobalAugmentation);
+    const isModule = ts.isStringLiteral(node.name);
+    const isExported = !!(node.modifiers && node.modifiers.some(
+      mod => mod.kind === ts.SyntaxKind.ExportKeyword
+    ));
+
+    // `namespace A.B.C {}` nests a declaration per segment; record it once under the dotted name
+    let name = node.name.text;
+    let body = node.body;
+    while (body && ts.isModuleDeclaration(body)) {
+      name += `.${body.name.text}`;
+      body = body.body;
+    }
+
+    const namespaceObj: NamespaceInfo = {
+      name,
+      kind: isGlobal ? 'global' : isModule ? 'module' : 'namespace',
+      isExported,
+      loc: getSourceLocation(node, sourceFile)
+    };
+
+    if (this.isAmbient(node)) {
+      namespaceObj.isAmbient = true;
+    }
+    // `declare module 'x'` inside a module augments 'x' instead of declaring it
+    if (isGlobal || (isModule && ts.isExternalModule(sourceFile))) {
+      namespaceObj.isAugmentation = true;
+    }
+    const doc = this.extractDoc(node);
+    if (doc) {
+      namespaceObj.doc = doc;
+    }
+
+    if (body && ts.isModuleBlock(body)) {
+      const members: FileInfo = { imports, dependencies: [], functions: [], classes: [], constants: [] };
+      const collections: OptionalCollections = { interfaces: [], types: [], enums: [], exports: [], namespaces: [] };
+      body.statements.forEach(statement => this.visitNode(statement, members, collections, sourceFile));
+
+      if (members.functions.length > 0) {
+        namespaceObj.functions = members.functions;
+      }
+      if (members.classes.length > 0) {
+        namespaceObj.classes = members.classes;
+      }
+      if (members.constants.length > 0) {
+        namespaceObj.constants = members.constants;
+      }
+      if (collections.interfaces.length > 0) {
+        namespaceObj.interfaces = collections.interfaces;
+      }
+      if (collections.types.length > 0) {
+        namespaceObj.types = collections.types;
+      }
+      if (collections.enums.length > 0) {
+        namespaceObj.enums = collections.enums;
+      }
+      if (collections.namespaces.length > 0) {
+        namespaceObj.namespaces = collections.namespaces;
+      }
+    }
+
+    namespaces.push(namespaceObj);
+  }
+
+  /**
+   * Check whether a declaration is ambient (`declare`, inside a `.d.ts` file or an ambient namespace)
+   * @param node - Declaration node
+   * @returns True if the declaration has no runtime implementation
+   */
+  private static isAmbient(node: ts.Node): boolean {
+    if (node.getSourceFile().isDeclarationFile) {
+      return true;
+    }
+    for (let current: ts.Node | undefined = node; current; current = current.parent) {
+      if (ts.canHaveModifiers(current) && 
+          ts.getModifiers(current)?.some(mod => mod.kind === ts.SyntaxKind.DeclareKeyword)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+
+  /**
+   * Extract a class constructor signature
+   * @param node - Constructor declaration
+   * @param sourceFile - Source file for text extraction
+   * @returns Constructor info
+   */
+  private static extractConstructor(
+    node: ts.ConstructorDeclaration,
+    sourceFile: ts.SourceFile
+  ): NonNullable<ClassInfo['ctor']> {
+    const ctor: NonNullable<ClassInfo['ctor']> = {
+      params: this.extractParams(node.parameters, sourceFile),
+      loc: getSourceLocation(node, sourceFile)
+    };
+    const modifiers = ts.getModifiers(node);
+    if (modifiers?.some(mod => mod.kind === ts.SyntaxKind.PrivateKeyword)) {
+      ctor.isPrivate = true;
+    }
+    if (modifiers?.some(mod => mod.kind === ts.SyntaxKind.ProtectedKeyword)) {
+      ctor.isProtected = true;
+    }
+    return ctor;
+  }
+
+  /**
+   * Extract TypeScript parameter properties (`constructor(private readonly repo: Repo)`)
+   * @param node - Constructor declaration
+   * @param sourceFile - Source file for text extraction
+   * @returns Property info for each parameter property
+   */
+  private static extractParameterProperties(
+    node: ts.ConstructorDeclaration,
+    sourceFile: ts.SourceFile
+  ): ClassInfo['properties'] {
+    return node.parameters
+      .filter(param => ts.isParameterPropertyDeclaration(param, node) && ts.isIdentifier(param.name))
+      .map(param => {
+        const modifiers = ts.getModifiers(param);
+        const has = (kind: ts.SyntaxKind): boolean => !!modifiers?.some(mod => mod.kind === kind);
+        const propertyObj: ClassInfo['properties'][0] = {
+          name: (param.name as ts.Identifier).text,
+          isParameterProperty: true,
+          loc: getSourceLocation(param, sourceFile)
+        };
+        if (param.type) {
+          propertyObj.type = param.type.getText(sourceFile);
+        }
+        if (has(ts.SyntaxKind.PrivateKeyword)) {
+          propertyObj.isPrivate = true;
+        }
+        if (has(ts.SyntaxKind.ProtectedKeyword)) {
+          propertyObj.isProtected = true;
+        }
+        if (has(ts.SyntaxKind.ReadonlyKeyword)) {
+          propertyObj.isReadonly = true;
+        }
+        const decorators = this.extractDecorators(param, sourceFile);
+        if (decorators) {
+          propertyObj.decorators = decorators;
+        }
+        return propertyObj;
+      });
+  }
+
+  /**
+   * Extract a class index signature as a property entry
+   * @param node - Index signature declaration
+   * @param sourceFile - Source file for text extraction
+   * @returns Property info with kind `index`
+   */
+  private static extractIndexSignature(
+    node: ts.IndexSignatureDeclaration,
+    sourceFile: ts.SourceFile
+  ): ClassInfo['properties'][0] {
+    const params = node.parameters.map(param => param.getText(sourceFile)).join(', ');
+    const propertyObj: ClassInfo['properties'][0] = {
+      name: `[${params}]`,
+      kind: 'index',
+      type: node.type.getText(sourceFile),
+      loc: getSourceLocation(node, sourceFile)
+    };
+    const modifiers = ts.getModifiers(node);
+    if (modifiers?.some(mod => mod.kind === ts.SyntaxKind.StaticKeyword)) {
+      propertyObj.isStatic = true;
+    }
+    if (modifiers?.some(mod => mod.kind === ts.SyntaxKind.ReadonlyKeyword)) {
+      propertyObj.isReadonly = true;
+    }
+    return propertyObj;
+  }
+
+  /**
+   * Extract decorator names and literal arguments from a declaration
+   * @param node - Class, method or property declaration
+   * @param sourceFile - Source file for text extraction
+   * @returns Decorator info, or undefined when the node has no decorators
+   */
+  private static extractDecorators(node: ts.Node, sourceFile: ts.SourceFile): DecoratorInfo[] | undefined {
+    const decorators = ts.canHaveDecorators(node) ? ts.getDecorators(node) : undefined;
+    if (!decorators || decorators.length === 0) {
+      return undefined;
+    }
+
+    return decorators.map(decorator => {
+      const expression = decorator.expression;
+      const callee = ts.isCallExpression(expression) ? expression.expression : expression;
+      const decoratorObj: DecoratorInfo = { name: callee.getText(sourceFile) };
+
+      if (ts.isCallExpression(expression)) {
+        decoratorObj.args = expression.arguments
+          .filter(arg => this.isLiteralExpression(arg))
+          .map(arg => arg.getText(sourceFile).replace(/\s+/g, ' '));
+      }
+
+      return decoratorObj;
+    });
+  }
+
+  /**
+   * Check whether an expression is a literal value that can be shown as-is
+   * @param node - Expression to check
+   * @returns True for string, number, boolean, null, object and array literals
+   */
+  private static isLiteralExpression(node: ts.Expression): boolean {
+    switch (node.kind) {
+      case ts.SyntaxKind.StringLiteral:
+      case ts.SyntaxKind.NoSubstitutionTemplateLiteral:
+      case ts.SyntaxKind.NumericLiteral:
+      case ts.SyntaxKind.TrueKeyword:
+      case ts.SyntaxKind.FalseKeyword:
+      case ts.SyntaxKind.NullKeyword:
+      case ts.SyntaxKind.ObjectLiteralExpression:
+      case ts.SyntaxKind.ArrayLiteralExpression:
+        return true;
+      case ts.SyntaxKind.PrefixUnaryExpression:
+        // Negative numbers such as -1
+        return ts.isNumericLiteral((node as ts.PrefixUnaryExpression).operand);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Extract the summary and relevant tags from the JSDoc comment attached to a node
+   * @param node - Documented declaration node
+   * @returns Documentation info, or undefined when the node has no JSDoc
+   */
+  private static extractDoc(node: ts.Node): DocInfo | undefined {
+    // The closest comment wins when several JSDoc blocks precede a declaration
+    const jsDoc = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc).pop();
+    if (!jsDoc) {
+      return undefined;
+    }
+
+    const doc: DocInfo = {};
+    const summary = this.firstSentence(ts.getTextOfJSDocComment(jsDoc.comment));
+    if (summary) {
+      doc.summary = summary;
+    }
+
+    const params: Record<string, string> = {};
+    for (const tag of jsDoc.tags ?? []) {
+      const text = ts.getTextOfJSDocComment(tag.comment)?.replace(/\s+/g, ' ').trim();
+      if (ts.isJSDocDeprecatedTag(tag)) {
+        doc.deprecated = text || true;
+      } else if (tag.tagName.text === 'internal') {
+        doc.internal = true;
+      } else if (ts.isJSDocParameterTag(tag) && text) {
+        params[tag.name.getText()] = text.replace(/^-\s*/, '');
+      }
+    }
+    if (Object.keys(params).length > 0) {
+      doc.params = params;
+    }
+
+    return Object.keys(doc).length > 0 ? doc : undefined;
+  }
+
+  /**
+   * Reduce a comment description to its first sentence on a single line
+   * @param text - Comment description text
+   * @returns First sentence, or undefined for empty descriptions
+   */
+  private static firstSentence(text: string | undefined): string | undefined {
+    const normalized = text?.split(/\n\s*\n/)[0]?.replace(/\s+/g, ' ').trim();
+    if (!normalized) {
+      return undefined;
+    }
+    const match = normalized.match(/^.*?[.!?](?=\s|$)/);
+    return match ? match[0] : normalized;
+  }
+
+  /**
+   * Extract generic type parameters
+   * @param typeParameters - Type parameter declarations (if any)
+   * @param sourceFile - Source file for text extraction
+   * @returns Type parameter info, or undefined when there are none
+   */
+  private static extractTypeParams(
+    typeParameters: ts.NodeArray<ts.TypeParameterDeclaration> | undefined,
+    sourceFile: ts.SourceFile
+  ): TypeParamInfo[] | undefined {
+    if (!typeParameters || typeParameters.length === 0) {
+      return undefined;
+    }
+
+    return typeParameters.map(param => {
+      const paramObj: TypeParamInfo = { name: param.name.text };
+      if (param.constraint) {
+        paramObj.constraint = param.constraint.getText(sourceFile);
+      }
+      if (param.default) {
+        paramObj.default = param.default.getText(sourceFile);
+      }
+      return paramObj;
+    });
+  }
+
+  /**
+   * Extract parameter information from a signature
+   * @param parameters - Parameter declarations
+   * @param sourceFile - Source file for text extraction
+   * @returns Parameter info in FuncSig format
+   */
+  private static extractParams(
+    parameters: ts.NodeArray<ts.ParameterDeclaration>,
+    sourceFile: ts.SourceFile
+  ): FuncSig['params'] {
+    return parameters.map(param => {
+      const paramName = param.name && param.name.kind === ts.SyntaxKind.Identifier 
+        ? (param.name as ts.Identifier).text 
+        : 'unknown';
+      
+      const paramObj: FuncSig['params'][0] = { name: paramName };
+      
+      if (param.type) {
+        paramObj.type = param.type.getText(sourceFile);
+      }
+      if (param.questionToken) {
+        paramObj.optional = true;
+      }
+      if (param.dotDotDotToken) {
+        paramObj.rest = true;
+      }
+      
+      return paramObj;
+    });
+  }
+
   /**
    * Determine the kind of initializer expression
    * @param initializer - Initializer expression
@@ -631,79 +2243,4 @@ export class ASTParser {
       constants: []
     };
   }
-
-  /**
-   * Parse basic imports when AST parsing fails due to syntax errors
-   * Uses regex-based parsing for basic import/export detection
-   * @param content - File content as string
-   * @param filePath - File path for error reporting
-   * @returns FileInfo with basic import information
-   */
-  private static parseBasicImports(content: string, filePath: string): FileInfo {
-    const imports: ImportInfo[] = [];
-    
-    try {
-      // Basic regex patterns for common import/export statements
-      const lines = content.split('\n');
-      
-      for (const line of lines) {
-        const trimmedLine = line.trim();
-        
-        // Skip comments and empty lines
-        if (!trimmedLine || trimmedLine.startsWith('//') || trimmedLine.startsWith('/*')) {
-          continue;
-        }
-        
-        // Extract ES6 imports: import ... from '...'
-        const importMatch = trimmedLine.match(/^import\s+(?:(?:{[^}]*}|\*\s+as\s+\w+|\w+)\s*,?\s*)*from\s+['"]([^'"]+)['"]/i);
-        if (importMatch && importMatch[1]) {
-          imports.push({
-            from: importMatch[1],
-            kind: 'import'
-          });
-          continue;
-        }
-        
-        // Extract ES6 exports: export ... from '...'
-        const exportMatch = trimmedLine.match(/^export\s+(?:{[^}]*}|\*)\s+from\s+['"]([^'"]+)['"]/i);
-        if (exportMatch && exportMatch[1]) {
-          imports.push({
-            from: exportMatch[1],
-            kind: 'export'
-          });
-          continue;
-        }
-        
-        // Extract require calls: require('...')
-        const requireMatch = trimmedLine.match(/require\s*\(\s*['"]([^'"]+)['"]\s*\)/i);
-        if (requireMatch && requireMatch[1]) {
-          imports.push({
-            from: requireMatch[1],
-            kind: 'require'
-          });
-          continue;
-        }
-        
-        // Extract dynamic imports: import('...')
-        const dynamicImportMatch = trimmedLine.match(/import\s*\(\s*['"]([^'"]+)['"]\s*\)/i);
-        if (dynamicImportMatch && dynamicImportMatch[1]) {
-          imports.push({
-            from: dynamicImportMatch[1],
-            kind: 'dynamic-import'
-          });
-          continue;
-        }
-      }
-    } catch (error) {
-      console.warn(`Fallback parsing failed for ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-    
-    return {
-      imports,
-      dependencies: [], // Will be populated by dependency resolver
-      functions: [], // Fallback doesn't extract functions
-      classes: [], // Fallback doesn't extract classes
-      constants: [] // Fallback doesn't extract constants
-    };
-  }
-}
\ No newline at end of file
+}
@@ -3,3 +3,7 @@
  */
 
 export { ASTParser } from './ast-parser.js';
+export { SFCParser } from './sfc-parser.js';
+export { RouteParser } from './route-parser.js';
+export { MetricsCalculator } from './metrics-calculator.js';
+export type { SFCScript } from './sfc-parser.js';
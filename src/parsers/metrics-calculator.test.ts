@@ -0,0 +1,107 @@
+/**
+ * Unit tests for MetricsCalculator module
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as ts from 'typescript';
+import { MetricsCalculator } from './metrics-calculator.js';
+
+const parse = (content: string, fileName = 'test.ts'): ts.SourceFile =>
+  ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true);
+
+const firstFunction = (content: string): ts.FunctionLikeDeclaration => {
+  let found: ts.FunctionLikeDeclaration | undefined;
+  const visit = (node: ts.Node): void => {
+    if (!found && ts.isFunctionLike(node) && 'body' in node) {
+      found = node as ts.FunctionLikeDeclaration;
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(parse(content));
+  if (!found) {
+    throw new Error('No function found');
+  }
+  return found;
+};
+
+describe('MetricsCalculator', () => {
+  describe('getFileMetrics', () => {
+    it('should separate code, comment and blank lines', () => {
+      const content = [
+        '/**',
+        ' * Docs',
+        ' */',
+        'export const a = 1; // trailing comment',
+        '',
+        '// line comment',
+        '/* block */ const b = 2;',
+        'const c = `multi',
+        'line`;'
+      ].join('\n');
+
+      expect(MetricsCalculator.getFileMetrics(parse(content))).toEqual({
+        lines: 9,
+        codeLines: 4,
+        commentLines: 4,
+        maxNesting: 0
+      });
+    });
+
+    it('should ignore whitespace between JSX elements', () => {
+      const content = 'const el = (\n  <div>\n\n    <span />\n  </div>\n);';
+
+      const metrics = MetricsCalculator.getFileMetrics(parse(content, 'test.tsx'));
+
+      expect(metrics.lines).toBe(6);
+      expect(metrics.codeLines).toBe(5);
+    });
+
+    it('should measure nesting depth restarting inside functions', () => {
+      const content = `
+for (const a of list) {
+  if (a) {
+    try {
+      run();
+    } catch {}
+  } else if (b) {
+    const fn = () => { if (c) {} };
+  }
+}
+`;
+
+      expect(MetricsCalculator.getFileMetrics(parse(content)).maxNesting).toBe(3);
+    });
+  });
+
+  describe('getComplexity', () => {
+    it('should return 1 for straight-line functions', () => {
+      expect(MetricsCalculator.getComplexity(firstFunction('function f() { return 1; }'))).toBe(1);
+    });
+
+    it('should count branches and short-circuit operators', () => {
+      const content = `
+function f(a, b) {
+  if (a && b) {}
+  else if (a || b) {}
+  while (a) {}
+  switch (b) {
+    case 1: break;
+    case 2: break;
+    default: break;
+  }
+  try {} catch {}
+  a ??= b ? 1 : 2;
+}`;
+
+      // 1 + if + && + else if + || + while + 2 cases + catch + ??= + ?:
+      expect(MetricsCalculator.getComplexity(firstFunction(content))).toBe(11);
+    });
+
+    it('should not count branches of nested functions', () => {
+      const content = 'function f(a) { const g = () => a ? 1 : 2; return a || g(); }';
+
+      expect(MetricsCalculator.getComplexity(firstFunction(content))).toBe(2);
+    });
+  });
+});
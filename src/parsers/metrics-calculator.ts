@@ -0,0 +1,182 @@
+/**
+ * Code metrics module - counts code and comment lines, measures nesting depth
+ * and computes the cyclomatic complexity of functions
+ *
+ * Complexity follows the common definition used by ESLint's `complexity` rule:
+ * 1 plus one for each branch (`if`, `?:`, loops, non-default `case`, `catch`)
+ * and each short-circuit operator (`&&`, `||`, `??` and their assignments).
+ * Nesting depth follows `max-depth`: nested `if`, loops, `switch`, `try` and
+ * `with` statements, restarting inside each function, with `else if` chains
+ * counted as a single level.
+ */
+
+import * as ts from 'typescript';
+import type { FileMetrics } from '../types/index.js';
+
+/**
+ * Binary operators that add a branch
+ */
+const BRANCHING_OPERATORS = new Set([
+  ts.SyntaxKind.AmpersandAmpersandToken,
+  ts.SyntaxKind.BarBarToken,
+  ts.SyntaxKind.QuestionQuestionToken,
+  ts.SyntaxKind.AmpersandAmpersandEqualsToken,
+  ts.SyntaxKind.BarBarEqualsToken,
+  ts.SyntaxKind.QuestionQuestionEqualsToken
+]);
+
+export class MetricsCalculator {
+  /**
+   * Compute the size and nesting metrics of a file
+   * @param sourceFile - Parsed source file
+   * @param lines - Number of lines of parsed code, when the source file holds more (script blocks of single-file components)
+   * @returns Line counts and maximum nesting depth
+   */
+  static getFileMetrics(sourceFile: ts.SourceFile, lines = sourceFile.getLineStarts().length): FileMetrics {
+    const { codeLines, commentLines } = this.countLines(sourceFile);
+    return {
+      lines,
+      codeLines: codeLines.size,
+      commentLines: [...commentLines].filter(line => !codeLines.has(line)).length,
+      maxNesting: this.getMaxNesting(sourceFile)
+    };
+  }
+
+  /**
+   * Compute the cyclomatic complexity of a function, excluding nested functions
+   * @param fn - Function node
+   * @returns Complexity (1 for a function without branches)
+   */
+  static getComplexity(fn: ts.FunctionLikeDeclaration): number {
+    let complexity = 1;
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isFunctionLike(node) || ts.isClassLike(node)) {
+        return;
+      }
+      if (this.isBranch(node)) {
+        complexity++;
+      }
+      ts.forEachChild(node, visit);
+    };
+    if (fn.body) {
+      visit(fn.body);
+    }
+
+    return complexity;
+  }
+
+  /**
+   * Check if a node adds a branch to the control flow
+   * @param node - Node to check
+   * @returns True for conditionals, loops, cases, catch clauses and short-circuit operators
+   */
+  private static isBranch(node: ts.Node): boolean {
+    switch (node.kind) {
+      case ts.SyntaxKind.IfStatement:
+      case ts.SyntaxKind.ConditionalExpression:
+      case ts.SyntaxKind.ForStatement:
+      case ts.SyntaxKind.ForInStatement:
+      case ts.SyntaxKind.ForOfStatement:
+      case ts.SyntaxKind.WhileStatement:
+      case ts.SyntaxKind.DoStatement:
+      case ts.SyntaxKind.CaseClause:
+      case ts.SyntaxKind.CatchClause:
+        return true;
+      case ts.SyntaxKind.BinaryExpression:
+        return BRANCHING_OPERATORS.has((node as ts.BinaryExpression).operatorToken.kind);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Find the lines holding code and the lines holding comments
+   * @param sourceFile - Parsed source file
+   * @returns 0-based line numbers of code tokens and of comments
+   */
+  private static countLines(sourceFile: ts.SourceFile): { codeLines: Set<number>; commentLines: Set<number> } {
+    const text = sourceFile.text;
+    const codeLines = new Set<number>();
+    const commentLines = new Set<number>();
+    const seenComments = new Set<number>();
+
+    const mark = (lines: Set<number>, start: number, end: number): void => {
+      const first = sourceFile.getLineAndCharacterOfPosition(start).line;
+      const last = sourceFile.getLineAndCharacterOfPosition(end).line;
+      for (let line = first; line <= last; line++) {
+        lines.add(line);
+      }
+    };
+
+    const visit = (node: ts.Node): void => {
+      // JSDoc is trivia of the documented node and counted with the comments below
+      if (ts.isJSDoc(node)) {
+        return;
+      }
+      const children = node.getChildren(sourceFile);
+      if (children.length > 0) {
+        children.forEach(visit);
+        return;
+      }
+
+      const comments = [
+        ...(ts.getLeadingCommentRanges(text, node.pos) ?? []),
+        ...(ts.getTrailingCommentRanges(text, node.pos) ?? [])
+      ];
+      for (const comment of comments) {
+        if (!seenComments.has(comment.pos)) {
+          seenComments.add(comment.pos);
+          mark(commentLines, comment.pos, comment.end);
+        }
+      }
+
+      const start = node.getStart(sourceFile);
+      if (node.end > start && !(ts.isJsxText(node) && node.containsOnlyTriviaWhiteSpaces)) {
+        mark(codeLines, start, node.end);
+      }
+    };
+    visit(sourceFile);
+
+    return { codeLines, commentLines };
+  }
+
+  /**
+   * Find the deepest nesting of control-flow statements in a file
+   * @param sourceFile - Parsed source file
+   * @returns Maximum depth (0 when the file has no nested statements)
+   */
+  private static getMaxNesting(sourceFile: ts.SourceFile): number {
+    let max = 0;
+
+    const visit = (node: ts.Node, depth: number): void => {
+      if (ts.isFunctionLike(node)) {
+        ts.forEachChild(node, child => visit(child, 0));
+        return;
+      }
+
+      let childDepth = depth;
+      if (this.isNestingStatement(node)) {
+        childDepth = depth + 1;
+        max = Math.max(max, childDepth);
+      }
+      ts.forEachChild(node, child => visit(child, childDepth));
+    };
+    visit(sourceFile, 0);
+
+    return max;
+  }
+
+  /**
+   * Check if a statement opens a nesting level
+   * @param node - Node to check
+   * @returns True for `if` (except `else if`), loops, `switch`, `try` and `with`
+   */
+  private static isNestingStatement(node: ts.Node): boolean {
+    if (ts.isIfStatement(node)) {
+      return !(ts.isIfStatement(node.parent) && node.parent.elseStatement === node);
+    }
+    return ts.isIterationStatement(node, false) || ts.isSwitchStatement(node) ||
+      ts.isTryStatement(node) || ts.isWithStatement(node);
+  }
+}
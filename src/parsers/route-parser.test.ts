@@ -0,0 +1,115 @@
+/**
+ * Unit tests for RouteParser module
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as ts from 'typescript';
+import { RouteParser } from './route-parser.js';
+import type { FileInfo } from '../types/index.js';
+
+function extract(content: string): ReturnType<typeof RouteParser.extractRoutes> {
+  return RouteParser.extractRoutes(ts.createSourceFile('/test/routes.ts', content, ts.ScriptTarget.Latest, true));
+}
+
+function createFileInfo(functions: FileInfo['functions'] = []): FileInfo {
+  return { imports: [], dependencies: [], functions, classes: [], constants: [] };
+}
+
+describe('RouteParser', () => {
+  describe('extractRoutes', () => {
+    it('should extract Express/Hono style method calls', () => {
+      const routes = extract([
+        "router.get('/users', listUsers);",
+        "router.post('/users', auth, asyncHandler(createUser));",
+        "app.delete('/users/:id', UsersController.remove);",
+        "app.all('*', (req, res) => res.status(404).end());"
+      ].join('\n'));
+
+      expect(routes).toMatchObject([
+        { method: 'GET', path: '/users', handler: 'listUsers', loc: { line: 1 } },
+        { method: 'POST', path: '/users', handler: 'createUser', loc: { line: 2 } },
+        { method: 'DELETE', path: '/users/:id', handler: 'UsersController.remove' },
+        { method: 'ALL', path: '*' }
+      ]);
+      expect(routes[3]?.handler).toBeUndefined();
+    });
+
+    it('should extract Fastify routes, including route options and handlers inside plugins', () => {
+      const routes = extract([
+        'export default async function plugin(fastify) {',
+        "  fastify.get('/items', { schema }, async (request) => []);",
+        "  fastify.route({ method: ['PUT', 'PATCH'], url: '/items/:id', handler: updateItem });",
+        '}',
+        "app.register(plugin, { prefix: '/v1' });"
+      ].join('\n'));
+
+      expect(routes).toEqual([
+        expect.objectContaining({ method: 'GET', path: '/items' }),
+        expect.objectContaining({ method: 'PUT', path: '/items/:id', handler: 'updateItem' }),
+        expect.objectContaining({ method: 'PATCH', path: '/items/:id', handler: 'updateItem' }),
+        expect.objectContaining({ method: 'ALL', path: '/v1', kind: 'mount', handler: 'plugin' })
+      ]);
+    });
+
+    it('should extract router mounts and chained routes', () => {
+      const routes = extract([
+        "app.use('/api', apiRouter);",
+        "app.route('/admin', adminApp);",
+        "router.route('/books').get(listBooks).post(addBook);",
+        'app.use(cors());'
+      ].join('\n'));
+
+      expect(routes).toMatchObject([
+        { method: 'ALL', path: '/api', kind: 'mount', handler: 'apiRouter' },
+        { method: 'ALL', path: '/admin', kind: 'mount', handler: 'adminApp' },
+        { method: 'POST', path: '/books', handler: 'addBook' },
+        { method: 'GET', path: '/books', handler: 'listBooks' }
+      ]);
+    });
+
+    it('should ignore calls that are not route declarations', () => {
+      const routes = extract([
+        "cache.get('/users');",
+        "params.delete('page');",
+        "axios.post('/api/users', payload);",
+        "this.http.get('/api/items', options);",
+        "map.set('/a', handler);"
+      ].join('\n'));
+
+      expect(routes).toEqual([]);
+    });
+  });
+
+  describe('getFileSystemRoutes', () => {
+    it('should map App Router route handlers to their exported methods', () => {
+      const fileInfo = createFileInfo([
+        { name: 'GET', params: [], isAsync: true, isExported: true },
+        { name: 'POST', params: [], isAsync: true, isExported: true },
+        { name: 'helper', params: [], isAsync: false, isExported: true }
+      ]);
+
+      const routes = RouteParser.getFileSystemRoutes('src/app/(api)/@modal/orders/[id]/route.ts', fileInfo);
+
+      expect(routes).toEqual([
+        { method: 'GET', path: '/orders/[id]', handler: 'GET' },
+        { method: 'POST', path: '/orders/[id]', handler: 'POST' }
+      ]);
+    });
+
+    it('should map pages and API routes', () => {
+      expect(RouteParser.getFileSystemRoutes('app/page.tsx', createFileInfo()))
+        .toEqual([{ method: 'GET', path: '/', kind: 'page' }]);
+      expect(RouteParser.getFileSystemRoutes('pages/blog/[slug].tsx', createFileInfo()))
+        .toEqual([{ method: 'GET', path: '/blog/[slug]', kind: 'page' }]);
+      expect(RouteParser.getFileSystemRoutes('pages/api/users/index.ts', createFileInfo()))
+        .toEqual([{ method: 'ALL', path: '/api/users' }]);
+    });
+
+    it('should skip private folders, special files and other paths', () => {
+      expect(RouteParser.getFileSystemRoutes('app/_lib/page.tsx', createFileInfo())).toEqual([]);
+      expect(RouteParser.getFileSystemRoutes('pages/_document.tsx', createFileInfo())).toEqual([]);
+      expect(RouteParser.getFileSystemRoutes('app/users/layout.tsx', createFileInfo())).toEqual([]);
+      expect(RouteParser.getFileSystemRoutes('src/components/pages/Home.tsx', createFileInfo())).toEqual([]);
+    });
+  });
+});
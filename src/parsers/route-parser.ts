@@ -0,0 +1,341 @@
+/**
+ * Route extraction module - finds HTTP routes declared through Express, Fastify
+ * and Hono calls, and the file-system routes of Next.js projects
+ *
+ * Call-based routes are recognized syntactically (no type information), so
+ * a call only counts as a route when its path is a string literal starting
+ * with `/` and its last argument looks like a handler.
+ */
+
+import * as ts from 'typescript';
+import type { FileInfo, RouteInfo, SourceLocation } from '../types/index.js';
+import { getSourceLocation } from './source-location.js';
+
+/**
+ * Router methods that declare a handler for one HTTP method (`all` for any)
+ */
+const HTTP_METHODS = new Set(['get', 'post', 'put', 'patch', 'delete', 'head', 'options', 'all']);
+
+/**
+ * Receivers of HTTP client calls that share the router method names
+ */
+const CLIENT_RECEIVERS = new Set(['axios', 'ky', 'got', 'superagent', 'request', 'http', 'https', 'client', 'fetch', '$http']);
+
+/**
+ * Quick check for files that cannot contain route calls
+ */
+const ROUTE_CALL_PATTERN = /\.(get|post|put|patch|delete|head|options|all|use|route|register)\s*\(/;
+
+/**
+ * Next.js App Router files (`app/**\/route.ts`, `app/**\/page.tsx`), capturing the
+ * directory and the file kind
+ */
+const APP_ROUTER_PATTERN = /^(?:src\/)?app\/(?:(.*)\/)?(route|page)\.[cm]?[jt]sx?$/;
+
+/**
+ * Next.js Pages Router files, capturing the path without extension
+ */
+const PAGES_ROUTER_PATTERN = /^(?:src\/)?pages\/(.*)\.[cm]?[jt]sx?$/;
+
+/**
+ * Methods a Next.js route handler file can export
+ */
+const NEXT_ROUTE_METHODS = new Set(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS']);
+
+export class RouteParser {
+  /**
+   * Extract the routes declared through framework calls
+   * @param sourceFile - Parsed source file
+   * @returns Routes in source order
+   */
+  static extractRoutes(sourceFile: ts.SourceFile): RouteInfo[] {
+    const routes: RouteInfo[] = [];
+    if (!ROUTE_CALL_PATTERN.test(sourceFile.text)) {
+      return routes;
+    }
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isCallExpression(node)) {
+        routes.push(...this.toRoutes(node, sourceFile));
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return routes;
+  }
+
+  /**
+   * Get the Next.js routes defined by a file's location
+   *
+   * App Router `route` files yield one route per exported HTTP method function,
+   * `page` files and Pages Router files yield a page route, and `pages/api`
+   * files yield a handler for any method. Route groups (`(group)`), parallel
+   * route slots (`@slot`) and the `index` file name do not appear in paths;
+   * private folders (`_folder`) and special files (`_app`, `_document`) are
+   * not routes.
+   * @param filePath - File path relative to the root of the Next.js package
+   * @param fileInfo - Parsed file (used for exported method handlers)
+   * @returns File-system routes, or empty array for other files
+   */
+  static getFileSystemRoutes(filePath: string, fileInfo: FileInfo): RouteInfo[] {
+    const appRoute = APP_ROUTER_PATTERN.exec(filePath);
+    if (appRoute) {
+      const [, dir = '', kind] = appRoute;
+      const segments = dir.split('/').filter(Boolean);
+      if (segments.some(segment => segment.startsWith('_'))) {
+        return [];
+      }
+      const routePath = this.toRoutePath(segments.filter(s => !/^\(.*\)$/.test(s) && !s.startsWith('@')));
+      if (kind === 'page') {
+        return [{ method: 'GET', path: routePath, kind: 'page' }];
+      }
+      return fileInfo.functions
+        .filter(fn => fn.isExported && NEXT_ROUTE_METHODS.has(fn.name))
+        .map(fn => {
+          const route: RouteInfo = { method: fn.name, path: routePath, handler: fn.name };
+          if (fn.loc) {
+            route.loc = fn.loc;
+          }
+          return route;
+        });
+    }
+
+    const pagesRoute = PAGES_ROUTER_PATTERN.exec(filePath);
+    if (pagesRoute) {
+      const segments = (pagesRoute[1] ?? '').split('/');
+      if (segments.some(segment => segment.startsWith('_'))) {
+        return [];
+      }
+      if (segments[segments.length - 1] === 'index') {
+        segments.pop();
+      }
+      const routePath = this.toRoutePath(segments);
+      return segments[0] === 'api'
+        ? [{ method: 'ALL', path: routePath }]
+        : [{ method: 'GET', path: routePath, kind: 'page' }];
+    }
+
+    return [];
+  }
+
+  /**
+   * Convert a route call into route entries
+   * @param node - Call expression
+   * @param sourceFile - Source file for text extraction
+   * @returns Routes declared by the call (several for multi-method route objects)
+   */
+  private static toRoutes(node: ts.CallExpression, sourceFile: ts.SourceFile): RouteInfo[] {
+    if (!ts.isPropertyAccessExpression(node.expression)) {
+      return [];
+    }
+    const method = node.expression.name.text;
+    const receiver = node.expression.expression;
+    if (CLIENT_RECEIVERS.has(this.getReceiverName(receiver) ?? '')) {
+      return [];
+    }
+
+    const [first, second] = node.arguments;
+    const last = node.arguments[node.arguments.length - 1];
+    const loc = getSourceLocation(node, sourceFile);
+
+    // app.get('/path', handler) and Fastify's app.get('/path', options, handler)
+    if (HTTP_METHODS.has(method)) {
+      const routePath = this.getRoutePath(first);
+      if (routePath !== undefined && node.arguments.length >= 2 && last && this.isHandler(last)) {
+        return [this.toRoute(method, routePath, last, loc, sourceFile)];
+      }
+      // router.route('/path').get(handler)
+      const chainedPath = this.getChainedRoutePath(receiver);
+      if (chainedPath !== undefined && first && last && this.isHandler(last)) {
+        return [this.toRoute(method, chainedPath, last, loc, sourceFile)];
+      }
+      return [];
+    }
+
+    // app.use('/prefix', router) and Hono's app.route('/prefix', subApp)
+    if ((method === 'use' || method === 'route') && node.arguments.length >= 2) {
+      const prefix = this.getRoutePath(first);
+      if (prefix !== undefined && last && this.isHandler(last)) {
+        return [{ ...this.toRoute('all', prefix, last, loc, sourceFile), kind: 'mount' }];
+      }
+      return [];
+    }
+
+    // fastify.route({ method: 'GET', url: '/path', handler })
+    if (method === 'route' && node.arguments.length === 1 && first && ts.isObjectLiteralExpression(first)) {
+      return this.fromRouteOptions(first, loc, sourceFile);
+    }
+
+    // fastify.register(plugin, { prefix: '/v1' })
+    if (method === 'register' && first && second && ts.isObjectLiteralExpression(second)) {
+      const prefix = this.getRoutePath(this.getProperty(second, 'prefix'));
+      if (prefix !== undefined && this.isHandler(first)) {
+        return [{ ...this.toRoute('all', prefix, first, loc, sourceFile), kind: 'mount' }];
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * Build the routes of a Fastify route options object
+   * @param options - `route()` options literal
+   * @param loc - Location of the `route()` call
+   * @param sourceFile - Source file for text extraction
+   * @returns One route per declared method
+   */
+  private static fromRouteOptions(
+    options: ts.ObjectLiteralExpression,
+    loc: SourceLocation,
+    sourceFile: ts.SourceFile
+  ): RouteInfo[] {
+    const routePath = this.getRoutePath(this.getProperty(options, 'url') ?? this.getProperty(options, 'path'));
+    const methodValue = this.getProperty(options, 'method');
+    if (routePath === undefined || !methodValue) {
+      return [];
+    }
+
+    const methods = ts.isArrayLiteralExpression(methodValue) ? [...methodValue.elements] : [methodValue];
+    const handler = this.getProperty(options, 'handler');
+    return methods
+      .filter(ts.isStringLiteralLike)
+      .map(method => handler
+        ? this.toRoute(method.text, routePath, handler, loc, sourceFile)
+        : { method: method.text.toUpperCase(), path: routePath, loc });
+  }
+
+  /**
+   * Build a route entry
+   * @param method - Router method name
+   * @param routePath - Route path
+   * @param handler - Handler argument
+   * @param loc - Location of the route call
+   * @param sourceFile - Source file for text extraction
+   * @returns Route with the handler name when the handler is not inline
+   */
+  private static toRoute(
+    method: string,
+    routePath: string,
+    handler: ts.Expression,
+    loc: SourceLocation,
+    sourceFile: ts.SourceFile
+  ): RouteInfo {
+    const route: RouteInfo = { method: method.toUpperCase(), path: routePath };
+    const handlerName = this.getHandlerName(handler, sourceFile);
+    if (handlerName) {
+      route.handler = handlerName;
+    }
+    route.loc = loc;
+    return route;
+  }
+
+  /**
+   * Get the path of an Express `route('/path')` call at the start of a method chain
+   * @param receiver - Receiver of a router method call
+   * @returns Route path, or undefined if the chain does not start with `route()`
+   */
+  private static getChainedRoutePath(receiver: ts.Expression): string | undefined {
+    let expr = receiver;
+    while (ts.isCallExpression(expr) && ts.isPropertyAccessExpression(expr.expression)) {
+      const name = expr.expression.name.text;
+      if (name === 'route' && expr.arguments.length === 1) {
+        return this.getRoutePath(expr.arguments[0]);
+      }
+      if (!HTTP_METHODS.has(name)) {
+        return undefined;
+      }
+      expr = expr.expression.expression;
+    }
+    return undefined;
+  }
+
+  /**
+   * Get a route path from a string literal argument
+   * @param expr - Argument expression (if any)
+   * @returns Path text for literals starting with `/` (or `*`), otherwise undefined
+   */
+  private static getRoutePath(expr: ts.Expression | undefined): string | undefined {
+    if (!expr || !ts.isStringLiteralLike(expr)) {
+      return undefined;
+    }
+    return expr.text.startsWith('/') || expr.text === '*' ? expr.text : undefined;
+  }
+
+  /**
+   * Check if an argument can be a route handler or router
+   * @param expr - Argument expression
+   * @returns True for functions, identifiers, property accesses and calls
+   */
+  private static isHandler(expr: ts.Expression): boolean {
+    return ts.isArrowFunction(expr) || ts.isFunctionExpression(expr) || ts.isIdentifier(expr) ||
+      ts.isPropertyAccessExpression(expr) || ts.isCallExpression(expr);
+  }
+
+  /**
+   * Get the name of a handler argument
+   * @param expr - Handler expression
+   * @param sourceFile - Source file for text extraction
+   * @returns Identifier or property path (e.g. `UsersController.create`), the
+   * wrapped handler of a call (e.g. `asyncHandler(createUser)`), or undefined
+   * for inline functions
+   */
+  private static getHandlerName(expr: ts.Expression, sourceFile: ts.SourceFile): string | undefined {
+    if (ts.isIdentifier(expr) || ts.isPropertyAccessExpression(expr)) {
+      return expr.getText(sourceFile);
+    }
+    if (ts.isCallExpression(expr)) {
+      const inner = expr.arguments[expr.arguments.length - 1];
+      return inner ? this.getHandlerName(inner, sourceFile) : undefined;
+    }
+    if (ts.isFunctionExpression(expr) && expr.name) {
+      return expr.name.text;
+    }
+    return undefined;
+  }
+
+  /**
+   * Get the name a router method is called on
+   * @param receiver - Receiver expression
+   * @returns Identifier or last property name (e.g. `http` for `this.http`)
+   */
+  private static getReceiverName(receiver: ts.Expression): string | undefined {
+    if (ts.isIdentifier(receiver)) {
+      return receiver.text;
+    }
+    if (ts.isPropertyAccessExpression(receiver)) {
+      return receiver.name.text;
+    }
+    return undefined;
+  }
+
+  /**
+   * Get a property value from an object literal
+   * @param object - Object literal
+   * @param name - Property name
+   * @returns Property initializer (identifier for shorthand properties), or undefined
+   */
+  private static getProperty(object: ts.ObjectLiteralExpression, name: string): ts.Expression | undefined {
+    for (const property of object.properties) {
+      if (!property.name || !ts.isIdentifier(property.name) || property.name.text !== name) {
+        continue;
+      }
+      if (ts.isPropertyAssignment(property)) {
+        return property.initializer;
+      }
+      if (ts.isShorthandPropertyAssignment(property)) {
+        return property.name;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Join route segments into a path
+   * @param segments - Path segments
+   * @returns Path starting with `/`
+   */
+  private static toRoutePath(segments: string[]): string {
+    return `/${segments.join('/')}`;
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Unit tests for SFCParser module
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as ts from 'typescript';
+import { SFCParser } from './sfc-parser.js';
+
+describe('SFCParser', () => {
+  describe('isSFCExtension', () => {
+    it('should recognize component extensions', () => {
+      expect(SFCParser.isSFCExtension('.vue')).toBe(true);
+      expect(SFCParser.isSFCExtension('.svelte')).toBe(true);
+      expect(SFCParser.isSFCExtension('.astro')).toBe(true);
+      expect(SFCParser.isSFCExtension('.ts')).toBe(false);
+    });
+  });
+
+  describe('extractScript', () => {
+    it('should keep script blocks at their original offsets', () => {
+      const content = [
+        '<template><div /></template>',
+        '<script setup lang="ts">',
+        "import Child from './Child.vue';",
+        '</script>',
+        '<style>div { color: red; }</style>'
+      ].join('\n');
+
+      const { code, lines } = SFCParser.extractScript(content, '.vue');
+
+      expect(lines).toBe(1);
+      expect(code).toHaveLength(content.length);
+      expect(code.split('\n')).toEqual([
+        ' '.repeat(28),
+        ' '.repeat(24),
+        "import Child from './Child.vue';",
+        ' '.repeat(9),
+        ' '.repeat(34)
+      ]);
+    });
+
+    it('should combine multiple script blocks', () => {
+      const content = '<script context="module">export const a = 1;</script>\n<script>export let b;</script>';
+
+      const { code, lines } = SFCParser.extractScript(content, '.svelte');
+
+      expect(lines).toBe(2);
+      expect(code).toContain('export const a = 1;');
+      expect(code).toContain('export let b;');
+      expect(code).not.toContain('<script');
+    });
+
+    it('should extract Astro frontmatter', () => {
+      const content = "---\nimport Layout from './Layout.astro';\n---\n<Layout><h1>Hi</h1></Layout>";
+
+      const { code, scriptKind } = SFCParser.extractScript(content, '.astro');
+
+      expect(code.split('\n')[1]).toBe("import Layout from './Layout.astro';");
+      expect(code).not.toContain('---');
+      expect(code).not.toContain('Layout>');
+      expect(scriptKind).toBe(ts.ScriptKind.TS);
+    });
+
+    it('should pick the script kind from the lang attribute', () => {
+      expect(SFCParser.extractScript('<script lang="ts"></script>', '.vue').scriptKind).toBe(ts.ScriptKind.TS);
+      expect(SFCParser.extractScript('<script lang="tsx"></script>', '.vue').scriptKind).toBe(ts.ScriptKind.TSX);
+      expect(SFCParser.extractScript('<script></script>', '.vue').scriptKind).toBe(ts.ScriptKind.JS);
+      expect(SFCParser.extractScript('<script></script>', '.astro').scriptKind).toBe(ts.ScriptKind.TS);
+    });
+
+    it('should return only whitespace for components without scripts', () => {
+      const { code } = SFCParser.extractScript('<template>\n  <p>Static</p>\n</template>', '.vue');
+
+      expect(code.trim()).toBe('');
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Single-file component module - extracts the script parts of Vue, Svelte
+ * and Astro components so they can be parsed like regular TypeScript/JavaScript
+ *
+ * Script content is kept at its original offsets and everything else (templates,
+ * styles, tags) is blanked out, so locations reported by the AST parser still
+ * point at the right line and column of the component file.
+ */
+
+import * as ts from 'typescript';
+
+/**
+ * Script content extracted from a single-file component
+ */
+export interface SFCScript {
+  /** Component source with everything outside script blocks replaced by whitespace */
+  code: string;
+  /** Script kind matching the `lang` of the script blocks */
+  scriptKind: ts.ScriptKind;
+  /** Number of lines holding script content (tag and fence lines only count when they hold script text) */
+  lines: number;
+}
+
+/**
+ * Matches `<script ...>...</script>` blocks, capturing the attributes and the content
+ */
+const SCRIPT_BLOCK_PATTERN = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+
+/**
+ * Matches Astro frontmatter (`---` fences at the start of the file), capturing the content
+ */
+const FRONTMATTER_PATTERN = /^(\s*---[^\S\r\n]*\r?\n)([\s\S]*?)\r?\n---/;
+
+/**
+ * Matches the `lang` attribute of a script block
+ */
+const LANG_ATTRIBUTE_PATTERN = /\blang\s*=\s*["']?([\w-]+)/i;
+
+export class SFCParser {
+  /** Component file extensions handled by this parser */
+  static readonly EXTENSIONS = ['.vue', '.svelte', '.astro'];
+
+  /**
+   * Check if a file extension belongs to a single-file component format
+   * @param ext - File extension including the leading dot
+   * @returns True for `.vue`, `.svelte` and `.astro`
+   */
+  static isSFCExtension(ext: string): boolean {
+    return this.EXTENSIONS.includes(ext);
+  }
+
+  /**
+   * Extract the script parts of a component
+   *
+   * Collects every `<script>` block (Vue `<script>` and `<script setup>`, Svelte
+   * instance and module scripts) and, for Astro, the frontmatter.
+   *
+   * @param content - Component file content
+   * @param ext - Component file extension
+   * @returns Script code aligned with the original content and its script kind
+   */
+  static extractScript(content: string, ext: string): SFCScript {
+    const chars = content.replace(/[^\r\n]/g, ' ').split('');
+    let lang: string | undefined;
+    let lines = 0;
+
+    const keep = (start: number, text: string): void => {
+      for (let i = 0; i < text.length; i++) {
+        chars[start + i] = text[i] as string;
+      }
+      // The first and last segments share their line with the surrounding tags
+      const segments = text.split(/\r?\n/);
+      lines += segments.filter((segment, index) =>
+        segment.trim() || (index > 0 && index < segments.length - 1)
+      ).length;
+    };
+
+    if (ext === '.astro') {
+      const frontmatter = FRONTMATTER_PATTERN.exec(content);
+      if (frontmatter && frontmatter[1] !== undefined && frontmatter[2] !== undefined) {
+        keep(frontmatter[1].length, frontmatter[2]);
+      }
+    }
+
+    for (const match of content.matchAll(SCRIPT_BLOCK_PATTERN)) {
+      const [block, attributes = '', script = ''] = match;
+      // The content ends right before the closing tag
+      const closingTagLength = block.length - block.lastIndexOf('</');
+      keep((match.index ?? 0) + block.length - closingTagLength - script.length, script);
+      lang ??= LANG_ATTRIBUTE_PATTERN.exec(attributes)?.[1];
+    }
+
+    return {
+      code: chars.join(''),
+      scriptKind: this.getScriptKind(ext, lang),
+      lines
+    };
+  }
+
+  /**
+   * Get the script kind for a component's script blocks
+   * @param ext - Component file extension
+   * @param lang - Value of the first `lang` attribute (if any)
+   * @returns TypeScript ScriptKind (Astro frontmatter is always TypeScript)
+   */
+  private static getScriptKind(ext: string, lang: string | undefined): ts.ScriptKind {
+    switch (lang?.toLowerCase()) {
+      case 'ts':
+      case 'typescript':
+        return ts.ScriptKind.TS;
+      case 'tsx':
+        return ts.ScriptKind.TSX;
+      case 'jsx':
+        return ts.ScriptKind.JSX;
+      default:
+        return ext === '.astro' ? ts.ScriptKind.TS : ts.ScriptKind.JS;
+    }
+  }
+}
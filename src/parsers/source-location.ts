@@ -0,0 +1,23 @@
+/**
+ * Source location helper shared by the parsers
+ */
+
+import type * as ts from 'typescript';
+import type { SourceLocation } from '../types/index.js';
+
+/**
+ * Compute the 1-based source location of a node, excluding leading trivia
+ * @param node - AST node
+ * @param sourceFile - Source file the node belongs to
+ * @returns Start and end position of the node
+ */
+export function getSourceLocation(node: ts.Node, sourceFile: ts.SourceFile): SourceLocation {
+  const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+  const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+  return {
+    line: start.line + 1,
+    column: start.character + 1,
+    endLine: end.line + 1,
+    endColumn: end.character + 1
+  };
+}
@@ -28,23 +28,41 @@
  *   exclude: ['test/', 'spec/', 'coverage/']
  * };
  * ```
+ * 
+ * @example Index an additional file extension
+ * ```typescript
+ * const options: FilterOptions = {
+ *   extensions: ['.es6']
+ * };
+ * ```
  */
 export interface FilterOptions {
   /** Glob patterns for files to include (if empty, includes all supported files) */
   include?: string[];
   /** Glob patterns for files to exclude */
   exclude?: string[];
+  /**
+   * Extra file extensions to index in addition to the built-in
+   * TypeScript/JavaScript ones (e.g. `['.es6']`; the leading dot is optional)
+   */
+  extensions?: string[];
 }
 
 /**
  * Configuration options for CodeIndexer constructor.
  * 
- * Currently extends FilterOptions but designed to accommodate
- * additional configuration options in future versions.
+ * Extends FilterOptions with settings that do not affect which files are
+ * discovered.
  * 
  * @see FilterOptions
  */
-export type CodeIndexerOptions = FilterOptions;
+export interface CodeIndexerOptions extends FilterOptions {
+  /**
+   * Extra package.json `exports`/`imports` conditions to resolve imports with
+   * (e.g. `['browser']`); `types`, `import`/`require` and `default` are always active
+   */
+  conditions?: string[];
+}
 
 /**
  * Legacy configuration interface for CLI usage.
@@ -89,6 +107,55 @@ export interface TreeNode {
   children?: TreeNode[];
 }
 
+/**
+ * Position of an extracted symbol within its source file.
+ * 
+ * Lines and columns are 1-based so they can be used directly as
+ * `file:line:column` references by editors and agents.
+ * 
+ * @example Function spanning lines 12-18
+ * ```typescript
+ * const loc: SourceLocation = { line: 12, column: 1, endLine: 18, endColumn: 2 };
+ * ```
+ */
+export interface SourceLocation {
+  /** Line where the symbol starts (1-based) */
+  line: number;
+  /** Column where the symbol starts (1-based) */
+  column: number;
+  /** Line where the symbol ends (1-based) */
+  endLine: number;
+  /** Column just past the end of the symbol (1-based) */
+  endColumn: number;
+}
+
+/**
+ * A single named binding of an import or re-export statement.
+ * 
+ * @example Inline type modifier
+ * ```typescript
+ * // import { type User, createUser } from './user';
+ * const bindings: ImportBinding[] = [
+ *   { name: 'User', isTypeOnly: true },
+ *   { name: 'createUser' }
+ * ];
+ * ```
+ * 
+ * @example Renamed import
+ * ```typescript
+ * // import { formatAuto as format } from './formatter';
+ * const binding: ImportBinding = { name: 'formatAuto', alias: 'format' };
+ * ```
+ */
+export interface ImportBinding {
+  /** Name exported by the source module */
+  name: string;
+  /** Local name (or re-exported name) when the binding is renamed with `as` */
+  alias?: string;
+  /** True if the binding is type-only (`type` modifier or `import type` statement) */
+  isTypeOnly?: boolean;
+}
+
 /**
  * Represents an import or export statement found in source code.
  * 
@@ -112,7 +179,8 @@ export interface TreeNode {
  * const importInfo: ImportInfo = {
  *   from: 'react',
  *   kind: 'import',
- *   isDefault: true
+ *   isDefault: true,
+ *   defaultName: 'React'
  * };
  * ```
  */
@@ -121,19 +189,92 @@ export interface ImportInfo {
   from: string;
   /** Type of import/export statement */
   kind: 'import' | 'export' | 'require' | 'dynamic-import';
-  /** Array of named imports (e.g., ['foo', 'bar'] from 'import { foo, bar }') */
+  /** Local names of named imports (e.g., ['foo', 'bar'] from 'import { foo, bar }'); see `bindings` for original names */
   imported?: string[];
+  /** Named bindings with per-binding modifiers, in the same order as `imported` */
+  bindings?: ImportBinding[];
+  /**
+   * True if the statement has no runtime effect: `import type` / `export type`,
+   * or every named binding carries an inline `type` modifier
+   */
+  isTypeOnly?: boolean;
   /** True if this is a default import (import Foo from 'module') */
   isDefault?: boolean;
+  /** Local name of the default import (e.g., 'Foo' from 'import Foo from') */
+  defaultName?: string;
   /** True if this is a namespace import (import * as Foo from 'module') */
   isNamespace?: boolean;
+  /** Namespace name (e.g., 'Foo' from 'import * as Foo from' or 'export * as Foo from') */
+  namespaceName?: string;
+  /** Location of the statement in the source file */
+  loc?: SourceLocation;
+}
+
+/**
+ * Documentation extracted from a symbol's JSDoc / TSDoc comment.
+ * 
+ * Only the first sentence of the description is kept so the index stays
+ * compact; tags that affect how a symbol should be used are preserved.
+ * 
+ * @example Deprecated helper
+ * ```typescript
+ * // Formats a date for display. Uses the user's locale.
+ * // @param date - Date to format
+ * // @deprecated Use formatDateTime instead
+ * const doc: DocInfo = {
+ *   summary: 'Formats a date for display.',
+ *   deprecated: 'Use formatDateTime instead',
+ *   params: { date: 'Date to format' }
+ * };
+ * ```
+ */
+export interface DocInfo {
+  /** First sentence of the comment description */
+  summary?: string;
+  /** Deprecation message, or true when `@deprecated` has no message */
+  deprecated?: string | true;
+  /** True if the symbol is tagged `@internal` */
+  internal?: boolean;
+  /** `@param` descriptions keyed by parameter name */
+  params?: Record<string, string>;
 }
 
+/**
+ * One overload signature of an overloaded function.
+ * 
+ * @example
+ * ```typescript
+ * // export function parse(input: string): Config;
+ * const overload: FuncOverload = {
+ *   params: [{ name: 'input', type: 'string' }],
+ *   returnType: 'Config'
+ * };
+ * ```
+ */
+export interface FuncOverload {
+  /** Overload parameters */
+  params: FuncSig['params'];
+  /** Overload return type annotation (if present) */
+  returnType?: string;
+  /** Generic type parameters of the overload */
+  typeParams?: TypeParamInfo[];
+}
+
+/**
+ * React role of a function.
+ * 
+ * - `component`: PascalCase function returning JSX, or a constant wrapped in
+ *   `memo()`/`forwardRef()` or annotated as `FC<Props>`
+ * - `hook`: function named `use*` (e.g. `useAuth`, `use3D`)
+ */
+export type FunctionKind = 'component' | 'hook';
+
 /**
  * Represents a function signature extracted from source code.
  * 
  * Captures function metadata including parameters, return types,
- * and modifiers. Used for both standalone functions and class methods.
+ * and modifiers. Used for function declarations as well as constants
+ * initialized with an arrow function or function expression.
  * 
  * @example Async function
  * ```typescript
@@ -149,6 +290,32 @@ export interface ImportInfo {
  *   isExported: true
  * };
  * ```
+ * 
+ * @example Generic arrow function constant
+ * ```typescript
+ * // export const useList = <T>(items: T[]): T[] => items;
+ * const funcSig: FuncSig = {
+ *   name: 'useList',
+ *   params: [{ name: 'items', type: 'T[]' }],
+ *   returnType: 'T[]',
+ *   typeParams: [{ name: 'T' }],
+ *   isAsync: false,
+ *   isExported: true
+ * };
+ * ```
+ * 
+ * @example React component
+ * ```typescript
+ * // export const Button = ({ label }: ButtonProps) => <button>{label}</button>;
+ * const funcSig: FuncSig = {
+ *   name: 'Button',
+ *   params: [{ name: 'unknown', type: 'ButtonProps' }],
+ *   isAsync: false,
+ *   isExported: true,
+ *   kind: 'component',
+ *   propsType: 'ButtonProps'
+ * };
+ * ```
  */
 export interface FuncSig {
   /** Function name */
@@ -172,6 +339,48 @@ export interface FuncSig {
   isExported: boolean;
   /** True if function is a generator function */
   isGenerator?: boolean;
+  /** True for declarations without a runtime body (`declare`, `.d.ts` files, ambient namespaces) */
+  isAmbient?: boolean;
+  /** Generic type parameters (e.g. `<T extends object>`) */
+  typeParams?: TypeParamInfo[];
+  /**
+   * Overload signatures in declaration order, excluding the implementation.
+   * When present, `params`/`returnType` describe the implementation (or the
+   * first overload for ambient declarations without one).
+   */
+  overloads?: FuncOverload[];
+  /**
+   * React role of the function: `component` for PascalCase functions returning
+   * JSX (or wrapped in `memo`/`forwardRef`), `hook` for `use*` functions
+   */
+  kind?: FunctionKind;
+  /** Props type of a component (first parameter or wrapper/`FC` type argument) */
+  propsType?: string;
+  /** Cyclomatic complexity of the body, excluding nested functions (omitted without a body) */
+  complexity?: number;
+  /** JSDoc summary and tags (if documented) */
+  doc?: DocInfo;
+  /** Location of the declaration in the source file */
+  loc?: SourceLocation;
+}
+
+/**
+ * A decorator applied to a class, method or property.
+ * 
+ * Only literal arguments (strings, numbers, booleans, null, object and
+ * array literals) are recorded; other expressions are left out.
+ * 
+ * @example Route decorator
+ * ```typescript
+ * // @Get(':id')
+ * const decorator: DecoratorInfo = { name: 'Get', args: ["':id'"] };
+ * ```
+ */
+export interface DecoratorInfo {
+  /** Decorator name, including any qualifier (e.g. `Column` or `ORM.Entity`) */
+  name: string;
+  /** Source text of literal arguments; empty for calls such as `@Entity()`, omitted for bare `@Name` */
+  args?: string[];
 }
 
 /**
@@ -185,6 +394,7 @@ export interface FuncSig {
  * ```typescript
  * // export class UserService extends BaseService implements IUserService {
  * //   private users: User[] = [];
+ * //   constructor(private readonly repo: UserRepo) { super(); }
  * //   public async getUser(id: string): Promise<User> { ... }
  * // }
  * const classInfo: ClassInfo = {
@@ -192,6 +402,9 @@ export interface FuncSig {
  *   isExported: true,
  *   extends: 'BaseService',
  *   implements: ['IUserService'],
+ *   ctor: {
+ *     params: [{ name: 'repo', type: 'UserRepo' }]
+ *   },
  *   methods: [{
  *     name: 'getUser',
  *     params: [{ name: 'id', type: 'string' }],
@@ -202,6 +415,12 @@ export interface FuncSig {
  *     name: 'users',
  *     type: 'User[]',
  *     isPrivate: true
+ *   }, {
+ *     name: 'repo',
+ *     type: 'UserRepo',
+ *     isPrivate: true,
+ *     isReadonly: true,
+ *     isParameterProperty: true
  *   }]
  * };
  * ```
@@ -213,14 +432,31 @@ export interface ClassInfo {
   isExported: boolean;
   /** True if class is declared as abstract */
   isAbstract?: boolean;
+  /** True for declarations without a runtime body (`declare`, `.d.ts` files, ambient namespaces) */
+  isAmbient?: boolean;
   /** Name of the class this extends (if any) */
   extends?: string;
   /** Array of interface names this class implements */
   implements?: string[];
-  /** Array of class methods */
+  /** Decorators applied to the class */
+  decorators?: DecoratorInfo[];
+  /** Constructor signature (omitted when the class declares no constructor) */
+  ctor?: {
+    /** Constructor parameters, including parameter properties */
+    params: FuncSig['params'];
+    /** True if constructor is private */
+    isPrivate?: boolean;
+    /** True if constructor is protected */
+    isProtected?: boolean;
+    /** Location of the constructor in the source file */
+    loc?: SourceLocation;
+  };
+  /** Array of class methods, getters and setters */
   methods: Array<{
     /** Method name */
     name: string;
+    /** Accessor kind (omitted for regular methods) */
+    kind?: 'get' | 'set';
     /** Method parameters */
     params: Array<{
       /** Parameter name */
@@ -244,11 +480,28 @@ export interface ClassInfo {
     isProtected?: boolean;
     /** True if method is abstract */
     isAbstract?: boolean;
+    /** Cyclomatic complexity of the body (omitted for abstract and overload signatures) */
+    complexity?: number;
+    /**
+     * Overload signatures in declaration order, excluding the implementation;
+     * `params`/`returnType` describe the implementation as for functions
+     */
+    overloads?: FuncOverload[];
+    /** Decorators applied to the method */
+    decorators?: DecoratorInfo[];
+    /** JSDoc summary and tags (if documented) */
+    doc?: DocInfo;
+    /** Location of the method in the source file */
+    loc?: SourceLocation;
   }>;
-  /** Array of class properties */
+  /** Array of class properties, parameter properties and index signatures */
   properties: Array<{
-    /** Property name */
+    /** Property name (index signatures use their key, e.g. `[key: string]`) */
     name: string;
+    /** Member kind (omitted for regular properties) */
+    kind?: 'index';
+    /** True if declared as a constructor parameter property (`constructor(private repo: Repo)`) */
+    isParameterProperty?: boolean;
     /** Property type annotation */
     type?: string;
     /** True if property is static */
@@ -259,7 +512,15 @@ export interface ClassInfo {
     isProtected?: boolean;
     /** True if property is readonly */
     isReadonly?: boolean;
+    /** Decorators applied to the property */
+    decorators?: DecoratorInfo[];
+    /** Location of the property in the source file */
+    loc?: SourceLocation;
   }>;
+  /** JSDoc summary and tags (if documented) */
+  doc?: DocInfo;
+  /** Location of the declaration in the source file */
+  loc?: SourceLocation;
 }
 
 /**
@@ -279,15 +540,18 @@ export interface ClassInfo {
  * };
  * ```
  * 
- * @example Function constant
+ * @example Object constant
  * ```typescript
- * // const handler = async (req, res) => { ... };
+ * // const defaults = { retries: 3 };
  * const constInfo: ConstInfo = {
- *   name: 'handler',
- *   initKind: 'function',
+ *   name: 'defaults',
+ *   initKind: 'object',
  *   isExported: false
  * };
  * ```
+ * 
+ * Constants initialized with an arrow function or function expression are
+ * recorded as {@link FuncSig} entries instead.
  */
 export interface ConstInfo {
   /** Variable/constant name */
@@ -298,6 +562,593 @@ export interface ConstInfo {
   initKind: 'literal' | 'function' | 'class' | 'object' | 'array' | 'unknown';
   /** True if variable is exported from the module */
   isExported: boolean;
+  /** True for declarations without a runtime value (`declare`, `.d.ts` files, ambient namespaces) */
+  isAmbient?: boolean;
+  /** JSDoc summary and tags (if documented) */
+  doc?: DocInfo;
+  /** Location of the declaration in the source file */
+  loc?: SourceLocation;
+}
+
+/**
+ * Represents a generic type parameter declared on an interface, type alias,
+ * function or class.
+ *
+ * @example Constrained type parameter with default
+ * ```typescript
+ * // interface Repository<T extends Entity = User> { ... }
+ * const typeParam: TypeParamInfo = {
+ *   name: 'T',
+ *   constraint: 'Entity',
+ *   default: 'User'
+ * };
+ * ```
+ */
+export interface TypeParamInfo {
+  /** Type parameter name */
+  name: string;
+  /** Constraint from the extends clause (if present) */
+  constraint?: string;
+  /** Default type (if present) */
+  default?: string;
+}
+
+/**
+ * Represents a single member of an interface declaration.
+ *
+ * Property signatures carry their type in `type`, method signatures carry
+ * their parameters in `params` and their return type in `type`. Index, call
+ * and construct signatures use a synthetic name (`[key: string]`, `()`, `new`).
+ */
+export interface InterfaceMember {
+  /** Member name (synthetic for index, call and construct signatures) */
+  name: string;
+  /** Kind of member signature */
+  kind: 'property' | 'method' | 'index' | 'call' | 'construct';
+  /** Property type, or return type for method/call/construct signatures */
+  type?: string;
+  /** Parameters for method/call/construct signatures */
+  params?: FuncSig['params'];
+  /** True if member is optional (name?: type) */
+  optional?: boolean;
+  /** True if member is readonly */
+  readonly?: boolean;
+  /** Location of the member in the source file */
+  loc?: SourceLocation;
+}
+
+/**
+ * Represents an interface declaration extracted from source code.
+ *
+ * @example Generic interface with inheritance
+ * ```typescript
+ * // export interface UserProps<T> extends BaseProps {
+ * //   id: string;
+ * //   data?: T;
+ * // }
+ * const interfaceInfo: InterfaceInfo = {
+ *   name: 'UserProps',
+ *   isExported: true,
+ *   typeParams: [{ name: 'T' }],
+ *   extends: ['BaseProps'],
+ *   members: [
+ *     { name: 'id', kind: 'property', type: 'string' },
+ *     { name: 'data', kind: 'property', type: 'T', optional: true }
+ *   ]
+ * };
+ * ```
+ */
+export interface InterfaceInfo {
+  /** Interface name */
+  name: string;
+  /** True if interface is exported from the module */
+  isExported: boolean;
+  /** Generic type parameters (if any) */
+  typeParams?: TypeParamInfo[];
+  /** Names of the interfaces this extends (if any) */
+  extends?: string[];
+  /** Interface members */
+  members: InterfaceMember[];
+  /** Location of the declaration in the source file */
+  loc?: SourceLocation;
+}
+
+/**
+ * Represents a type alias declaration extracted from source code.
+ *
+ * @example Union type alias
+ * ```typescript
+ * // export type Status = 'active' | 'inactive';
+ * const typeInfo: TypeAliasInfo = {
+ *   name: 'Status',
+ *   isExported: true,
+ *   type: "'active' | 'inactive'"
+ * };
+ * ```
+ */
+export interface TypeAliasInfo {
+  /** Type alias name */
+  name: string;
+  /** True if type alias is exported from the module */
+  isExported: boolean;
+  /** Generic type parameters (if any) */
+  typeParams?: TypeParamInfo[];
+  /** Source text of the aliased type */
+  type: string;
+  /** Location of the declaration in the source file */
+  loc?: SourceLocation;
+}
+
+/**
+ * Represents an enum declaration extracted from source code.
+ *
+ * @example String enum
+ * ```typescript
+ * // export enum Color { Red = 'red', Green = 'green' }
+ * const enumInfo: EnumInfo = {
+ *   name: 'Color',
+ *   isExported: true,
+ *   members: [
+ *     { name: 'Red', value: "'red'" },
+ *     { name: 'Green', value: "'green'" }
+ *   ]
+ * };
+ * ```
+ */
+export interface EnumInfo {
+  /** Enum name */
+  name: string;
+  /** True if enum is exported from the module */
+  isExported: boolean;
+  /** True if enum is declared as const enum */
+  isConst?: boolean;
+  /** True for declarations without a runtime value (`declare`, `.d.ts` files, ambient namespaces) */
+  isAmbient?: boolean;
+  /** Enum members in declaration order */
+  members: Array<{
+    /** Member name */
+    name: string;
+    /** Initializer source text (if present) */
+    value?: string;
+  }>;
+  /** Location of the declaration in the source file */
+  loc?: SourceLocation;
+}
+
+/**
+ * Represents a namespace, `declare module` block or `declare global` block
+ * together with the symbols declared inside it.
+ * 
+ * Symbol collections are omitted when empty. Dotted namespaces
+ * (`namespace A.B {}`) are recorded as a single entry named `A.B`.
+ * 
+ * @example Ambient module declaration
+ * ```typescript
+ * // declare module 'config-loader' {
+ * //   export function load(path: string): Config;
+ * // }
+ * const namespaceInfo: NamespaceInfo = {
+ *   name: 'config-loader',
+ *   kind: 'module',
+ *   isExported: false,
+ *   isAmbient: true,
+ *   functions: [
+ *     { name: 'load', params: [{ name: 'path', type: 'string' }], returnType: 'Config', isAsync: false, isExported: true, isAmbient: true }
+ *   ]
+ * };
+ * ```
+ * 
+ * @example Global augmentation
+ * ```typescript
+ * // declare global { interface Window { analytics: Analytics } }
+ * const namespaceInfo: NamespaceInfo = {
+ *   name: 'global',
+ *   kind: 'global',
+ *   isExported: false,
+ *   isAmbient: true,
+ *   isAugmentation: true,
+ *   interfaces: [
+ *     { name: 'Window', isExported: false, members: [{ name: 'analytics', kind: 'property', type: 'Analytics' }] }
+ *   ]
+ * };
+ * ```
+ */
+export interface NamespaceInfo {
+  /** Namespace name, the module specifier for `declare module 'x'`, or `global` */
+  name: string;
+  /** `namespace` for identifier-named blocks, `module` for string-named modules, `global` for `declare global` */
+  kind: 'namespace' | 'module' | 'global';
+  /** True if the namespace is exported from its enclosing module or namespace */
+  isExported: boolean;
+  /** True for `declare` blocks and blocks in `.d.ts` files */
+  isAmbient?: boolean;
+  /** True for `declare global` and for `declare module 'x'` inside a module, which augment existing declarations */
+  isAugmentation?: boolean;
+  /** Functions declared in the block */
+  functions?: FuncSig[];
+  /** Classes declared in the block */
+  classes?: ClassInfo[];
+  /** Constants and variables declared in the block */
+  constants?: ConstInfo[];
+  /** Interfaces declared in the block */
+  interfaces?: InterfaceInfo[];
+  /** Type aliases declared in the block */
+  types?: TypeAliasInfo[];
+  /** Enums declared in the block */
+  enums?: EnumInfo[];
+  /** Nested namespaces */
+  namespaces?: NamespaceInfo[];
+  /** JSDoc summary and tags (if documented) */
+  doc?: DocInfo;
+  /** Location of the declaration in the source file */
+  loc?: SourceLocation;
+}
+
+/**
+ * Represents one name a module makes available to importers.
+ * 
+ * Covers exported declarations, `export { a, b }` lists, `export default`,
+ * `export =` and re-exports, so the table describes the module's complete
+ * public surface rather than only declarations carrying the `export` keyword.
+ * 
+ * @example Aliased local export
+ * ```typescript
+ * // function parse() {}
+ * // export { parse as parseConfig };
+ * const exportInfo: ExportInfo = {
+ *   name: 'parseConfig',
+ *   local: 'parse',
+ *   kind: 'function'
+ * };
+ * ```
+ * 
+ * @example Default export of a class
+ * ```typescript
+ * // export default class Router {}
+ * const exportInfo: ExportInfo = {
+ *   name: 'default',
+ *   local: 'Router',
+ *   kind: 'class',
+ *   isDefault: true
+ * };
+ * ```
+ */
+export interface ExportInfo {
+  /**
+   * Name importers use: `default` for default exports, `export=` for
+   * `export =` assignments and `*` for `export * from` re-exports
+   */
+  name: string;
+  /** Local binding being exported (for re-exports, the name in the source module) */
+  local?: string;
+  /** What the exported binding refers to */
+  kind: 'function' | 'class' | 'variable' | 'interface' | 'type' | 'enum' | 'namespace' | 'expression' | 'reexport' | 'unknown';
+  /** True for `export default` exports */
+  isDefault?: boolean;
+  /** True if the export has no runtime value (type-only syntax, interfaces and type aliases) */
+  isTypeOnly?: boolean;
+  /** Module specifier for re-exports */
+  from?: string;
+  /** Location of the export in the source file */
+  loc?: SourceLocation;
+}
+
+/**
+ * A syntax error reported while parsing a file.
+ * 
+ * Files with syntax errors are still indexed from the partially-parsed
+ * tree, so the declarations before and after the error are kept.
+ * 
+ * @example Missing initializer
+ * ```typescript
+ * // export const broken = ;
+ * const diagnostic: ParseDiagnostic = { message: 'Expression expected.', line: 1, column: 24 };
+ * ```
+ */
+export interface ParseDiagnostic {
+  /** Error message reported by the parser */
+  message: string;
+  /** 1-based line of the error */
+  line: number;
+  /** 1-based column of the error */
+  column: number;
+}
+
+/**
+ * A `describe`/`it`/`test` block in a test file.
+ * 
+ * Recognized callees are `describe`, `suite` and `context` (suites) and `it`,
+ * `test` and `specify` (tests), including their `.skip`, `.only`, `.todo`
+ * and `.each` variants.
+ * 
+ * @example Nested suite
+ * ```typescript
+ * // describe('UserService', () => { it.skip('creates users', ...); });
+ * const block: TestBlock = {
+ *   kind: 'suite',
+ *   name: 'UserService',
+ *   children: [{ kind: 'test', name: 'creates users', modifier: 'skip' }]
+ * };
+ * ```
+ */
+export interface TestBlock {
+  /** Whether the block groups other blocks or is a single test */
+  kind: 'suite' | 'test';
+  /** Block title (source text when the title is not a string literal) */
+  name: string;
+  /** Variant of the block (`describe.skip`, `it.each(...)`, ...) */
+  modifier?: 'skip' | 'only' | 'todo' | 'each';
+  /** Blocks declared inside a suite (omitted when empty) */
+  children?: TestBlock[];
+  /** Location of the block in the source file */
+  loc?: SourceLocation;
+}
+
+/**
+ * An HTTP route declared in a file.
+ * 
+ * Routes come from framework calls (`app.get('/path', handler)` in Express,
+ * Fastify and Hono, `fastify.route({...})`, `router.route('/path').get(...)`),
+ * router mounts (`app.use('/prefix', router)`, `app.route('/prefix', sub)`,
+ * `fastify.register(plugin, { prefix })`) and Next.js file-system conventions
+ * (`app/**\/route.ts`, `app/**\/page.tsx`, `pages/**`). Paths are recorded as
+ * written; mount prefixes are not applied to the mounted routes.
+ * 
+ * @example Express handler
+ * ```typescript
+ * // router.post('/api/users', createUser);
+ * const route: RouteInfo = {
+ *   method: 'POST',
+ *   path: '/api/users',
+ *   handler: 'createUser',
+ *   loc: { line: 12, column: 1, endLine: 12, endColumn: 40 }
+ * };
+ * ```
+ * 
+ * @example Next.js page
+ * ```typescript
+ * // app/(shop)/products/[id]/page.tsx
+ * const route: RouteInfo = { method: 'GET', path: '/products/[id]', kind: 'page' };
+ * ```
+ */
+export interface RouteInfo {
+  /** Upper-case HTTP method (`ALL` for handlers and mounts matching any method) */
+  method: string;
+  /** Route path or mount prefix (e.g. `/api/users/:id`) */
+  path: string;
+  /** `mount` for routers mounted under a prefix, `page` for rendered pages (omitted for handlers) */
+  kind?: 'mount' | 'page';
+  /** Handler, mounted router or plugin name (omitted for inline functions) */
+  handler?: string;
+  /** Location of the route declaration (omitted for file-system routes without a handler) */
+  loc?: SourceLocation;
+}
+
+/**
+ * An environment variable read in a file.
+ * 
+ * Reads through `process.env.X`, `process.env['X']`, `import.meta.env.X` and
+ * destructuring (`const { X = 'a' } = process.env`) are recorded once per
+ * variable and file, at the first read.
+ * 
+ * @example Read with a fallback
+ * ```typescript
+ * // const port = process.env.PORT ?? '3000';
+ * const usage: EnvVarUsage = {
+ *   name: 'PORT',
+ *   default: '3000',
+ *   loc: { line: 1, column: 14, endLine: 1, endColumn: 30 }
+ * };
+ * ```
+ */
+export interface EnvVarUsage {
+  /** Variable name */
+  name: string;
+  /** Literal fallback (`?? 'x'`, `|| 3000`, destructuring default), as its value text */
+  default?: string;
+  /** Location of the first read in the file */
+  loc?: SourceLocation;
+}
+
+/**
+ * Project-wide usage of an environment variable.
+ * 
+ * @example
+ * ```typescript
+ * const summary: EnvVarSummary = {
+ *   files: ['src/config.ts', 'src/server.ts'],
+ *   defaults: ['3000']
+ * };
+ * ```
+ */
+export interface EnvVarSummary {
+  /** Files reading the variable, sorted */
+  files: string[];
+  /** Distinct literal fallbacks used across files (omitted when none) */
+  defaults?: string[];
+}
+
+/**
+ * Why a relative import did not resolve to an indexed file:
+ * - `missing`: no file exists at the imported path
+ * - `excluded`: the file exists but is not indexed (include/exclude patterns, `.gitignore`)
+ * - `outside-root`: the imported path is above the project root
+ * - `unsupported-extension`: the import names a file type that is not indexed (`./styles.css`, `./data.json`)
+ */
+export type UnresolvedReason = 'missing' | 'excluded' | 'outside-root' | 'unsupported-extension';
+
+/**
+ * A relative import that does not resolve to an indexed file.
+ * 
+ * @example
+ * ```typescript
+ * // src/app.ts: import { legacy } from '../vendor/legacy';
+ * const unresolved: UnresolvedImport = {
+ *   from: '../vendor/legacy',
+ *   reason: 'excluded',
+ *   loc: { line: 3, column: 1, endLine: 3, endColumn: 45 }
+ * };
+ * ```
+ */
+export interface UnresolvedImport {
+  /** Module specifier as written */
+  from: string;
+  /** Why the import did not resolve */
+  reason: UnresolvedReason;
+  /** Location of the first import of the specifier in the file */
+  loc?: SourceLocation;
+}
+
+/**
+ * Origin of an external import: an npm package or a Node.js builtin module.
+ */
+export type ExternalKind = 'npm' | 'builtin';
+
+/**
+ * Project-wide usage of a third-party package or Node.js builtin module.
+ * 
+ * Builtins are keyed with the `node:` prefix and without subpaths
+ * (`fs/promises` is recorded as `node:fs`); packages are keyed by name
+ * (`lodash/merge` is recorded as `lodash`).
+ * 
+ * @example
+ * ```typescript
+ * // package.json: { "dependencies": { "zod": "^3.22.0" } }, installed 3.22.4
+ * const zod: ExternalPackage = {
+ *   kind: 'npm',
+ *   version: '3.22.4',
+ *   files: ['src/schemas/user.ts', 'src/server.ts']
+ * };
+ * ```
+ */
+export interface ExternalPackage {
+  /** Whether the import refers to an npm package or a Node.js builtin */
+  kind: ExternalKind;
+  /** Installed version from the lockfile, else the range declared in package.json (omitted for builtins and undeclared packages) */
+  version?: string;
+  /** Files importing the package, sorted */
+  files: string[];
+}
+
+/**
+ * Module resolution settings of one tsconfig file, with every path
+ * relative to the project root.
+ * 
+ * @example
+ * ```typescript
+ * // apps/web/tsconfig.json: { "compilerOptions": { "baseUrl": ".", "paths": { "@/*": ["src/*"] } } }
+ * const aliases: PathAliasConfig = {
+ *   scope: 'apps/web',
+ *   baseUrl: 'apps/web',
+ *   paths: [{ pattern: '@/*', targets: ['apps/web/src/*'] }]
+ * };
+ * ```
+ */
+export interface PathAliasConfig {
+  /** Directory of the tsconfig file (`.` for the root); the aliases apply to files below it */
+  scope: string;
+  /** Resolved `baseUrl` (omitted when not set) */
+  baseUrl?: string;
+  /** `paths` mappings in declaration order, with resolved targets */
+  paths: Array<{ pattern: string; targets: string[] }>;
+}
+
+/**
+ * Value of a package.json `exports` field: a target path, a list of
+ * fallbacks, or an object keyed by subpath (`.`, `./utils`) or condition
+ * (`import`, `types`, `default`). `null` blocks a subpath.
+ */
+export type PackageExports = string | null | PackageExports[] | { [key: string]: PackageExports };
+
+/**
+ * Value of a package.json `imports` field: subpath imports keyed by a
+ * pattern starting with `#`, with targets shaped like `exports` values.
+ * 
+ * @example
+ * ```typescript
+ * const imports: PackageImports = {
+ *   '#lib/*': './src/lib/*.ts',
+ *   '#db': { 'react-server': './src/db/server.ts', default: './src/db/client.ts' }
+ * };
+ * ```
+ */
+export type PackageImports = { [key: string]: PackageExports };
+
+/**
+ * A package of a monorepo workspace.
+ * 
+ * Entry points are kept as written in the package's package.json, relative
+ * to the package directory.
+ * 
+ * @example
+ * ```typescript
+ * const pkg: WorkspacePackage = {
+ *   name: '@acme/core',
+ *   dir: 'packages/core',
+ *   main: './dist/index.js',
+ *   types: './dist/index.d.ts',
+ *   exports: { '.': { types: './src/index.ts', default: './dist/index.js' } }
+ * };
+ * ```
+ */
+export interface WorkspacePackage {
+  /** Package name */
+  name: string;
+  /** Package directory relative to the project root */
+  dir: string;
+  /** `main` entry point (omitted when not set) */
+  main?: string;
+  /** `module` entry point (omitted when not set) */
+  module?: string;
+  /** `types` (or legacy `typings`) entry point (omitted when not set) */
+  types?: string;
+  /** `exports` map (omitted when not set) */
+  exports?: PackageExports;
+  /** `imports` map for `#` subpath imports inside the package (omitted when not set) */
+  imports?: PackageImports;
+}
+
+/**
+ * Project settings used to resolve non-relative imports.
+ * 
+ * @example
+ * ```typescript
+ * const context: ResolutionContext = {
+ *   pathAliases: [{ scope: '.', paths: [{ pattern: '~utils/*', targets: ['src/utils/*'] }] }]
+ * };
+ * ```
+ */
+export interface ResolutionContext {
+  /** tsconfig alias settings, most deeply nested scope first */
+  pathAliases?: PathAliasConfig[];
+  /** Packages of the monorepo workspace, imported by name across packages */
+  workspacePackages?: WorkspacePackage[];
+  /** `imports` of the root package.json, used by files outside workspace packages */
+  rootImports?: PackageImports;
+  /** Extra `exports`/`imports` conditions, in addition to `types`, `import`/`require` and `default` */
+  conditions?: string[];
+}
+
+/**
+ * Size and structure metrics of a file.
+ * 
+ * Line counts cover the parsed code (the script blocks of single-file
+ * components). Lines mixing code and a comment count as code.
+ * 
+ * @example
+ * ```typescript
+ * const metrics: FileMetrics = { lines: 120, codeLines: 84, commentLines: 22, maxNesting: 3 };
+ * ```
+ */
+export interface FileMetrics {
+  /** Total number of lines (of the script blocks for single-file components) */
+  lines: number;
+  /** Lines containing code */
+  codeLines: number;
+  /** Lines containing only comments */
+  commentLines: number;
+  /** Deepest nesting of `if`/loop/`switch`/`try` statements within a function */
+  maxNesting: number;
 }
 
 /**
@@ -331,12 +1182,69 @@ export interface FileInfo {
   imports: ImportInfo[];
   /** Resolved internal file dependencies (relative paths) */
   dependencies: string[];
+  /** Subset of `dependencies` referenced only through type-only imports (omitted when empty) */
+  typeDependencies?: string[];
   /** Top-level function declarations and expressions */
   functions: FuncSig[];
   /** Class definitions */
   classes: ClassInfo[];
   /** Top-level constant and variable declarations */
   constants: ConstInfo[];
+  /** Interface declarations (omitted when the file declares none) */
+  interfaces?: InterfaceInfo[];
+  /** Type alias declarations (omitted when the file declares none) */
+  types?: TypeAliasInfo[];
+  /** Enum declarations (omitted when the file declares none) */
+  enums?: EnumInfo[];
+  /** Namespaces, ambient modules and global augmentations (omitted when the file declares none) */
+  namespaces?: NamespaceInfo[];
+  /** Everything the module exports (omitted when the file exports nothing) */
+  exports?: ExportInfo[];
+  /** Syntax errors found while parsing (omitted when the file parsed cleanly) */
+  diagnostics?: ParseDiagnostic[];
+  /** Top-level suites and tests of a `*.test.*`/`*.spec.*` file (omitted for other files) */
+  tests?: TestBlock[];
+  /** Non-test files imported by a test file, i.e. the files it covers (omitted when empty) */
+  covers?: string[];
+  /** HTTP routes declared in the file (omitted when the file declares none) */
+  routes?: RouteInfo[];
+  /** Environment variables read in the file (omitted when the file reads none) */
+  env?: EnvVarUsage[];
+  /** Line counts and nesting depth (omitted for files that could not be parsed) */
+  metrics?: FileMetrics;
+  /** SHA-256 hex digest of the content the entry was built from (omitted for unreadable or oversized files) */
+  hash?: string;
+  /** File size in bytes when indexed */
+  size?: number;
+  /** File modification time in milliseconds since the epoch when indexed */
+  mtime?: number;
+  /** Name of the workspace package containing the file (omitted outside workspace packages) */
+  package?: string;
+  /** Third-party packages and `node:` builtins imported by the file, sorted (omitted when none) */
+  externals?: string[];
+  /** Relative imports that do not resolve to an indexed file, in source order (omitted when none) */
+  unresolved?: UnresolvedImport[];
+}
+
+/**
+ * A file-to-file edge in the dependency graph.
+ * 
+ * Edges are `type` when every import between the two files is type-only,
+ * so they disappear at runtime and cannot cause runtime circular imports.
+ * 
+ * @example Type-only edge
+ * ```typescript
+ * // src/api.ts: import type { User } from './models';
+ * const edge: DependencyEdge = { from: 'src/api.ts', to: 'src/models.ts', kind: 'type' };
+ * ```
+ */
+export interface DependencyEdge {
+  /** Importing file */
+  from: string;
+  /** Imported file */
+  to: string;
+  /** Whether the dependency exists at runtime (older indexes omit this; treat as `value`) */
+  kind?: 'type' | 'value';
 }
 
 /**
@@ -374,13 +1282,46 @@ export interface ProjectIndex {
     updatedAt: string;
     /** Total number of files in the index */
     totalFiles: number;
+    /** Include patterns of the scan, reused by later updates and status checks (omitted when none) */
+    include?: string[];
+    /** Exclude patterns of the scan, reused by later updates and status checks (omitted when none) */
+    exclude?: string[];
+    /** Additional file extensions indexed by the scan, reused by later updates (omitted when none) */
+    extensions?: string[];
+    /** Extra `exports`/`imports` conditions used by the scan, reused by later updates (omitted when none) */
+    conditions?: string[];
   };
   /** Hierarchical directory tree structure */
   tree: TreeNode;
   /** Flat array of all file paths (relative to root) */
   nodes: string[];
   /** Dependency graph edges showing file-to-file relationships */
-  edges: Array<{ from: string; to: string }>;
+  edges: DependencyEdge[];
   /** Detailed information for each file */
   files: Record<string, FileInfo>;
+  /** Environment variables read anywhere in the project, keyed by name (omitted when none) */
+  env?: Record<string, EnvVarSummary>;
+  /** Third-party packages and Node.js builtins imported anywhere in the project, keyed by name (omitted when none) */
+  externals?: Record<string, ExternalPackage>;
+}
+
+/**
+ * Differences between an index and the files currently on disk.
+ * 
+ * @example
+ * ```typescript
+ * const status: IndexStatus = {
+ *   added: ['src/new-feature.ts'],
+ *   modified: ['src/utils.ts'],
+ *   deleted: []
+ * };
+ * ```
+ */
+export interface IndexStatus {
+  /** Files on disk that are not in the index, sorted */
+  added: string[];
+  /** Indexed files whose content changed since they were indexed, sorted */
+  modified: string[];
+  /** Indexed files that no longer exist (or no longer match the filters), sorted */
+  deleted: string[];
 }
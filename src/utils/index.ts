@@ -29,4 +29,5 @@ export {
 export {
   filterProjectIndex,
   getFilteringStats,
-} from './project-index-filter.js';
\ No newline at end of file
+} from './project-index-filter.js';
+export { readJsonObject, asRecord } from './json-file.js';
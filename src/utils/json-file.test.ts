@@ -0,0 +1,45 @@
+/**
+ * Tests for JSON file helpers
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { readJsonObject, asRecord } from './json-file.js';
+
+describe('readJsonObject', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = path.join(process.cwd(), 'temp', `json-${Date.now()}`);
+    fs.mkdirSync(dir, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should read JSON objects', () => {
+    fs.writeFileSync(path.join(dir, 'package.json'), '{ "name": "app", "private": true }');
+
+    expect(readJsonObject(path.join(dir, 'package.json'))).toEqual({ name: 'app', private: true });
+  });
+
+  it('should return undefined for missing, invalid and non-object files', () => {
+    fs.writeFileSync(path.join(dir, 'broken.json'), '{ "name": ');
+    fs.writeFileSync(path.join(dir, 'list.json'), '["a"]');
+
+    expect(readJsonObject(path.join(dir, 'missing.json'))).toBeUndefined();
+    expect(readJsonObject(path.join(dir, 'broken.json'))).toBeUndefined();
+    expect(readJsonObject(path.join(dir, 'list.json'))).toBeUndefined();
+  });
+});
+
+describe('asRecord', () => {
+  it('should only accept non-array objects', () => {
+    expect(asRecord({ a: 1 })).toEqual({ a: 1 });
+    expect(asRecord(['a'])).toBeUndefined();
+    expect(asRecord(null)).toBeUndefined();
+    expect(asRecord('a')).toBeUndefined();
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Helpers for reading JSON manifests (package.json, lockfiles) whose shape
+ * is not trusted
+ */
+
+import * as fs from 'node:fs';
+
+/**
+ * Read a JSON object from disk
+ * @param filePath - Absolute path to the file
+ * @returns Parsed object, or undefined when the file is missing or not a JSON object
+ */
+export function readJsonObject(filePath: string): Record<string, unknown> | undefined {
+  try {
+    return asRecord(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Narrow a parsed JSON value to an object
+ * @param value - Parsed JSON value
+ * @returns The value when it is a non-array object, otherwise undefined
+ */
+export function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : undefined;
+}
@@ -5,6 +5,7 @@
 import * as path from 'node:path';
 import fastGlob from 'fast-glob';
 import ignore from 'ignore';
+import { FileDiscovery } from '../core/file-discovery.js';
 
 /**
  * Warning levels for pattern analysis
@@ -59,7 +60,7 @@ export async function analyzePatternEffectiveness(
   const suggestions: string[] = [];
   
   // Default supported extensions from FileDiscovery
-  const SUPPORTED_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
+  const SUPPORTED_EXTENSIONS = FileDiscovery.getSupportedExtensions();
   const EXCLUDED_DIRS = [
     'node_modules',
     'dist',
@@ -277,9 +278,7 @@ function generatePatternWarnings(
  * @returns True if file is supported
  */
 function isSupportedFile(filePath: string): boolean {
-  const SUPPORTED_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
-  const ext = path.extname(filePath);
-  return SUPPORTED_EXTENSIONS.includes(ext);
+  return FileDiscovery.getSupportedExtensions().includes(path.extname(filePath));
 }
 
 /**
@@ -4,6 +4,7 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import { filterProjectIndex, getFilteringStats } from './project-index-filter.js';
+import { toDSL } from '../core/index-formatter.js';
 import type { ProjectIndex, FilterOptions } from '../types/index.js';
 
 describe('filterProjectIndex', () => {
@@ -201,6 +202,45 @@ describe('filterProjectIndex', () => {
     expect(result.edges).toEqual([]);
     expect(result.files).toEqual({});
   });
+
+  it('should keep the external packages imported by included files', () => {
+    mockIndex.files['src/index.ts'].externals = ['react', 'zod'];
+    mockIndex.files['test/index.test.ts'].externals = ['vitest', 'zod'];
+    mockIndex.externals = {
+      react: { kind: 'npm', version: '18.2.0', files: ['src/index.ts'] },
+      vitest: { kind: 'npm', version: '3.2.4', files: ['test/index.test.ts'] },
+      zod: { kind: 'npm', version: '3.22.4', files: ['src/index.ts', 'test/index.test.ts'] }
+    };
+    
+    const result = filterProjectIndex(mockIndex, { include: ['src/**'] });
+    
+    expect(result.externals).toEqual({
+      react: { kind: 'npm', version: '18.2.0', files: ['src/index.ts'] },
+      zod: { kind: 'npm', version: '3.22.4', files: ['src/index.ts'] }
+    });
+    expect(toDSL(result, { includeExternals: true })).toContain('EXTERNALS:\nnpm react@18.2.0 [1 file]\nnpm zod@3.22.4 [1 file]');
+    expect(filterProjectIndex(mockIndex, {}).externals).toEqual(mockIndex.externals);
+    expect(filterProjectIndex(mockIndex, { include: ['nonexistent/**'] }).externals).toBeUndefined();
+  });
+
+  it('should keep the environment variables read by included files', () => {
+    mockIndex.files['src/index.ts'].env = [{ name: 'PORT', default: '3000' }, { name: 'API_URL' }];
+    mockIndex.files['test/index.test.ts'].env = [{ name: 'PORT', default: '0' }, { name: 'CI' }];
+    mockIndex.env = {
+      API_URL: { files: ['src/index.ts'] },
+      CI: { files: ['test/index.test.ts'] },
+      PORT: { files: ['src/index.ts', 'test/index.test.ts'], defaults: ['3000', '0'] }
+    };
+    
+    const result = filterProjectIndex(mockIndex, { include: ['src/**'] });
+    
+    expect(result.env).toEqual({
+      API_URL: { files: ['src/index.ts'] },
+      PORT: { files: ['src/index.ts'], defaults: ['3000'] }
+    });
+    expect(filterProjectIndex(mockIndex, {}).env).toEqual(mockIndex.env);
+    expect(filterProjectIndex(mockIndex, { include: ['nonexistent/**'] }).env).toBeUndefined();
+  });
 });
 
 describe('getFilteringStats', () => {
@@ -17,7 +17,7 @@
  * });
  */
 
-import type { ProjectIndex, FilterOptions, TreeNode, FileInfo } from '../types/index.js';
+import type { ProjectIndex, FilterOptions, TreeNode, FileInfo, DependencyEdge, EnvVarSummary, ExternalPackage } from '../types/index.js';
 import { TreeBuilder } from '../core/tree-builder.js';
 import { validatePatternArray } from './pattern-validation.js';
 import { minimatch } from 'minimatch';
@@ -100,13 +100,22 @@ export function filterProjectIndex(
     totalFiles: filteredFiles.length
   };
 
-  return {
+  const filteredIndex: ProjectIndex = {
     metadata: filteredMetadata,
     tree: filteredTree,
     nodes: filteredNodes,
     edges: filteredEdges,
     files: filteredFilesObject
   };
+  const filteredEnv = createFilteredEnv(index.env, index.files, filteredFiles);
+  if (filteredEnv) {
+    filteredIndex.env = filteredEnv;
+  }
+  const filteredExternals = createFilteredExternals(index.externals, filteredFiles);
+  if (filteredExternals) {
+    filteredIndex.externals = filteredExternals;
+  }
+  return filteredIndex;
 }
 
 /**
@@ -214,9 +223,9 @@ function createFilteredFilesObject(
  * @returns Filtered edges array
  */
 function createFilteredEdges(
-  originalEdges: Array<{ from: string; to: string }>,
+  originalEdges: DependencyEdge[],
   includedFiles: string[]
-): Array<{ from: string; to: string }> {
+): DependencyEdge[] {
   const includedFilesSet = new Set(includedFiles);
   
   return originalEdges.filter(edge => 
@@ -224,6 +233,71 @@ function createFilteredEdges(
   );
 }
 
+/**
+ * Create a filtered environment variable inventory containing only included files
+ * 
+ * Variables that are no longer read by any included file are dropped, and
+ * defaults are recollected from the reads of the included files.
+ * 
+ * @param originalEnv - Original environment variable inventory from index
+ * @param originalFiles - Original files object from index, holding each file's reads
+ * @param includedFiles - Array of included file paths
+ * @returns Filtered inventory, or undefined when no included file reads a variable
+ */
+function createFilteredEnv(
+  originalEnv: Record<string, EnvVarSummary> | undefined,
+  originalFiles: Record<string, FileInfo>,
+  includedFiles: string[]
+): Record<string, EnvVarSummary> | undefined {
+  const includedFilesSet = new Set(includedFiles);
+  const filteredEnv: Record<string, EnvVarSummary> = {};
+  
+  for (const [name, summary] of Object.entries(originalEnv ?? {})) {
+    const files = summary.files.filter(file => includedFilesSet.has(file));
+    if (files.length === 0) {
+      continue;
+    }
+    const filtered: EnvVarSummary = { files };
+    for (const file of files) {
+      for (const usage of originalFiles[file]?.env ?? []) {
+        if (usage.name === name && usage.default !== undefined && !filtered.defaults?.includes(usage.default)) {
+          (filtered.defaults ??= []).push(usage.default);
+        }
+      }
+    }
+    filteredEnv[name] = filtered;
+  }
+  
+  return Object.keys(filteredEnv).length > 0 ? filteredEnv : undefined;
+}
+
+/**
+ * Create a filtered external package inventory containing only included files
+ * 
+ * Packages that are no longer imported by any included file are dropped;
+ * kinds and versions are kept as recorded.
+ * 
+ * @param originalExternals - Original external package inventory from index
+ * @param includedFiles - Array of included file paths
+ * @returns Filtered inventory, or undefined when no included file imports a package
+ */
+function createFilteredExternals(
+  originalExternals: Record<string, ExternalPackage> | undefined,
+  includedFiles: string[]
+): Record<string, ExternalPackage> | undefined {
+  const includedFilesSet = new Set(includedFiles);
+  const filteredExternals: Record<string, ExternalPackage> = {};
+  
+  for (const [name, pkg] of Object.entries(originalExternals ?? {})) {
+    const files = pkg.files.filter(file => includedFilesSet.has(file));
+    if (files.length > 0) {
+      filteredExternals[name] = { ...pkg, files };
+    }
+  }
+  
+  return Object.keys(filteredExternals).length > 0 ? filteredExternals : undefined;
+}
+
 /**
  * Create a deep copy of a ProjectIndex
  * 
@@ -234,13 +308,20 @@ function createFilteredEdges(
  * @returns Deep copy of the index
  */
 function cloneProjectIndex(index: ProjectIndex): ProjectIndex {
-  return {
+  const cloned: ProjectIndex = {
     metadata: { ...index.metadata },
     tree: cloneTreeNode(index.tree),
     nodes: [...index.nodes],
     edges: index.edges.map(edge => ({ ...edge })),
     files: JSON.parse(JSON.stringify(index.files)) // Deep clone for file objects
   };
+  if (index.env) {
+    cloned.env = JSON.parse(JSON.stringify(index.env));
+  }
+  if (index.externals) {
+    cloned.externals = JSON.parse(JSON.stringify(index.externals));
+  }
+  return cloned;
 }
 
 /**